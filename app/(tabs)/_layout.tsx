@@ -1,7 +1,10 @@
 import { Tabs } from 'expo-router';
 import { Camera, Settings, BookOpen } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
 
 export default function TabLayout() {
+  const { t } = useTranslation();
+
   return (
     <Tabs
       screenOptions={{
@@ -24,31 +27,31 @@ export default function TabLayout() {
       <Tabs.Screen
         name="index"
         options={{
-          title: 'Camera',
+          title: t('tabs.camera'),
           tabBarIcon: ({ size, color }) => (
             <Camera size={size} color={color} />
           ),
-          tabBarAccessibilityLabel: 'Camera navigation screen',
+          tabBarAccessibilityLabel: t('tabs.cameraHint'),
         }}
       />
       <Tabs.Screen
         name="settings"
         options={{
-          title: 'Settings',
+          title: t('tabs.settings'),
           tabBarIcon: ({ size, color }) => (
             <Settings size={size} color={color} />
           ),
-          tabBarAccessibilityLabel: 'Settings and calibration screen',
+          tabBarAccessibilityLabel: t('tabs.settingsHint'),
         }}
       />
       <Tabs.Screen
         name="tutorial"
         options={{
-          title: 'Tutorial',
+          title: t('tabs.tutorial'),
           tabBarIcon: ({ size, color }) => (
             <BookOpen size={size} color={color} />
           ),
-          tabBarAccessibilityLabel: 'Tutorial and help screen',
+          tabBarAccessibilityLabel: t('tabs.tutorialHint'),
         }}
       />
     </Tabs>
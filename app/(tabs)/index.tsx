@@ -8,10 +8,15 @@ import {
   Platform,
   Alert,
 } from "react-native";
-import { CameraView, CameraType, useCameraPermissions } from "expo-camera";
-import * as Speech from "expo-speech";
+import {
+  CameraView,
+  CameraType,
+  CameraCapturedPicture,
+  useCameraPermissions,
+} from "expo-camera";
 import * as Haptics from "expo-haptics";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { router, useLocalSearchParams } from "expo-router";
 import {
   Play,
   Pause,
@@ -27,9 +32,21 @@ import {
   Wifi,
   WifiOff,
   Settings as SettingsIcon,
+  ScanEye,
 } from "lucide-react-native";
 import { useSettings } from "@/hooks/useSettings";
+import { useDetectionService } from "@/hooks/useDetectionService";
+import { useDevicePitch } from "@/hooks/useDevicePitch";
+import { useStepCounter } from "@/hooks/useStepCounter";
+import { useTranslation } from "@/hooks/useTranslation";
+import { useSpeech } from "@/hooks/useSpeech";
+import { useEarcons } from "@/hooks/useEarcons";
+import { useHaptics } from "@/hooks/useHaptics";
 import { ProcessedAlert } from "@/services/APIDetectionService";
+import { SpeakOptions, SpeechPriority } from "@/services/SpeechQueue";
+import { Sonar } from "@/services/Sonar";
+import { isRecordingSupported, SessionRecorder } from "@/services/SessionRecorder";
+import { sideOf } from "@/services/Directions";
 import { EnhancedDetectionOverlay } from "@/components/EnhancedDetectionOverlay";
 
 // // In your App.tsx or index.web.js/ts
@@ -40,12 +57,25 @@ import { EnhancedDetectionOverlay } from "@/components/EnhancedDetectionOverlay"
 // }
 const { width, height } = Dimensions.get("window");
 
+const ALERT_SPEECH_PRIORITY: Record<ProcessedAlert["alertType"], SpeechPriority> = {
+  urgent: "urgent",
+  warning: "normal",
+  info: "low",
+};
+
+// Step counts worth hearing again as the user walks up to an obstacle
+const RECKONED_ANNOUNCE_STEPS = [5, 3, 2, 1];
+
+// Widest lens; camera calibrations are kept per facing and zoom
+const CAMERA_ZOOM = 0;
+
 interface DetectionStats {
   totalDetections: number;
   apiCalls: number;
   errors: number;
   lastDetectionTime: number;
   apiStatus: "unknown" | "available" | "unavailable";
+  lastSource: string | null; // backend that produced the last frame
 }
 
 export default function CameraScreen() {
@@ -59,18 +89,50 @@ export default function CameraScreen() {
     errors: 0,
     lastDetectionTime: 0,
     apiStatus: "unknown",
+    lastSource: null,
   });
+  const [sceneSummary, setSceneSummary] = useState<string | null>(null);
   const { settings, updateSettings } = useSettings();
+  const i18n = useTranslation();
+  const { t } = i18n;
+  // stepsight://?action=describe speaks the scene summary
+  const { action } = useLocalSearchParams<{ action?: string }>();
+  const detectionService = useDetectionService(settings, { facing, zoom: CAMERA_ZOOM });
+  const speech = useSpeech();
+  const earcons = useEarcons();
+  const haptics = useHaptics();
+  const [sonar] = useState(() => new Sonar(earcons));
+  const [recorder] = useState(() => new SessionRecorder(detectionService));
+  const [isRecording, setIsRecording] = useState(false);
   const cameraRef = useRef<CameraView>(null);
   const lastAnnouncementTime = useRef<number>(0);
-  const detectionInterval = useRef<NodeJS.Timeout>();
+  // Last step count spoken for an obstacle, so walking closer only repeats new ones
+  const lastAnnouncedSteps = useRef<{ trackId?: string; steps: number } | null>(
+    null
+  );
+  const detectionInterval = useRef<ReturnType<typeof setInterval> | null>(
+    null
+  );
+  const sceneSummaryTimeout = useRef<ReturnType<typeof setTimeout> | null>(
+    null
+  );
+  const isProcessingFrame = useRef(false);
+  // The detection loop outlives renders, so it reads settings through a ref
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const i18nRef = useRef(i18n);
+  i18nRef.current = i18n;
+
+  // Phone tilt feeds the ground-plane distance estimate
+  useDevicePitch(isActive, (pitch) => detectionService.updateDevicePitch(pitch));
+
+  // Walking toward what the back camera sees brings it closer between frames
+  useStepCounter(isActive && facing === "back", (steps) => handleSteps(steps));
 
   useEffect(() => {
     if (isActive) {
       startDetection();
-      announceMessage(
-        "StepSight AI activated. Scanning for obstacles in your path."
-      );
+      announceMessage(t("camera.activated"));
     } else {
       stopDetection();
       setCurrentAlert(null);
@@ -81,25 +143,97 @@ export default function CameraScreen() {
     };
   }, [isActive]);
 
+  // Opt-in: each stretch of active detection becomes one recorded session
+  useEffect(() => {
+    if (!isActive || !settings.recordSessions || !isRecordingSupported) return;
+
+    recorder.start({ ...settingsRef.current });
+    setIsRecording(true);
+    return () => {
+      setIsRecording(false);
+      recorder
+        .stop()
+        .catch((error) => console.warn("⚠️ Could not save session:", error));
+    };
+  }, [isActive, settings.recordSessions]);
+
+  useEffect(() => {
+    if (action === "describe") {
+      describeScene();
+      router.setParams({ action: undefined });
+    }
+  }, [action]);
+
+  useEffect(() => {
+    return () => {
+      if (sceneSummaryTimeout.current) {
+        clearTimeout(sceneSummaryTimeout.current);
+      }
+    };
+  }, []);
+
+  const captureFrame = async (): Promise<CameraCapturedPicture | null> => {
+    if (!cameraRef.current) return null;
+
+    try {
+      const picture = await cameraRef.current.takePictureAsync({
+        quality: 0.5,
+        skipProcessing: true,
+        shutterSound: false,
+      });
+      return picture ?? null;
+    } catch (error) {
+      console.warn("Frame capture failed:", error);
+      return null;
+    }
+  };
+
+  const refreshApiStatus = () => {
+    const status = detectionService.getServiceStatus();
+    setDetectionStats((prev) => ({
+      ...prev,
+      apiStatus:
+        status.lastCheck === 0
+          ? "unknown"
+          : status.apiAvailable
+          ? "available"
+          : "unavailable",
+    }));
+  };
+
   const startDetection = () => {
-    // Enhanced detection simulation for demo purposes
     const processDetections = async () => {
+      // Skip this tick if the previous frame is still being processed
+      if (isProcessingFrame.current) return;
+      isProcessingFrame.current = true;
+
       try {
-        // Simulate API call
-        setDetectionStats((prev) => ({
-          ...prev,
-          apiCalls: prev.apiCalls + 1,
-          apiStatus: Math.random() > 0.1 ? "available" : "unavailable",
-        }));
+        const currentSettings = settingsRef.current;
+        const picture =
+          currentSettings.detectionMode === "simulation"
+            ? null
+            : await captureFrame();
 
-        // Generate realistic detection simulation
-        const alerts = generateSimulatedAlerts();
+        const alerts = await detectionService.processImageForDetection(
+          picture?.uri ?? null,
+          picture ? { width: picture.width, height: picture.height } : undefined
+        );
+        const { lastSource } = detectionService.getServiceStatus();
 
         setDetectionStats((prev) => ({
           ...prev,
+          apiCalls: prev.apiCalls + (lastSource === "fastapi" ? 1 : 0),
           totalDetections: prev.totalDetections + alerts.length,
           lastDetectionTime: Date.now(),
+          lastSource,
         }));
+        refreshApiStatus();
+
+        // Sonar follows the nearest tracked object, whether or not it alerts
+        const sonarOn =
+          currentSettings.audioEnabled && currentSettings.feedbackMode !== "speech";
+        const nearest = sonarOn ? detectionService.nearestObstacle() : null;
+        sonar.update(nearest && { distance: nearest.distance, x: nearest.x });
 
         // Handle the top priority alert
         if (alerts.length > 0) {
@@ -111,17 +245,26 @@ export default function CameraScreen() {
           const timeSinceLastAnnouncement = now - lastAnnouncementTime.current;
           const shouldAnnounce =
             topAlert.shouldAnnounce &&
-            (timeSinceLastAnnouncement > settings.announcementDelay * 1000 ||
+            (timeSinceLastAnnouncement >
+              currentSettings.announcementDelay * 1000 ||
               topAlert.alertType === "urgent");
 
-          if (shouldAnnounce && settings.audioEnabled) {
+          if (
+            shouldAnnounce &&
+            currentSettings.audioEnabled &&
+            currentSettings.feedbackMode !== "sonar"
+          ) {
             announceDetection(topAlert);
             lastAnnouncementTime.current = now;
+            lastAnnouncedSteps.current = {
+              trackId: topAlert.detection.trackId,
+              steps: topAlert.detection.steps,
+            };
           }
 
           if (
             topAlert.shouldVibrate &&
-            settings.hapticEnabled &&
+            currentSettings.hapticEnabled &&
             Platform.OS !== "web"
           ) {
             triggerHapticFeedback(topAlert);
@@ -135,6 +278,9 @@ export default function CameraScreen() {
           ...prev,
           errors: prev.errors + 1,
         }));
+        refreshApiStatus();
+      } finally {
+        isProcessingFrame.current = false;
       }
     };
 
@@ -148,168 +294,126 @@ export default function CameraScreen() {
   const stopDetection = () => {
     if (detectionInterval.current) {
       clearInterval(detectionInterval.current);
+      detectionInterval.current = null;
     }
+    sonar.stop();
   };
 
-  const generateSimulatedAlerts = (): ProcessedAlert[] => {
-    // Simulate realistic detection patterns
-    if (Math.random() < 0.7) return []; // 70% chance of no detection
+  const handleSteps = (steps: number) => {
+    detectionService.recordSteps(steps);
+    const currentSettings = settingsRef.current;
 
-    const objectTypes = ["person", "chair", "table", "door", "car", "bicycle"];
-    const label = objectTypes[Math.floor(Math.random() * objectTypes.length)];
-
-    // Realistic distance distribution
-    const distanceRandom = Math.random();
-    let steps: number;
-
-    if (distanceRandom < 0.1) {
-      steps = 1; // Very close
-    } else if (distanceRandom < 0.3) {
-      steps = 2; // Close
-    } else if (distanceRandom < 0.6) {
-      steps = 3 + Math.floor(Math.random() * 2); // 3-4 steps
-    } else {
-      steps = 5 + Math.floor(Math.random() * 3); // 5-7 steps
+    if (currentSettings.audioEnabled && currentSettings.feedbackMode !== "speech") {
+      const nearest = detectionService.nearestObstacle();
+      sonar.update(nearest && { distance: nearest.distance, x: nearest.x });
     }
 
-    const confidence = 0.6 + Math.random() * 0.4;
-    const x = 0.3 + Math.random() * 0.4; // Center-weighted
-    const y = 0.3 + Math.random() * 0.4;
-    const isMoving = Math.random() < 0.2; // 20% chance
-
-    const detection = {
-      id: `sim_${Date.now()}`,
-      label,
-      confidence,
-      distance: steps * (settings.stepLength / 100),
-      steps,
-      x,
-      y,
-      width: 0.1 + Math.random() * 0.2,
-      height: 0.15 + Math.random() * 0.25,
-      timestamp: Date.now(),
-      isMoving,
-      velocity: isMoving ? Math.random() * 1.5 + 0.5 : 0,
-      boundingBox: {
-        x: x - 0.05,
-        y: y - 0.075,
-        width: 0.1 + Math.random() * 0.2,
-        height: 0.15 + Math.random() * 0.25,
-      },
-    };
-
-    const alertType = steps <= 1 ? "urgent" : steps <= 3 ? "warning" : "info";
-    const shouldVibrate = steps <= 2 && Platform.OS !== "web";
-    const shouldAnnounce = steps <= 8;
-
-    let message = "";
-    if (steps === 1) {
-      message = "Stop! ";
-    } else if (steps === 2 && isMoving) {
-      message = "Caution! ";
-    }
+    const updated = currentAlert && detectionService.reckonAlert(currentAlert);
+    if (!updated) return;
+    setCurrentAlert(updated);
 
-    message += `${label} ahead in ${steps} ${steps === 1 ? "step" : "steps"}`;
+    const { trackId, steps: remaining } = updated.detection;
+    const last = lastAnnouncedSteps.current;
+    const isNewThreshold =
+      RECKONED_ANNOUNCE_STEPS.includes(remaining) &&
+      (!last || last.trackId !== trackId || remaining < last.steps);
+    if (!isNewThreshold) return;
+    lastAnnouncedSteps.current = { trackId, steps: remaining };
 
-    if (isMoving) {
-      message += ", moving";
+    if (
+      updated.shouldAnnounce &&
+      currentSettings.audioEnabled &&
+      currentSettings.feedbackMode !== "sonar"
+    ) {
+      speech.speak(
+        t("alerts.nowSteps", {
+          label: i18nRef.current.label(updated.detection.label),
+          count: remaining,
+        }),
+        {
+          priority: ALERT_SPEECH_PRIORITY[updated.alertType],
+          language: i18nRef.current.speechLanguage,
+        }
+      );
     }
-
-    if (x < 0.3) {
-      message += " to your left";
-    } else if (x > 0.7) {
-      message += " to your right";
+    if (updated.shouldVibrate && currentSettings.hapticEnabled) {
+      triggerHapticFeedback(updated);
     }
-
-    return [
-      {
-        detection,
-        priority: 100 - steps * 10 + confidence * 20,
-        shouldAnnounce,
-        shouldVibrate,
-        message,
-        alertType,
-      },
-    ];
   };
 
   const announceDetection = (alert: ProcessedAlert) => {
-    if (!settings.audioEnabled) return;
-
-    const speechOptions = {
-      language: "en",
-      pitch:
-        alert.alertType === "urgent"
-          ? 1.3
-          : alert.alertType === "warning"
-          ? 1.1
-          : 1.0,
-      rate: alert.alertType === "urgent" ? 0.95 : 0.85,
-    };
+    const { audioEnabled, spatialAudio, spatialAudioMode } = settingsRef.current;
+    if (!audioEnabled) return;
 
-    Speech.speak(alert.message, speechOptions);
+    const speak = () =>
+      speech.speak(alert.message, {
+        priority: ALERT_SPEECH_PRIORITY[alert.alertType],
+        language: i18nRef.current.speechLanguage,
+      });
+
+    if (!spatialAudio) {
+      speak();
+      return;
+    }
+    // The tone comes from where the obstacle is; words follow once it ends
+    const earconMs = earcons.play(alert.alertType, alert.detection.x);
+    if (spatialAudioMode === "beforeSpeech") {
+      setTimeout(speak, earconMs);
+    }
   };
 
   const triggerHapticFeedback = (alert: ProcessedAlert) => {
     if (Platform.OS === "web") return;
 
-    // Enhanced haptic patterns based on alert type
-    switch (alert.alertType) {
-      case "urgent":
-        // Strong repeated vibration for urgent alerts
-        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
-        setTimeout(
-          () => Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy),
-          150
-        );
-        setTimeout(
-          () => Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy),
-          300
-        );
-        break;
-      case "warning":
-        // Medium double vibration for warnings
-        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-        setTimeout(
-          () => Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium),
-          200
-        );
-        break;
-      default:
-        // Light single vibration for info
-        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-        break;
-    }
+    // Patterns are per alert type and per side, so direction can be felt
+    const side = sideOf(alert.detection.bearing ?? 0);
+    haptics.play(settingsRef.current.hapticPatterns[alert.alertType][side]);
   };
 
-  const announceMessage = (message: string) => {
-    if (settings.audioEnabled) {
-      Speech.speak(message, {
-        language: "en",
-        pitch: 1.0,
-        rate: 0.8,
+  // Feedback on the user's own actions goes ahead of routine alerts
+  const announceMessage = (message: string, options: SpeakOptions = {}) => {
+    if (settingsRef.current.audioEnabled) {
+      speech.speak(message, {
+        priority: "high",
+        language: i18nRef.current.speechLanguage,
+        ...options,
       });
     }
   };
 
+  const describeScene = () => {
+    if (!isActive) {
+      announceMessage(t("camera.describeInactive"));
+      return;
+    }
+
+    const summary = detectionService.describeScene();
+    setSceneSummary(summary);
+    if (sceneSummaryTimeout.current) {
+      clearTimeout(sceneSummaryTimeout.current);
+    }
+    sceneSummaryTimeout.current = setTimeout(() => setSceneSummary(null), 8000);
+
+    // The user asked for it, so it replaces whatever is being said
+    announceMessage(summary, { interrupt: true });
+  };
+
   const toggleCamera = () => {
     setIsActive(!isActive);
-    const message = !isActive ? "Camera activated" : "Camera deactivated";
+    const message = t(!isActive ? "camera.cameraOn" : "camera.cameraOff");
     announceMessage(message);
   };
 
   const toggleAudio = () => {
     const newState = !settings.audioEnabled;
     updateSettings({ audioEnabled: newState });
-    announceMessage(newState ? "Audio enabled" : "Audio disabled");
+    announceMessage(t(newState ? "camera.audioOn" : "camera.audioOff"));
   };
 
   const toggleHaptic = () => {
     const newState = !settings.hapticEnabled;
     updateSettings({ hapticEnabled: newState });
-    announceMessage(
-      newState ? "Haptic feedback enabled" : "Haptic feedback disabled"
-    );
+    announceMessage(t(newState ? "common.hapticOn" : "common.hapticOff"));
 
     if (newState && Platform.OS !== "web") {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -318,21 +422,24 @@ export default function CameraScreen() {
 
   const flipCamera = () => {
     setFacing((current) => (current === "back" ? "front" : "back"));
-    announceMessage("Camera flipped");
+    announceMessage(t("camera.flipped"));
   };
 
   const testConnection = async () => {
-    announceMessage("Testing API connection");
-    // Simulate API test
-    const isConnected = Math.random() > 0.3;
+    announceMessage(t("camera.testingConnection"));
+    const isConnected = await detectionService.testApiConnection();
     setDetectionStats((prev) => ({
       ...prev,
       apiStatus: isConnected ? "available" : "unavailable",
     }));
     announceMessage(
-      isConnected
-        ? "API connection successful"
-        : "API connection failed, using simulation mode"
+      t(
+        isConnected
+          ? "camera.connectionOk"
+          : settings.detectionMode === "ai"
+          ? "camera.connectionFailedNoFallback"
+          : "camera.connectionFailedSimulation"
+      )
     );
   };
 
@@ -351,16 +458,25 @@ export default function CameraScreen() {
   };
 
   const getStatusText = () => {
-    if (!isActive) return "INACTIVE";
+    if (!isActive) return t("camera.status.inactive");
+    if (detectionStats.lastSource === "on-device") return t("camera.status.onDevice");
     switch (detectionStats.apiStatus) {
       case "available":
-        return "API READY";
+        return t("camera.status.apiReady");
       case "unavailable":
-        return "SIMULATION";
+        return t(
+          settings.detectionMode === "ai"
+            ? "camera.status.apiOffline"
+            : "camera.status.simulation"
+        );
       case "unknown":
-        return "CHECKING";
+        return t(
+          settings.detectionMode === "simulation"
+            ? "camera.status.simulation"
+            : "camera.status.checking"
+        );
       default:
-        return "INACTIVE";
+        return t("camera.status.inactive");
     }
   };
 
@@ -382,7 +498,7 @@ export default function CameraScreen() {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.centerContent}>
-          <Text style={styles.message}>Loading camera permissions...</Text>
+          <Text style={styles.message}>{t("camera.loadingPermissions")}</Text>
         </View>
       </SafeAreaView>
     );
@@ -393,17 +509,16 @@ export default function CameraScreen() {
       <SafeAreaView style={styles.container}>
         <View style={styles.centerContent}>
           <AlertTriangle size={64} color="#EA580C" style={styles.icon} />
-          <Text style={styles.title}>Camera Access Required</Text>
-          <Text style={styles.message}>
-            StepSight needs camera access to detect obstacles and help with
-            navigation.
-          </Text>
+          <Text style={styles.title}>{t("camera.permissionTitle")}</Text>
+          <Text style={styles.message}>{t("camera.permissionMessage")}</Text>
           <TouchableOpacity
             style={styles.permissionButton}
             onPress={requestPermission}
-            accessibilityLabel="Grant camera permission"
+            accessibilityLabel={t("camera.grantPermissionHint")}
           >
-            <Text style={styles.permissionButtonText}>Grant Permission</Text>
+            <Text style={styles.permissionButtonText}>
+              {t("camera.grantPermission")}
+            </Text>
           </TouchableOpacity>
         </View>
       </SafeAreaView>
@@ -415,12 +530,13 @@ export default function CameraScreen() {
       {/* Outer container for camera and all overlays */}
       <View style={styles.cameraAndOverlayContainer}>
         {/* The CameraView itself */}
-        <CameraView ref={cameraRef} style={styles.camera} facing={facing} />
+        <CameraView ref={cameraRef} style={styles.camera} facing={facing} zoom={CAMERA_ZOOM} />
 
         {/* All overlay components go here, as siblings of CameraView */}
         <EnhancedDetectionOverlay
           detections={currentAlert ? [currentAlert.detection] : []}
           alertType={currentAlert?.alertType}
+          directionFormat={settings.directionFormat}
           // The EnhancedDetectionOverlay likely already uses absolute positioning internally
           // but if it renders nothing, it won't be visible. Ensure its own styles allow it to overlay.
         />
@@ -432,12 +548,22 @@ export default function CameraScreen() {
               style={[styles.statusDot, { backgroundColor: getStatusColor() }]}
             />
             <Text style={styles.statusText}>{getStatusText()}</Text>
+            {isRecording && (
+              <Text
+                style={styles.recordingText}
+                accessibilityLabel={t("camera.recordingHint")}
+              >
+                {t("camera.recording")}
+              </Text>
+            )}
             {getStatusIcon()}
           </View>
           <View style={styles.statusInfo}>
-            <Text style={styles.stepInfo}>Step: {settings.stepLength}cm</Text>
+            <Text style={styles.stepInfo}>
+              {t("camera.stepLength", { count: settings.stepLength })}
+            </Text>
             <Text style={styles.platformInfo}>
-              {Platform.OS === "web" ? "Web" : "Mobile"}
+              {t(Platform.OS === "web" ? "camera.platformWeb" : "camera.platformMobile")}
             </Text>
           </View>
         </View>
@@ -457,7 +583,7 @@ export default function CameraScreen() {
               ]}
             />
             <Target size={16} color="#3B82F6" style={styles.focusIcon} />
-            <Text style={styles.focusText}>Detection Zone</Text>
+            <Text style={styles.focusText}>{t("camera.detectionZone")}</Text>
           </View>
         )}
 
@@ -491,8 +617,9 @@ export default function CameraScreen() {
                 ]}
               >
                 <Text style={styles.alertSteps}>
-                  {currentAlert.detection.steps}{" "}
-                  {currentAlert.detection.steps === 1 ? "STEP" : "STEPS"}
+                  {t("common.stepsShort", {
+                    count: currentAlert.detection.steps,
+                  })}
                 </Text>
               </View>
               {currentAlert.alertType === "urgent" && (
@@ -506,25 +633,39 @@ export default function CameraScreen() {
 
             <View style={styles.alertMeta}>
               <Text style={styles.alertConfidence}>
-                {Math.round(currentAlert.detection.confidence * 100)}% confident
+                {t("camera.confident", {
+                  percent: Math.round(currentAlert.detection.confidence * 100),
+                })}
               </Text>
               {currentAlert.detection.isMoving && (
                 <View style={styles.movingContainer}>
                   <Activity size={14} color="#F59E0B" />
-                  <Text style={styles.movingIndicator}>MOVING</Text>
+                  <Text style={styles.movingIndicator}>
+                    {t("common.moving")}
+                  </Text>
                 </View>
               )}
             </View>
           </View>
         )}
 
+        {/* Scene Summary */}
+        {sceneSummary && (
+          <View style={styles.sceneSummary} accessibilityLiveRegion="polite">
+            <Text style={styles.sceneSummaryText}>{sceneSummary}</Text>
+          </View>
+        )}
+
         {/* Enhanced Detection Stats */}
         {isActive && (
           <View style={styles.statsDisplay}>
             <Text style={styles.statsText}>
-              API: {detectionStats.apiStatus.toUpperCase()} | Calls:{" "}
-              {detectionStats.apiCalls} | Detections:{" "}
-              {detectionStats.totalDetections} | Errors: {detectionStats.errors}
+              {t("camera.stats", {
+                status: t(`camera.apiStatus.${detectionStats.apiStatus}`),
+                calls: detectionStats.apiCalls,
+                detections: detectionStats.totalDetections,
+                errors: detectionStats.errors,
+              })}
             </Text>
           </View>
         )}
@@ -535,7 +676,7 @@ export default function CameraScreen() {
         <TouchableOpacity
           style={[styles.mainButton, isActive && styles.mainButtonActive]}
           onPress={toggleCamera}
-          accessibilityLabel={isActive ? "Stop scanning" : "Start scanning"}
+          accessibilityLabel={t(isActive ? "camera.stopHint" : "camera.startHint")}
         >
           {isActive ? (
             <Pause size={32} color="#FFFFFF" />
@@ -543,7 +684,7 @@ export default function CameraScreen() {
             <Play size={32} color="#FFFFFF" />
           )}
           <Text style={styles.mainButtonText}>
-            {isActive ? "STOP" : "START"}
+            {t(isActive ? "camera.stop" : "camera.start")}
           </Text>
         </TouchableOpacity>
 
@@ -554,9 +695,9 @@ export default function CameraScreen() {
               settings.audioEnabled && styles.controlButtonActive,
             ]}
             onPress={toggleAudio}
-            accessibilityLabel={
-              settings.audioEnabled ? "Disable audio" : "Enable audio"
-            }
+            accessibilityLabel={t(
+              settings.audioEnabled ? "camera.disableAudio" : "camera.enableAudio"
+            )}
           >
             {settings.audioEnabled ? (
               <Volume2 size={24} color="#FFFFFF" />
@@ -571,11 +712,11 @@ export default function CameraScreen() {
               settings.hapticEnabled && styles.controlButtonActive,
             ]}
             onPress={toggleHaptic}
-            accessibilityLabel={
+            accessibilityLabel={t(
               settings.hapticEnabled
-                ? "Disable haptic feedback"
-                : "Enable haptic feedback"
-            }
+                ? "camera.disableHaptic"
+                : "camera.enableHaptic"
+            )}
           >
             {settings.hapticEnabled ? (
               <Zap size={24} color="#FFFFFF" />
@@ -584,10 +725,19 @@ export default function CameraScreen() {
             )}
           </TouchableOpacity>
 
+          <TouchableOpacity
+            style={styles.controlButton}
+            onPress={describeScene}
+            accessibilityLabel={t("camera.describe")}
+            accessibilityHint={t("camera.describeHint")}
+          >
+            <ScanEye size={24} color="#FFFFFF" />
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={styles.controlButton}
             onPress={flipCamera}
-            accessibilityLabel="Flip camera"
+            accessibilityLabel={t("camera.flip")}
           >
             <RotateCcw size={24} color="#FFFFFF" />
           </TouchableOpacity>
@@ -595,7 +745,7 @@ export default function CameraScreen() {
           <TouchableOpacity
             style={styles.controlButton}
             onPress={testConnection}
-            accessibilityLabel="Test API connection"
+            accessibilityLabel={t("camera.testConnection")}
           >
             <SettingsIcon size={24} color="#FFFFFF" />
           </TouchableOpacity>
@@ -684,6 +834,12 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     marginRight: 8,
   },
+  recordingText: {
+    color: "#EF4444",
+    fontSize: 12,
+    fontWeight: "bold",
+    marginRight: 8,
+  },
   statusIcon: {
     marginLeft: 4,
   },
@@ -793,6 +949,23 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     marginLeft: 4,
   },
+  sceneSummary: {
+    position: "absolute",
+    bottom: 190,
+    left: 20,
+    right: 20,
+    backgroundColor: "rgba(0, 0, 0, 0.85)",
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#3B82F6",
+    zIndex: 12,
+  },
+  sceneSummaryText: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    lineHeight: 22,
+  },
   statsDisplay: {
     position: "absolute", // Absolute positioning
     bottom: 140, // Relative to the cameraAndOverlayContainer
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -11,7 +11,8 @@ import {
   Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import * as Speech from 'expo-speech';
+import { useFocusEffect } from 'expo-router';
+import type { Voice } from 'expo-speech';
 import { 
   Settings as SettingsIcon, 
   Ruler, 
@@ -28,63 +29,311 @@ import {
   Download,
   Upload,
   Smartphone,
-  Globe
+  Globe,
+  Camera,
+  Tags,
+  Languages,
+  Vibrate,
+  PlayCircle,
+  Trash2
 } from 'lucide-react-native';
-import { useSettings } from '@/hooks/useSettings';
+import { Settings, useSettings } from '@/hooks/useSettings';
+import { getActiveLens, useDetectionService } from '@/hooks/useDetectionService';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useSpeech } from '@/hooks/useSpeech';
+import { useEarcons } from '@/hooks/useEarcons';
+import { useStepCalibration } from '@/hooks/useStepCalibration';
+import { FocalLengthCalibration } from '@/components/FocalLengthCalibration';
+import { ObjectTaxonomyEditor } from '@/components/ObjectTaxonomyEditor';
+import { AlertRulesEditor } from '@/components/AlertRulesEditor';
+import { HapticPatternDesigner } from '@/components/HapticPatternDesigner';
+import { SessionReplayViewer } from '@/components/SessionReplayViewer';
+import { RULE_PRESETS } from '@/services/AlertRules';
+import { SpeakOptions } from '@/services/SpeechQueue';
+import { DIRECTION_FORMATS, DirectionFormat, formatDirection } from '@/services/Directions';
+import {
+  LANGUAGES,
+  LANGUAGE_IDS,
+  LanguageSetting,
+  applyLayoutDirection,
+  createTranslator,
+} from '@/services/i18n';
+import { TaxonomyEntry } from '@/services/ObjectTaxonomy';
+import {
+  SessionSummary,
+  deleteSession,
+  isRecordingSupported,
+  listSessions,
+  loadSession,
+} from '@/services/SessionRecorder';
+import { ReplayResult, replaySession } from '@/services/SessionReplay';
+import { findScenario, RANDOM_SCENARIO, SCENARIOS } from '@/services/scenarios';
+import {
+  DEFAULT_WALK_DISTANCE,
+  MAX_STEP_LENGTH,
+  MAX_WALK_DISTANCE,
+  MIN_STEP_LENGTH,
+  MIN_WALK_DISTANCE,
+} from '@/services/StepCalibration';
+import {
+  CameraCalibration,
+  DEFAULT_FOCAL_LENGTH_RATIO,
+  REFERENCE_OBJECTS,
+  cameraKey,
+} from '@/services/CameraCalibration';
 
 export default function SettingsScreen() {
   const { settings, updateSettings, resetSettings, exportSettings, importSettings } = useSettings();
+  const detectionService = useDetectionService(settings);
+  const i18n = useTranslation();
+  const { t } = i18n;
+  const speech = useSpeech();
+  const earcons = useEarcons();
+  const stepCalibration = useStepCalibration();
+  const [voices, setVoices] = useState<Voice[]>([]);
+  const [serviceStatus, setServiceStatus] = useState(() => detectionService.getServiceStatus());
   const [tempStepLength, setTempStepLength] = useState(settings.stepLength.toString());
-  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [walkDistance, setWalkDistance] = useState(DEFAULT_WALK_DISTANCE.toString());
+  const [tempSeed, setTempSeed] = useState(settings.simulationSeed.toString());
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [showCameraCalibration, setShowCameraCalibration] = useState(false);
+  const [showTaxonomyEditor, setShowTaxonomyEditor] = useState(false);
+  const [showRulesEditor, setShowRulesEditor] = useState(false);
+  const [showHapticDesigner, setShowHapticDesigner] = useState(false);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [replay, setReplay] = useState<{ startedAt: number; result: ReplayResult } | null>(null);
+  const [cameraLens, setCameraLens] = useState(getActiveLens);
+  const currentCameraKey = cameraKey(cameraLens);
+  const cameraCalibration = settings.cameraCalibrations[currentCameraKey];
+
+  // Refresh the connected model info whenever the tab is shown
+  useFocusEffect(
+    useCallback(() => {
+      setServiceStatus(detectionService.getServiceStatus());
+      setCameraLens(getActiveLens());
+      refreshSessions();
+    }, [detectionService])
+  );
+
+  // Only voices that can speak the current language are offered
+  useEffect(() => {
+    const base = (tag: string) => tag.toLowerCase().split(/[-_]/)[0];
+    speech.getVoices().then(available =>
+      setVoices(
+        available
+          .filter(voice => base(voice.language) === base(i18n.speechLanguage))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      )
+    );
+  }, [i18n.speechLanguage]);
 
-  const announceMessage = (message: string) => {
+  const describeModel = () => {
+    const { server } = serviceStatus;
+    if (!server) {
+      return t('settings.platform.notConnected');
+    }
+    if (!server.modelName) {
+      return t('settings.platform.noModel');
+    }
+    return `${server.modelName}${server.modelVersion ? ` v${server.modelVersion}` : ''}`;
+  };
+
+  const describeOnDeviceModel = () => {
+    const health = serviceStatus.backends.find(backend => backend.name === 'on-device')?.health;
+    if (!health) {
+      return t('settings.platform.onDeviceUnavailable');
+    }
+    if (health.available) {
+      return t('settings.platform.onDeviceLoaded');
+    }
+    if (health.message) {
+      return t('settings.platform.onDeviceFailed', { error: health.message });
+    }
+    return t('settings.platform.onDeviceNotLoaded');
+  };
+
+  const announceMessage = (message: string, options: SpeakOptions = {}) => {
     if (settings.audioEnabled) {
-      Speech.speak(message, {
-        language: 'en',
-        pitch: 1.0,
-        rate: 0.8,
-      });
+      speech.speak(message, { priority: 'high', language: i18n.speechLanguage, ...options });
     }
   };
 
   const handleSaveStepLength = () => {
     const newLength = parseInt(tempStepLength, 10);
-    if (newLength >= 40 && newLength <= 100) {
+    if (newLength >= MIN_STEP_LENGTH && newLength <= MAX_STEP_LENGTH) {
       updateSettings({ stepLength: newLength });
-      announceMessage(`Step length updated to ${newLength} centimeters`);
+      announceMessage(t('settings.stepLength.updated', { count: newLength }));
     } else {
-      announceMessage('Please enter a step length between 40 and 100 centimeters');
+      announceMessage(t('settings.stepLength.invalid'));
     }
   };
 
-  const startCalibration = () => {
-    setIsCalibrating(true);
-    announceMessage('Calibration started. Walk 10 normal steps, then tap Complete Calibration.');
+  const parseWalkDistance = () => {
+    const distance = parseFloat(walkDistance.replace(',', '.'));
+    return distance >= MIN_WALK_DISTANCE && distance <= MAX_WALK_DISTANCE ? distance : null;
+  };
+
+  const startCalibration = async () => {
+    const distance = parseWalkDistance();
+    if (distance === null) {
+      announceMessage(t('settings.stepLength.invalidDistance'));
+      return;
+    }
+    if (await stepCalibration.start()) {
+      announceMessage(t('settings.stepLength.calibrationStarted', { distance }), { interrupt: true });
+    } else {
+      announceMessage(t('settings.stepLength.noSensor'));
+    }
   };
 
   const completeCalibration = () => {
-    setIsCalibrating(false);
-    // Simulate calibration completion with more realistic values
-    const calibratedLength = Math.floor(Math.random() * 25) + 55; // 55-80cm
-    setTempStepLength(calibratedLength.toString());
-    updateSettings({ stepLength: calibratedLength });
-    announceMessage(`Calibration complete. Your step length is ${calibratedLength} centimeters.`);
+    const distance = parseWalkDistance() ?? DEFAULT_WALK_DISTANCE;
+    const result = stepCalibration.finish(distance);
+    if (!result.ok) {
+      console.log(`👣 Calibration rejected (${result.reason}) after ${result.steps} steps`);
+      announceMessage(
+        t(`settings.stepLength.failures.${result.reason}`, {
+          count: result.steps,
+          length: result.stepLength ?? 0,
+        }),
+        { interrupt: true }
+      );
+      return;
+    }
+    setTempStepLength(result.stepLength.toString());
+    updateSettings({ stepLength: result.stepLength });
+    announceMessage(
+      t('settings.stepLength.calibrationComplete', {
+        steps: result.steps,
+        distance,
+        count: result.stepLength,
+      }),
+      { interrupt: true }
+    );
+  };
+
+  const cancelCalibration = () => {
+    stepCalibration.cancel();
+    announceMessage(t('settings.stepLength.calibrationCancelled'), { interrupt: true });
+  };
+
+  // Horizontal field of view along the longer image side, for display
+  const fieldOfViewDegrees = (focalLengthRatio: number) =>
+    Math.round((2 * Math.atan(0.5 / focalLengthRatio) * 180) / Math.PI);
+
+  const saveCameraCalibration = (calibration: CameraCalibration) => {
+    setShowCameraCalibration(false);
+    updateSettings({
+      cameraCalibrations: { ...settings.cameraCalibrations, [currentCameraKey]: calibration },
+    });
+    announceMessage(
+      t('settings.camera.calibratedAnnouncement', { count: fieldOfViewDegrees(calibration.focalLengthRatio) })
+    );
+  };
+
+  const clearCameraCalibration = () => {
+    const { [currentCameraKey]: _removed, ...remaining } = settings.cameraCalibrations;
+    updateSettings({ cameraCalibrations: remaining });
+    announceMessage(t('settings.camera.cleared'));
+  };
+
+  const taxonomyEntries = Object.values(settings.objectTaxonomy);
+  const countTaxonomy = (predicate: (entry: TaxonomyEntry) => boolean) =>
+    taxonomyEntries.filter(predicate).length;
+
+  // "chair ahead in 3 steps to your left", in the given format
+  const directionExample = (format: DirectionFormat) => {
+    const { exampleBearing } = DIRECTION_FORMATS.find(candidate => candidate.id === format)!;
+    const alert = t('alerts.ahead', { label: i18n.label('chair'), count: 3 });
+    return `${alert} ${formatDirection(exampleBearing, format, i18n)}`;
+  };
+
+  const updateDirectionFormat = (format: DirectionFormat) => {
+    updateSettings({ directionFormat: format });
+    announceMessage(
+      t('settings.audio.directionFormatSet', {
+        name: t(`directions.formats.${format}`),
+        example: directionExample(format),
+      })
+    );
+  };
+
+  const languageName = (language: LanguageSetting) =>
+    language === 'system' ? t('settings.language.system') : LANGUAGES[language].name;
+
+  const updateLanguage = (language: LanguageSetting) => {
+    updateSettings({ language });
+    // Confirmed in the new language, so the user can tell it worked
+    const next = createTranslator(language);
+    announceMessage(
+      next.t('settings.language.set', {
+        name: language === 'system' ? next.t('settings.language.system') : LANGUAGES[language].name,
+      }),
+      { language: next.speechLanguage }
+    );
+    if (applyLayoutDirection(next.isRTL)) {
+      Alert.alert(next.t('settings.language.restartTitle'), next.t('settings.language.restartMessage'));
+    }
+  };
+
+  // Voice changes are applied right away so the confirmation is a preview,
+  // and each one cuts off the last so repeated taps don't pile up
+  const updateSpeechRate = (speechRate: number) => {
+    updateSettings({ speechRate });
+    speech.configure({ rate: speechRate });
+    announceMessage(t('settings.audio.rateSet', { count: Math.round(speechRate * 100) }), { interrupt: true });
+  };
+
+  const updateSpeechPitch = (speechPitch: number) => {
+    updateSettings({ speechPitch });
+    speech.configure({ pitch: speechPitch });
+    announceMessage(t('settings.audio.pitchSet', { count: Math.round(speechPitch * 100) }), { interrupt: true });
+  };
+
+  const updateSpeechVoice = (voice: Voice | null) => {
+    updateSettings({ speechVoice: voice?.identifier ?? null });
+    speech.configure({ voice: voice?.identifier ?? null });
+    announceMessage(
+      t('settings.audio.voiceSet', { name: voice?.name ?? t('settings.audio.defaultVoice') }),
+      { interrupt: true }
+    );
+  };
+
+  const updateFeedbackMode = (feedbackMode: Settings['feedbackMode']) => {
+    updateSettings({ feedbackMode });
+    announceMessage(
+      t('settings.audio.feedbackModeSet', { mode: t(`settings.audio.feedbackModes.${feedbackMode}`) })
+    );
+  };
+
+  const toggleSpatialAudio = (value: boolean) => {
+    updateSettings({ spatialAudio: value });
+    if (value) {
+      // Lets the user check their headphones are the right way round
+      announceMessage(t('settings.audio.spatialPreview'));
+      earcons.play('warning', 0);
+      setTimeout(() => earcons.play('warning', 1), 600);
+    }
+  };
+
+  const updateCameraHeight = (height: number) => {
+    updateSettings({ cameraHeight: height });
+    announceMessage(t('settings.camera.heightSet', { count: height }));
   };
 
   const handleResetToDefaults = () => {
     Alert.alert(
-      'Reset Settings',
-      'Are you sure you want to reset all settings to defaults?',
+      t('settings.reset.title'),
+      t('settings.reset.message'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         { 
-          text: 'Reset', 
+          text: t('common.reset'), 
           style: 'destructive',
           onPress: () => {
             resetSettings();
             setTempStepLength('65');
-            announceMessage('Settings reset to defaults');
+            announceMessage(t('settings.reset.done'));
           }
         }
       ]
@@ -95,44 +344,103 @@ export default function SettingsScreen() {
     try {
       const settingsJson = await exportSettings();
       // In a real app, you'd share this via the share API or save to file
-      Alert.alert('Settings Exported', 'Settings have been exported to clipboard');
-      announceMessage('Settings exported successfully');
+      Alert.alert(t('settings.advanced.exportedTitle'), t('settings.advanced.exportedMessage'));
+      announceMessage(t('settings.advanced.exported'));
+    } catch (error) {
+      Alert.alert(t('settings.advanced.exportFailedTitle'), t('settings.advanced.exportFailedMessage'));
+    }
+  };
+
+  const refreshSessions = () => {
+    listSessions()
+      .then(setSessions)
+      .catch(error => console.warn('⚠️ Could not list sessions:', error));
+  };
+
+  const toggleRecordSessions = (value: boolean) => {
+    updateSettings({ recordSessions: value });
+    announceMessage(t(value ? 'settings.recording.on' : 'settings.recording.off'));
+  };
+
+  const describeSession = (session: SessionSummary) =>
+    [
+      new Date(session.startedAt).toLocaleString(i18n.speechLanguage),
+      t('settings.recording.frames', { count: session.frames }),
+      t('settings.recording.alerts', { count: session.alerts }),
+    ].join(' · ');
+
+  const replayRecordedSession = async (session: SessionSummary) => {
+    try {
+      const result = replaySession(await loadSession(session.id));
+      setReplay({ startedAt: session.startedAt, result });
     } catch (error) {
-      Alert.alert('Export Failed', 'Could not export settings');
+      console.warn('⚠️ Replay failed:', error);
+      announceMessage(t('settings.recording.replayFailed'));
     }
   };
 
+  const deleteRecordedSession = (session: SessionSummary) => {
+    Alert.alert(t('settings.recording.deleteTitle'), describeSession(session), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('settings.recording.delete'),
+        style: 'destructive',
+        onPress: async () => {
+          await deleteSession(session.id).catch(error => console.warn('⚠️ Could not delete session:', error));
+          refreshSessions();
+          announceMessage(t('settings.recording.deleted'));
+        },
+      },
+    ]);
+  };
+
   const toggleAudio = (value: boolean) => {
     updateSettings({ audioEnabled: value });
     if (value) {
-      Speech.speak('Audio feedback enabled');
+      speech.speak(t('settings.audio.enabled'), { priority: 'high', language: i18n.speechLanguage });
     }
   };
 
   const toggleHaptic = (value: boolean) => {
     updateSettings({ hapticEnabled: value });
-    announceMessage(value ? 'Haptic feedback enabled' : 'Haptic feedback disabled');
+    announceMessage(t(value ? 'common.hapticOn' : 'common.hapticOff'));
   };
 
   const updateAnnouncementDelay = (delay: number) => {
     updateSettings({ announcementDelay: delay });
-    announceMessage(`Alert cooldown set to ${delay} seconds`);
+    announceMessage(t('settings.audio.cooldownSet', { count: delay }));
   };
 
   const updateSensitivity = (sensitivity: number) => {
     updateSettings({ sensitivity });
-    announceMessage(`Detection sensitivity set to ${Math.round(sensitivity * 100)} percent`);
+    announceMessage(t('settings.detection.sensitivitySet', { count: Math.round(sensitivity * 100) }));
   };
 
   const updateConfidenceThreshold = (threshold: number) => {
     updateSettings({ confidenceThreshold: threshold });
-    announceMessage(`Confidence threshold set to ${Math.round(threshold * 100)} percent`);
+    announceMessage(t('settings.ai.confidenceSet', { count: Math.round(threshold * 100) }));
   };
 
   const toggleDetectionMode = (mode: 'ai' | 'simulation' | 'hybrid') => {
     updateSettings({ detectionMode: mode });
-    const modeNames = { ai: 'AI only', simulation: 'simulation only', hybrid: 'hybrid AI and simulation' };
-    announceMessage(`Detection mode set to ${modeNames[mode]}`);
+    announceMessage(t('settings.ai.modeSet', { mode: t(`settings.ai.modeNames.${mode}`) }));
+  };
+
+  const scenarioName = (id: string) => findScenario(id)?.name ?? t('settings.ai.randomScenario');
+
+  const updateSimulationScenario = (id: string) => {
+    updateSettings({ simulationScenario: id });
+    announceMessage(t('settings.ai.scenarioSet', { name: scenarioName(id) }));
+  };
+
+  const handleSaveSeed = () => {
+    const seed = Number(tempSeed);
+    if (Number.isInteger(seed) && seed >= 0) {
+      updateSettings({ simulationSeed: seed });
+      announceMessage(t('settings.ai.seedSet', { seed }));
+    } else {
+      announceMessage(t('settings.ai.invalidSeed'));
+    }
   };
 
   return (
@@ -141,20 +449,20 @@ export default function SettingsScreen() {
         {/* Header */}
         <View style={styles.header}>
           <SettingsIcon size={32} color="#3B82F6" />
-          <Text style={styles.title}>Settings</Text>
-          <Text style={styles.subtitle}>Optimize StepSight for your needs</Text>
+          <Text style={styles.title}>{t('settings.title')}</Text>
+          <Text style={styles.subtitle}>{t('settings.subtitle')}</Text>
         </View>
 
         {/* Step Length Calibration */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <Ruler size={24} color="#059669" />
-            <Text style={styles.sectionTitle}>Step Length Calibration</Text>
+            <Text style={styles.sectionTitle}>{t('settings.stepLength.title')}</Text>
           </View>
           
           <View style={styles.calibrationCard}>
-            <Text style={styles.cardTitle}>Current Step Length</Text>
-            <Text style={styles.stepValue}>{settings.stepLength} cm</Text>
+            <Text style={styles.cardTitle}>{t('settings.stepLength.current')}</Text>
+            <Text style={styles.stepValue}>{t('settings.stepLength.value', { count: settings.stepLength })}</Text>
             
             <View style={styles.inputRow}>
               <TextInput
@@ -162,62 +470,168 @@ export default function SettingsScreen() {
                 value={tempStepLength}
                 onChangeText={setTempStepLength}
                 keyboardType="numeric"
-                placeholder="Enter step length (cm)"
+                placeholder={t('settings.stepLength.placeholder')}
                 placeholderTextColor="#6B7280"
-                accessibilityLabel="Step length input"
+                accessibilityLabel={t('settings.stepLength.inputHint')}
               />
               <TouchableOpacity
                 style={styles.saveButton}
                 onPress={handleSaveStepLength}
-                accessibilityLabel="Save step length"
+                accessibilityLabel={t('settings.stepLength.saveHint')}
               >
                 <Save size={20} color="#FFFFFF" />
               </TouchableOpacity>
             </View>
 
-            <Text style={styles.hint}>
-              Accurate step length improves distance estimation. Use calibration for best results.
-            </Text>
+            <Text style={styles.hint}>{t('settings.stepLength.hint')}</Text>
 
-            {!isCalibrating ? (
-              <TouchableOpacity
-                style={styles.calibrationButton}
-                onPress={startCalibration}
-                accessibilityLabel="Start step calibration"
-              >
-                <Footprints size={20} color="#FFFFFF" />
-                <Text style={styles.calibrationButtonText}>Start Calibration</Text>
-              </TouchableOpacity>
+            {!stepCalibration.walking ? (
+              <>
+                <Text style={styles.settingLabel}>{t('settings.stepLength.walkDistance')}</Text>
+                <View style={styles.inputRow}>
+                  <TextInput
+                    style={styles.input}
+                    value={walkDistance}
+                    onChangeText={setWalkDistance}
+                    keyboardType="numeric"
+                    placeholder={DEFAULT_WALK_DISTANCE.toString()}
+                    placeholderTextColor="#6B7280"
+                    accessibilityLabel={t('settings.stepLength.walkDistanceHint')}
+                  />
+                </View>
+                <TouchableOpacity
+                  style={styles.calibrationButton}
+                  onPress={startCalibration}
+                  accessibilityLabel={t('settings.stepLength.startHint')}
+                >
+                  <Footprints size={20} color="#FFFFFF" />
+                  <Text style={styles.calibrationButtonText}>{t('settings.stepLength.start')}</Text>
+                </TouchableOpacity>
+              </>
             ) : (
+              <>
+                <Text style={styles.stepValue} accessibilityLiveRegion="polite">
+                  {t('settings.stepLength.stepsSoFar', { count: stepCalibration.steps })}
+                </Text>
+                <TouchableOpacity
+                  style={[styles.calibrationButton, styles.calibrationActiveButton]}
+                  onPress={completeCalibration}
+                  accessibilityLabel={t('settings.stepLength.completeHint')}
+                >
+                  <Text style={styles.calibrationButtonText}>{t('settings.stepLength.complete')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.clearCalibrationButton}
+                  onPress={cancelCalibration}
+                  accessibilityLabel={t('settings.stepLength.cancelHint')}
+                >
+                  <Text style={styles.clearCalibrationText}>{t('settings.stepLength.cancel')}</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+
+        {/* Camera Calibration */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Camera size={24} color="#3B82F6" />
+            <Text style={styles.sectionTitle}>{t('settings.camera.title')}</Text>
+          </View>
+
+          <View style={styles.settingCard}>
+            <Text style={styles.cardDescription}>{t('settings.camera.description')}</Text>
+            <Text style={styles.cardTitle}>
+              {t(cameraCalibration ? 'settings.camera.calibrated' : 'settings.camera.notCalibrated')}
+            </Text>
+            <Text style={styles.platformDetails}>
+              {t('settings.camera.details', {
+                camera: currentCameraKey,
+                fieldOfView: `${fieldOfViewDegrees(cameraCalibration?.focalLengthRatio ?? DEFAULT_FOCAL_LENGTH_RATIO)}°`,
+              })}
+            </Text>
+            {cameraCalibration && (
+              <Text style={styles.platformDetails}>
+                {t('settings.camera.reference', {
+                  object: REFERENCE_OBJECTS.some(object => object.id === cameraCalibration.referenceObject)
+                    ? t(`calibration.references.${cameraCalibration.referenceObject}`)
+                    : cameraCalibration.referenceObject,
+                  distance: cameraCalibration.distance,
+                  date: new Date(cameraCalibration.calibratedAt).toLocaleDateString(i18n.speechLanguage),
+                })}
+              </Text>
+            )}
+
+            <TouchableOpacity
+              style={[styles.calibrationButton, styles.cameraCalibrationButton]}
+              onPress={() => setShowCameraCalibration(true)}
+              accessibilityLabel={t('settings.camera.calibrateHint')}
+            >
+              <Camera size={20} color="#FFFFFF" />
+              <Text style={styles.calibrationButtonText}>
+                {t(cameraCalibration ? 'settings.camera.recalibrate' : 'settings.camera.calibrate')}
+              </Text>
+            </TouchableOpacity>
+            {cameraCalibration && (
               <TouchableOpacity
-                style={[styles.calibrationButton, styles.calibrationActiveButton]}
-                onPress={completeCalibration}
-                accessibilityLabel="Complete step calibration"
+                style={styles.clearCalibrationButton}
+                onPress={clearCameraCalibration}
+                accessibilityLabel={t('settings.camera.clearHint')}
               >
-                <Text style={styles.calibrationButtonText}>Complete Calibration</Text>
+                <Text style={styles.clearCalibrationText}>{t('settings.camera.clear')}</Text>
               </TouchableOpacity>
             )}
           </View>
+
+          <View style={[styles.settingRow, styles.cameraHeightRow]}>
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>{t('settings.camera.height')}</Text>
+              <Text style={styles.settingDescription}>{t('settings.camera.heightDescription')}</Text>
+            </View>
+            <View style={styles.sliderContainer}>
+              <Text style={styles.sliderValue}>{t('settings.camera.heightValue', { count: settings.cameraHeight })}</Text>
+              <View style={styles.sliderButtons}>
+                <TouchableOpacity
+                  style={styles.sliderButton}
+                  onPress={() => updateCameraHeight(Math.max(50, settings.cameraHeight - 5))}
+                  accessibilityLabel={t('settings.camera.decreaseHeight')}
+                >
+                  <Text style={styles.sliderButtonText}>-</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.sliderButton}
+                  onPress={() => updateCameraHeight(Math.min(200, settings.cameraHeight + 5))}
+                  accessibilityLabel={t('settings.camera.increaseHeight')}
+                >
+                  <Text style={styles.sliderButtonText}>+</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
         </View>
 
+        <FocalLengthCalibration
+          visible={showCameraCalibration}
+          onClose={() => setShowCameraCalibration(false)}
+          onComplete={saveCameraCalibration}
+          announce={announceMessage}
+          lens={cameraLens}
+        />
+
         {/* AI Detection Settings */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <Brain size={24} color="#7C3AED" />
-            <Text style={styles.sectionTitle}>AI Detection</Text>
+            <Text style={styles.sectionTitle}>{t('settings.ai.title')}</Text>
           </View>
           
           <View style={styles.settingCard}>
-            <Text style={styles.cardDescription}>
-              Configure AI-powered object detection and filtering for optimal performance.
-            </Text>
+            <Text style={styles.cardDescription}>{t('settings.ai.description')}</Text>
             
             <View style={styles.settingRow}>
               <View style={styles.settingInfo}>
-                <Text style={styles.settingLabel}>Detection Mode</Text>
-                <Text style={styles.settingDescription}>
-                  Choose between AI, simulation, or hybrid detection
-                </Text>
+                <Text style={styles.settingLabel}>{t('settings.ai.mode')}</Text>
+                <Text style={styles.settingDescription}>{t('settings.ai.modeDescription')}</Text>
               </View>
               <View style={styles.modeSelector}>
                 {(['hybrid', 'ai', 'simulation'] as const).map((mode) => (
@@ -233,19 +647,70 @@ export default function SettingsScreen() {
                       styles.modeButtonText,
                       settings.detectionMode === mode && styles.modeButtonTextActive
                     ]}>
-                      {mode.charAt(0).toUpperCase() + mode.slice(1)}
+                      {t(`settings.ai.modes.${mode}`)}
                     </Text>
                   </TouchableOpacity>
                 ))}
               </View>
             </View>
 
+            {settings.detectionMode !== 'ai' && (
+              <>
+                <View style={styles.settingRow}>
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingLabel}>{t('settings.ai.scenario')}</Text>
+                    <Text style={styles.settingDescription}>
+                      {findScenario(settings.simulationScenario)?.description ?? t('settings.ai.scenarioDescription')}
+                    </Text>
+                  </View>
+                  <View style={styles.modeSelector}>
+                    {[...SCENARIOS.map(scenario => scenario.id), RANDOM_SCENARIO].map((id) => (
+                      <TouchableOpacity
+                        key={id}
+                        style={[
+                          styles.modeButton,
+                          settings.simulationScenario === id && styles.modeButtonActive
+                        ]}
+                        onPress={() => updateSimulationScenario(id)}
+                        accessibilityLabel={t('settings.ai.scenarioHint', { name: scenarioName(id) })}
+                      >
+                        <Text style={[
+                          styles.modeButtonText,
+                          settings.simulationScenario === id && styles.modeButtonTextActive
+                        ]}>
+                          {scenarioName(id)}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+
+                <Text style={styles.settingLabel}>{t('settings.ai.seed')}</Text>
+                <View style={styles.inputRow}>
+                  <TextInput
+                    style={styles.input}
+                    value={tempSeed}
+                    onChangeText={setTempSeed}
+                    keyboardType="number-pad"
+                    placeholderTextColor="#6B7280"
+                    accessibilityLabel={t('settings.ai.seedHint')}
+                  />
+                  <TouchableOpacity
+                    style={styles.saveButton}
+                    onPress={handleSaveSeed}
+                    accessibilityLabel={t('settings.ai.saveSeedHint')}
+                  >
+                    <Save size={20} color="#FFFFFF" />
+                  </TouchableOpacity>
+                </View>
+                <Text style={styles.hint}>{t('settings.ai.seedDescription')}</Text>
+              </>
+            )}
+
             <View style={styles.settingRow}>
               <View style={styles.settingInfo}>
-                <Text style={styles.settingLabel}>Confidence Threshold</Text>
-                <Text style={styles.settingDescription}>
-                  Minimum confidence required for object detection
-                </Text>
+                <Text style={styles.settingLabel}>{t('settings.ai.confidence')}</Text>
+                <Text style={styles.settingDescription}>{t('settings.ai.confidenceDescription')}</Text>
               </View>
               <View style={styles.sliderContainer}>
                 <Text style={styles.sliderValue}>
@@ -255,14 +720,14 @@ export default function SettingsScreen() {
                   <TouchableOpacity
                     style={styles.sliderButton}
                     onPress={() => updateConfidenceThreshold(Math.max(0.1, settings.confidenceThreshold - 0.1))}
-                    accessibilityLabel="Decrease confidence threshold"
+                    accessibilityLabel={t('settings.ai.decreaseConfidence')}
                   >
                     <Text style={styles.sliderButtonText}>-</Text>
                   </TouchableOpacity>
                   <TouchableOpacity
                     style={styles.sliderButton}
                     onPress={() => updateConfidenceThreshold(Math.min(1.0, settings.confidenceThreshold + 0.1))}
-                    accessibilityLabel="Increase confidence threshold"
+                    accessibilityLabel={t('settings.ai.increaseConfidence')}
                   >
                     <Text style={styles.sliderButtonText}>+</Text>
                   </TouchableOpacity>
@@ -272,17 +737,15 @@ export default function SettingsScreen() {
 
             <View style={styles.settingRow}>
               <View style={styles.settingInfo}>
-                <Text style={styles.settingLabel}>Center Focus Only</Text>
-                <Text style={styles.settingDescription}>
-                  Only detect objects in the center field of view
-                </Text>
+                <Text style={styles.settingLabel}>{t('settings.ai.centerFocus')}</Text>
+                <Text style={styles.settingDescription}>{t('settings.ai.centerFocusDescription')}</Text>
               </View>
               <Switch
                 value={settings.centerFocusOnly}
                 onValueChange={(value) => updateSettings({ centerFocusOnly: value })}
                 trackColor={{ false: '#374151', true: '#7C3AED' }}
                 thumbColor={settings.centerFocusOnly ? '#FFFFFF' : '#9CA3AF'}
-                accessibilityLabel="Toggle center focus only"
+                accessibilityLabel={t('settings.ai.centerFocusHint')}
               />
             </View>
           </View>
@@ -292,78 +755,161 @@ export default function SettingsScreen() {
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <Filter size={24} color="#7C3AED" />
-            <Text style={styles.sectionTitle}>Smart Filtering</Text>
+            <Text style={styles.sectionTitle}>{t('settings.filtering.title')}</Text>
           </View>
           
           <View style={styles.settingCard}>
-            <Text style={styles.cardDescription}>
-              Advanced filtering prevents alert spam and focuses on relevant obstacles.
-            </Text>
+            <Text style={styles.cardDescription}>{t('settings.filtering.description')}</Text>
             
             <View style={styles.filterStats}>
               <View style={styles.statItem}>
                 <Target size={20} color="#3B82F6" />
                 <View style={styles.statContent}>
-                  <Text style={styles.statLabel}>Proximity Filtering</Text>
-                  <Text style={styles.statDescription}>Prioritizes closer objects</Text>
+                  <Text style={styles.statLabel}>{t('settings.filtering.proximity')}</Text>
+                  <Text style={styles.statDescription}>{t('settings.filtering.proximityDescription')}</Text>
                 </View>
               </View>
               
               <View style={styles.statItem}>
                 <Clock size={20} color="#059669" />
                 <View style={styles.statContent}>
-                  <Text style={styles.statLabel}>Temporal Filtering</Text>
-                  <Text style={styles.statDescription}>Prevents repeated alerts</Text>
+                  <Text style={styles.statLabel}>{t('settings.filtering.temporal')}</Text>
+                  <Text style={styles.statDescription}>{t('settings.filtering.temporalDescription')}</Text>
                 </View>
               </View>
             </View>
+
+            <Text style={styles.platformDetails}>
+              {t('settings.filtering.rulesSummary', {
+                preset: RULE_PRESETS.some(preset => preset.id === settings.alertRulePreset)
+                  ? t(`rules.presets.${settings.alertRulePreset}.name`)
+                  : t('rules.custom'),
+                count: settings.alertRules.length,
+              })}
+            </Text>
+            <TouchableOpacity
+              style={[styles.calibrationButton, styles.cameraCalibrationButton]}
+              onPress={() => setShowRulesEditor(true)}
+              accessibilityLabel={t('settings.filtering.rulesHint')}
+            >
+              <Filter size={20} color="#FFFFFF" />
+              <Text style={styles.calibrationButtonText}>{t('settings.filtering.rules')}</Text>
+            </TouchableOpacity>
           </View>
         </View>
 
+        <AlertRulesEditor
+          visible={showRulesEditor}
+          rules={settings.alertRules}
+          presetId={settings.alertRulePreset}
+          onChange={(alertRules, alertRulePreset) => updateSettings({ alertRules, alertRulePreset })}
+          onClose={() => setShowRulesEditor(false)}
+          testRules={(sample, rules) => detectionService.testAlertRules(sample, rules)}
+          announce={announceMessage}
+        />
+
+        {/* Object Types */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Tags size={24} color="#059669" />
+            <Text style={styles.sectionTitle}>{t('settings.objectTypes.title')}</Text>
+          </View>
+
+          <View style={styles.settingCard}>
+            <Text style={styles.cardDescription}>{t('settings.objectTypes.description')}</Text>
+            <Text style={styles.platformDetails}>
+              {t('settings.objectTypes.counts', {
+                critical: countTaxonomy(entry => !entry.ignore && entry.category === 'critical'),
+                warning: countTaxonomy(entry => !entry.ignore && entry.category === 'warning'),
+                info: countTaxonomy(entry => !entry.ignore && entry.category === 'info'),
+                ignored: countTaxonomy(entry => entry.ignore),
+              })}
+            </Text>
+            <TouchableOpacity
+              style={[styles.calibrationButton, styles.cameraCalibrationButton]}
+              onPress={() => setShowTaxonomyEditor(true)}
+              accessibilityLabel={t('settings.objectTypes.editHint')}
+            >
+              <Tags size={20} color="#FFFFFF" />
+              <Text style={styles.calibrationButtonText}>{t('settings.objectTypes.edit')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <ObjectTaxonomyEditor
+          visible={showTaxonomyEditor}
+          taxonomy={settings.objectTaxonomy}
+          onChange={(objectTaxonomy) => updateSettings({ objectTaxonomy })}
+          onClose={() => setShowTaxonomyEditor(false)}
+          announce={announceMessage}
+        />
+
         {/* Audio Settings */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <Volume2 size={24} color="#7C3AED" />
-            <Text style={styles.sectionTitle}>Audio Feedback</Text>
+            <Text style={styles.sectionTitle}>{t('settings.audio.title')}</Text>
           </View>
           
           <View style={styles.settingRow}>
             <View style={styles.settingInfo}>
-              <Text style={styles.settingLabel}>Enable Audio Announcements</Text>
-              <Text style={styles.settingDescription}>
-                Speak obstacle information aloud
-              </Text>
+              <Text style={styles.settingLabel}>{t('settings.audio.enable')}</Text>
+              <Text style={styles.settingDescription}>{t('settings.audio.enableDescription')}</Text>
             </View>
             <Switch
               value={settings.audioEnabled}
               onValueChange={toggleAudio}
               trackColor={{ false: '#374151', true: '#7C3AED' }}
               thumbColor={settings.audioEnabled ? '#FFFFFF' : '#9CA3AF'}
-              accessibilityLabel="Toggle audio announcements"
+              accessibilityLabel={t('settings.audio.enableHint')}
             />
           </View>
 
           <View style={styles.settingRow}>
             <View style={styles.settingInfo}>
-              <Text style={styles.settingLabel}>Alert Cooldown Period</Text>
-              <Text style={styles.settingDescription}>
-                Time between alerts for same object type
-              </Text>
+              <Text style={styles.settingLabel}>{t('settings.audio.feedbackMode')}</Text>
+              <Text style={styles.settingDescription}>{t('settings.audio.feedbackModeDescription')}</Text>
+            </View>
+            <View style={styles.modeSelector}>
+              {(['speech', 'sonar', 'speechAndSonar'] as const).map((mode) => (
+                <TouchableOpacity
+                  key={mode}
+                  style={[
+                    styles.modeButton,
+                    settings.feedbackMode === mode && styles.modeButtonActive
+                  ]}
+                  onPress={() => updateFeedbackMode(mode)}
+                >
+                  <Text style={[
+                    styles.modeButtonText,
+                    settings.feedbackMode === mode && styles.modeButtonTextActive
+                  ]}>
+                    {t(`settings.audio.feedbackModes.${mode}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>{t('settings.audio.cooldown')}</Text>
+              <Text style={styles.settingDescription}>{t('settings.audio.cooldownDescription')}</Text>
             </View>
             <View style={styles.sliderContainer}>
-              <Text style={styles.sliderValue}>{settings.announcementDelay}s</Text>
+              <Text style={styles.sliderValue}>{t('settings.audio.cooldownValue', { count: settings.announcementDelay })}</Text>
               <View style={styles.sliderButtons}>
                 <TouchableOpacity
                   style={styles.sliderButton}
                   onPress={() => updateAnnouncementDelay(Math.max(1, settings.announcementDelay - 0.5))}
-                  accessibilityLabel="Decrease cooldown"
+                  accessibilityLabel={t('settings.audio.decreaseCooldown')}
                 >
                   <Text style={styles.sliderButtonText}>-</Text>
                 </TouchableOpacity>
                 <TouchableOpacity
                   style={styles.sliderButton}
                   onPress={() => updateAnnouncementDelay(Math.min(10, settings.announcementDelay + 0.5))}
-                  accessibilityLabel="Increase cooldown"
+                  accessibilityLabel={t('settings.audio.increaseCooldown')}
                 >
                   <Text style={styles.sliderButtonText}>+</Text>
                 </TouchableOpacity>
@@ -373,58 +919,250 @@ export default function SettingsScreen() {
 
           <View style={styles.settingRow}>
             <View style={styles.settingInfo}>
-              <Text style={styles.settingLabel}>Spatial Audio</Text>
+              <Text style={styles.settingLabel}>{t('settings.audio.rate')}</Text>
+              <Text style={styles.settingDescription}>{t('settings.audio.rateDescription')}</Text>
+            </View>
+            <View style={styles.sliderContainer}>
+              <Text style={styles.sliderValue}>{t('settings.audio.rateValue', { count: Math.round(settings.speechRate * 100) })}</Text>
+              <View style={styles.sliderButtons}>
+                <TouchableOpacity
+                  style={styles.sliderButton}
+                  onPress={() => updateSpeechRate(Math.max(0.5, Math.round((settings.speechRate - 0.05) * 100) / 100))}
+                  accessibilityLabel={t('settings.audio.decreaseRate')}
+                >
+                  <Text style={styles.sliderButtonText}>-</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.sliderButton}
+                  onPress={() => updateSpeechRate(Math.min(1.5, Math.round((settings.speechRate + 0.05) * 100) / 100))}
+                  accessibilityLabel={t('settings.audio.increaseRate')}
+                >
+                  <Text style={styles.sliderButtonText}>+</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>{t('settings.audio.pitch')}</Text>
+              <Text style={styles.settingDescription}>{t('settings.audio.pitchDescription')}</Text>
+            </View>
+            <View style={styles.sliderContainer}>
+              <Text style={styles.sliderValue}>{t('settings.audio.pitchValue', { count: Math.round(settings.speechPitch * 100) })}</Text>
+              <View style={styles.sliderButtons}>
+                <TouchableOpacity
+                  style={styles.sliderButton}
+                  onPress={() => updateSpeechPitch(Math.max(0.5, Math.round((settings.speechPitch - 0.1) * 10) / 10))}
+                  accessibilityLabel={t('settings.audio.decreasePitch')}
+                >
+                  <Text style={styles.sliderButtonText}>-</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.sliderButton}
+                  onPress={() => updateSpeechPitch(Math.min(2.0, Math.round((settings.speechPitch + 0.1) * 10) / 10))}
+                  accessibilityLabel={t('settings.audio.increasePitch')}
+                >
+                  <Text style={styles.sliderButtonText}>+</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>{t('settings.audio.voice')}</Text>
               <Text style={styles.settingDescription}>
-                Directional audio cues (experimental)
+                {t(voices.length > 0 ? 'settings.audio.voiceDescription' : 'settings.audio.noVoices')}
               </Text>
             </View>
+            <View style={styles.modeSelector}>
+              <TouchableOpacity
+                style={[styles.modeButton, !settings.speechVoice && styles.modeButtonActive]}
+                onPress={() => updateSpeechVoice(null)}
+                accessibilityLabel={t('settings.audio.defaultVoiceHint')}
+              >
+                <Text style={[styles.modeButtonText, !settings.speechVoice && styles.modeButtonTextActive]}>
+                  {t('settings.audio.defaultVoice')}
+                </Text>
+              </TouchableOpacity>
+              {voices.map((voice) => (
+                <TouchableOpacity
+                  key={voice.identifier}
+                  style={[
+                    styles.modeButton,
+                    settings.speechVoice === voice.identifier && styles.modeButtonActive
+                  ]}
+                  onPress={() => updateSpeechVoice(voice)}
+                  accessibilityLabel={t('settings.audio.voiceHint', { name: voice.name })}
+                >
+                  <Text style={[
+                    styles.modeButtonText,
+                    settings.speechVoice === voice.identifier && styles.modeButtonTextActive
+                  ]}>
+                    {voice.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>{t('settings.audio.directionFormat')}</Text>
+              <Text style={styles.settingDescription}>{t('settings.audio.directionFormatDescription')}</Text>
+            </View>
+            <View style={styles.modeSelector}>
+              {DIRECTION_FORMATS.map((format) => (
+                <TouchableOpacity
+                  key={format.id}
+                  style={[
+                    styles.modeButton,
+                    settings.directionFormat === format.id && styles.modeButtonActive
+                  ]}
+                  onPress={() => updateDirectionFormat(format.id)}
+                  accessibilityLabel={t('settings.audio.directionFormatHint', {
+                    name: t(`directions.formats.${format.id}`),
+                    example: directionExample(format.id),
+                  })}
+                >
+                  <Text style={[
+                    styles.modeButtonText,
+                    settings.directionFormat === format.id && styles.modeButtonTextActive
+                  ]}>
+                    {t(`directions.formats.${format.id}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>{t('settings.audio.spatial')}</Text>
+              <Text style={styles.settingDescription}>{t('settings.audio.spatialDescription')}</Text>
+            </View>
             <Switch
               value={settings.spatialAudio}
-              onValueChange={(value) => updateSettings({ spatialAudio: value })}
+              onValueChange={toggleSpatialAudio}
               trackColor={{ false: '#374151', true: '#7C3AED' }}
               thumbColor={settings.spatialAudio ? '#FFFFFF' : '#9CA3AF'}
-              accessibilityLabel="Toggle spatial audio"
+              accessibilityLabel={t('settings.audio.spatialHint')}
             />
           </View>
+
+          {settings.spatialAudio && (
+            <View style={styles.modeSelector}>
+              {(['beforeSpeech', 'insteadOfSpeech'] as const).map((mode) => (
+                <TouchableOpacity
+                  key={mode}
+                  style={[
+                    styles.modeButton,
+                    settings.spatialAudioMode === mode && styles.modeButtonActive
+                  ]}
+                  onPress={() => updateSettings({ spatialAudioMode: mode })}
+                  accessibilityLabel={t('settings.audio.spatialModeHint', {
+                    mode: t(`settings.audio.spatialModes.${mode}`),
+                  })}
+                >
+                  <Text style={[
+                    styles.modeButtonText,
+                    settings.spatialAudioMode === mode && styles.modeButtonTextActive
+                  ]}>
+                    {t(`settings.audio.spatialModes.${mode}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+
+        {/* Language */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Languages size={24} color="#059669" />
+            <Text style={styles.sectionTitle}>{t('settings.language.title')}</Text>
+          </View>
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>{t('settings.language.label')}</Text>
+              <Text style={styles.settingDescription}>{t('settings.language.description')}</Text>
+            </View>
+            <View style={styles.modeSelector}>
+              {(['system', ...LANGUAGE_IDS] as LanguageSetting[]).map((language) => (
+                <TouchableOpacity
+                  key={language}
+                  style={[
+                    styles.modeButton,
+                    settings.language === language && styles.modeButtonActive
+                  ]}
+                  onPress={() => updateLanguage(language)}
+                  accessibilityLabel={language === 'system' ? t('settings.language.systemHint') : languageName(language)}
+                  accessibilityLanguage={language === 'system' ? undefined : LANGUAGES[language].speechLanguage}
+                >
+                  <Text style={[
+                    styles.modeButtonText,
+                    settings.language === language && styles.modeButtonTextActive
+                  ]}>
+                    {languageName(language)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
         </View>
 
         {/* Haptic Settings */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <Zap size={24} color="#EA580C" />
-            <Text style={styles.sectionTitle}>Haptic Feedback</Text>
+            <Text style={styles.sectionTitle}>{t('settings.haptic.title')}</Text>
           </View>
           
           <View style={styles.settingRow}>
             <View style={styles.settingInfo}>
-              <Text style={styles.settingLabel}>Enable Vibration Alerts</Text>
-              <Text style={styles.settingDescription}>
-                Vibrate when obstacles are very close (1-2 steps)
-              </Text>
+              <Text style={styles.settingLabel}>{t('settings.haptic.enable')}</Text>
+              <Text style={styles.settingDescription}>{t('settings.haptic.description')}</Text>
             </View>
             <Switch
               value={settings.hapticEnabled}
               onValueChange={toggleHaptic}
               trackColor={{ false: '#374151', true: '#EA580C' }}
               thumbColor={settings.hapticEnabled ? '#FFFFFF' : '#9CA3AF'}
-              accessibilityLabel="Toggle haptic feedback"
+              accessibilityLabel={t('settings.haptic.hint')}
             />
           </View>
+
+          <TouchableOpacity
+            style={[styles.calibrationButton, styles.cameraCalibrationButton]}
+            onPress={() => setShowHapticDesigner(true)}
+            accessibilityLabel={t('settings.haptic.designHint')}
+          >
+            <Vibrate size={20} color="#FFFFFF" />
+            <Text style={styles.calibrationButtonText}>{t('settings.haptic.design')}</Text>
+          </TouchableOpacity>
         </View>
 
+        <HapticPatternDesigner
+          visible={showHapticDesigner}
+          patterns={settings.hapticPatterns}
+          onChange={(hapticPatterns) => updateSettings({ hapticPatterns })}
+          onClose={() => setShowHapticDesigner(false)}
+          announce={announceMessage}
+        />
+
         {/* Detection Settings */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <Eye size={24} color="#3B82F6" />
-            <Text style={styles.sectionTitle}>Detection Settings</Text>
+            <Text style={styles.sectionTitle}>{t('settings.detection.title')}</Text>
           </View>
           
           <View style={styles.settingRow}>
             <View style={styles.settingInfo}>
-              <Text style={styles.settingLabel}>Detection Sensitivity</Text>
-              <Text style={styles.settingDescription}>
-                Higher values detect more objects but may increase false positives
-              </Text>
+              <Text style={styles.settingLabel}>{t('settings.detection.sensitivity')}</Text>
+              <Text style={styles.settingDescription}>{t('settings.detection.sensitivityDescription')}</Text>
             </View>
             <View style={styles.sliderContainer}>
               <Text style={styles.sliderValue}>
@@ -434,14 +1172,14 @@ export default function SettingsScreen() {
                 <TouchableOpacity
                   style={styles.sliderButton}
                   onPress={() => updateSensitivity(Math.max(0.1, settings.sensitivity - 0.1))}
-                  accessibilityLabel="Decrease sensitivity"
+                  accessibilityLabel={t('settings.detection.decreaseSensitivity')}
                 >
                   <Text style={styles.sliderButtonText}>-</Text>
                 </TouchableOpacity>
                 <TouchableOpacity
                   style={styles.sliderButton}
                   onPress={() => updateSensitivity(Math.min(1.0, settings.sensitivity + 0.1))}
-                  accessibilityLabel="Increase sensitivity"
+                  accessibilityLabel={t('settings.detection.increaseSensitivity')}
                 >
                   <Text style={styles.sliderButtonText}>+</Text>
                 </TouchableOpacity>
@@ -458,17 +1196,42 @@ export default function SettingsScreen() {
             ) : (
               <Smartphone size={24} color="#6B7280" />
             )}
-            <Text style={styles.sectionTitle}>Platform Information</Text>
+            <Text style={styles.sectionTitle}>{t('settings.platform.title')}</Text>
           </View>
           
           <View style={styles.settingCard}>
             <Text style={styles.cardDescription}>
-              Running on {Platform.OS === 'web' ? 'Web Browser' : 'Mobile Device'}
+              {t('settings.platform.runningOn', {
+                platform: t(Platform.OS === 'web' ? 'settings.platform.web' : 'settings.platform.mobile'),
+              })}
+            </Text>
+            <Text style={styles.platformDetails}>
+              {t('settings.platform.details', {
+                os: Platform.OS,
+                version: Platform.Version,
+                support: t(Platform.OS === 'web' ? 'settings.platform.supportLimited' : 'settings.platform.supportFull'),
+              })}
+            </Text>
+            <Text style={styles.platformDetails}>
+              {t('settings.platform.model', { model: describeModel() })}
+            </Text>
+            {serviceStatus.server && (
+              <Text style={styles.platformDetails}>
+                {t('settings.platform.server', {
+                  labels: serviceStatus.server.labels.length || t('settings.platform.unknown'),
+                  width: serviceStatus.server.inputSize.width,
+                  height: serviceStatus.server.inputSize.height,
+                  fps: serviceStatus.server.maxFps ?? t('settings.platform.unlimited'),
+                })}
+              </Text>
+            )}
+            <Text style={styles.platformDetails}>
+              {t('settings.platform.onDeviceModel', { status: describeOnDeviceModel() })}
             </Text>
             <Text style={styles.platformDetails}>
-              Platform: {Platform.OS} | 
-              Version: {Platform.Version} | 
-              AI Support: {Platform.OS === 'web' ? 'Limited' : 'Full'}
+              {t('settings.platform.lastDetector', {
+                source: serviceStatus.lastSource ?? t('settings.platform.noneYet'),
+              })}
             </Text>
           </View>
         </View>
@@ -479,7 +1242,7 @@ export default function SettingsScreen() {
           onPress={() => setShowAdvanced(!showAdvanced)}
         >
           <Text style={styles.advancedToggleText}>
-            {showAdvanced ? 'Hide' : 'Show'} Advanced Settings
+            {t(showAdvanced ? 'settings.advanced.hide' : 'settings.advanced.show')}
           </Text>
         </TouchableOpacity>
 
@@ -487,39 +1250,93 @@ export default function SettingsScreen() {
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
               <SettingsIcon size={24} color="#6B7280" />
-              <Text style={styles.sectionTitle}>Advanced</Text>
+              <Text style={styles.sectionTitle}>{t('settings.advanced.title')}</Text>
             </View>
             
             <View style={styles.controlRow}>
               <TouchableOpacity
                 style={styles.advancedButton}
                 onPress={handleExportSettings}
-                accessibilityLabel="Export settings"
+                accessibilityLabel={t('settings.advanced.exportHint')}
               >
                 <Download size={20} color="#FFFFFF" />
-                <Text style={styles.advancedButtonText}>Export</Text>
+                <Text style={styles.advancedButtonText}>{t('settings.advanced.export')}</Text>
               </TouchableOpacity>
 
               <TouchableOpacity
                 style={styles.advancedButton}
-                onPress={() => Alert.alert('Import Settings', 'Import functionality would be implemented here')}
-                accessibilityLabel="Import settings"
+                onPress={() => Alert.alert(t('settings.advanced.importTitle'), t('settings.advanced.importMessage'))}
+                accessibilityLabel={t('settings.advanced.importHint')}
               >
                 <Upload size={20} color="#FFFFFF" />
-                <Text style={styles.advancedButtonText}>Import</Text>
+                <Text style={styles.advancedButtonText}>{t('settings.advanced.import')}</Text>
               </TouchableOpacity>
             </View>
+
+            <View style={[styles.settingCard, styles.recordingCard]}>
+              <View style={styles.settingRow}>
+                <View style={styles.settingInfo}>
+                  <Text style={styles.settingLabel}>{t('settings.recording.record')}</Text>
+                  <Text style={styles.settingDescription}>
+                    {t(isRecordingSupported ? 'settings.recording.description' : 'settings.recording.unsupported')}
+                  </Text>
+                </View>
+                <Switch
+                  value={settings.recordSessions}
+                  onValueChange={toggleRecordSessions}
+                  disabled={!isRecordingSupported}
+                  trackColor={{ false: '#374151', true: '#7C3AED' }}
+                  thumbColor={settings.recordSessions ? '#FFFFFF' : '#9CA3AF'}
+                  accessibilityLabel={t('settings.recording.recordHint')}
+                />
+              </View>
+
+              <Text style={styles.cardTitle}>{t('settings.recording.sessions')}</Text>
+              {sessions.length === 0 && (
+                <Text style={styles.cardDescription}>{t('settings.recording.none')}</Text>
+              )}
+              {sessions.map(session => (
+                <View key={session.id} style={styles.sessionRow}>
+                  <Text style={styles.sessionText}>{describeSession(session)}</Text>
+                  <View style={styles.controlRow}>
+                    <TouchableOpacity
+                      style={styles.advancedButton}
+                      onPress={() => replayRecordedSession(session)}
+                      accessibilityLabel={t('settings.recording.replayHint', { session: describeSession(session) })}
+                    >
+                      <PlayCircle size={20} color="#FFFFFF" />
+                      <Text style={styles.advancedButtonText}>{t('settings.recording.replay')}</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.advancedButton}
+                      onPress={() => deleteRecordedSession(session)}
+                      accessibilityLabel={t('settings.recording.deleteHint', { session: describeSession(session) })}
+                    >
+                      <Trash2 size={20} color="#FFFFFF" />
+                      <Text style={styles.advancedButtonText}>{t('settings.recording.delete')}</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+            </View>
           </View>
         )}
 
+        <SessionReplayViewer
+          visible={replay !== null}
+          startedAt={replay?.startedAt ?? 0}
+          result={replay?.result ?? null}
+          onClose={() => setReplay(null)}
+        />
+
         {/* Reset Button */}
         <TouchableOpacity
           style={styles.resetButton}
           onPress={handleResetToDefaults}
-          accessibilityLabel="Reset all settings to defaults"
+          accessibilityLabel={t('settings.reset.hint')}
         >
           <RotateCcw size={20} color="#EF4444" />
-          <Text style={styles.resetButtonText}>Reset to Defaults</Text>
+          <Text style={styles.resetButtonText}>{t('settings.reset.button')}</Text>
         </TouchableOpacity>
       </ScrollView>
     </SafeAreaView>
@@ -639,6 +1456,23 @@ const styles = StyleSheet.create({
   calibrationActiveButton: {
     backgroundColor: '#EA580C',
   },
+  cameraCalibrationButton: {
+    backgroundColor: '#3B82F6',
+    marginTop: 16,
+  },
+  cameraHeightRow: {
+    marginTop: 12,
+  },
+  clearCalibrationButton: {
+    padding: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  clearCalibrationText: {
+    color: '#EF4444',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   calibrationButtonText: {
     color: '#FFFFFF',
     fontSize: 16,
@@ -779,6 +1613,20 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     flex: 1,
   },
+  recordingCard: {
+    marginTop: 16,
+  },
+  sessionRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#374151',
+    paddingTop: 12,
+    marginTop: 12,
+  },
+  sessionText: {
+    color: '#D1D5DB',
+    fontSize: 14,
+    marginBottom: 8,
+  },
   advancedButtonText: {
     color: '#FFFFFF',
     fontSize: 14,
@@ -6,88 +6,51 @@ import {
   ScrollView,
   TouchableOpacity,
   Dimensions,
+  I18nManager,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import * as Speech from 'expo-speech';
 import { BookOpen, Play, Camera, Volume2, Zap, Settings, CircleCheck as CheckCircle, ArrowRight, ArrowLeft, Chrome as Home } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useSpeech } from '@/hooks/useSpeech';
 
 const { width } = Dimensions.get('window');
 
+// Text for each step is in the `tutorial.steps` catalog section
 const tutorialSteps = [
-  {
-    id: 1,
-    title: 'Welcome to StepSight',
-    icon: BookOpen,
-    description: 'StepSight helps visually impaired users navigate by detecting obstacles and announcing their distance in walking steps.',
-    details: [
-      'Point your phone camera forward while walking',
-      'Listen for audio announcements about obstacles',
-      'Feel vibrations when objects are very close',
-      'Customize settings for your personal needs'
-    ]
-  },
-  {
-    id: 2,
-    title: 'Camera Navigation',
-    icon: Camera,
-    description: 'The main screen uses your camera to scan for obstacles in real-time.',
-    details: [
-      'Tap START to begin obstacle detection',
-      'Hold your phone at chest level, pointing forward',
-      'The camera will automatically scan your path',
-      'Green indicators show detected obstacles',
-      'Distance is announced in walking steps'
-    ]
-  },
-  {
-    id: 3,
-    title: 'Audio Announcements',
-    icon: Volume2,
-    description: 'StepSight speaks obstacle information to help you navigate safely.',
-    details: [
-      'Obstacles are announced as "Object ahead in X steps"',
-      'Closer objects are announced more frequently',
-      'You can disable audio in settings if needed',
-      'Use headphones or external speakers for better audio'
-    ]
-  },
-  {
-    id: 4,
-    title: 'Haptic Feedback',
-    icon: Zap,
-    description: 'Your phone vibrates when obstacles are dangerously close.',
-    details: [
-      'Vibration occurs when objects are 1-2 steps away',
-      'Different patterns indicate obstacle proximity',
-      'Can be disabled in settings if not needed',
-      'Works alongside audio announcements'
-    ]
-  },
-  {
-    id: 5,
-    title: 'Settings & Calibration',
-    icon: Settings,
-    description: 'Customize StepSight for your walking style and preferences.',
-    details: [
-      'Calibrate your step length for accurate distance',
-      'Walk 10 normal steps during calibration',
-      'Adjust audio and haptic feedback settings',
-      'Fine-tune detection sensitivity if needed'
-    ]
-  }
+  { id: 1, key: 'welcome', icon: BookOpen },
+  { id: 2, key: 'camera', icon: Camera },
+  { id: 3, key: 'audio', icon: Volume2 },
+  { id: 4, key: 'haptic', icon: Zap },
+  { id: 5, key: 'settings', icon: Settings },
 ];
 
 export default function TutorialScreen() {
   const [currentStep, setCurrentStep] = useState(0);
   const [audioEnabled, setAudioEnabled] = useState(true);
+  const { t, list, speechLanguage } = useTranslation();
+  const speech = useSpeech();
+
+  // Arrows point the way the layout flows
+  const PreviousArrow = I18nManager.isRTL ? ArrowRight : ArrowLeft;
+  const NextArrow = I18nManager.isRTL ? ArrowLeft : ArrowRight;
+
+  const stepText = (index: number) => {
+    const prefix = `tutorial.steps.${tutorialSteps[index].key}`;
+    return {
+      title: t(`${prefix}.title`),
+      description: t(`${prefix}.description`),
+      details: list(`${prefix}.details`),
+    };
+  };
+
+  const announceStep = (index: number) => {
+    speakText(t('tutorial.stepAnnouncement', { step: index + 1, title: stepText(index).title }));
+  };
 
   const speakText = (text: string) => {
     if (audioEnabled) {
-      Speech.speak(text, {
-        language: 'en',
-        pitch: 1.0,
-        rate: 0.8,
-      });
+      // Paging on replaces the previous step rather than queueing behind it
+      speech.speak(text, { priority: 'high', language: speechLanguage, interrupt: true });
     }
   };
 
@@ -95,7 +58,7 @@ export default function TutorialScreen() {
     if (currentStep < tutorialSteps.length - 1) {
       const newStep = currentStep + 1;
       setCurrentStep(newStep);
-      speakText(`Step ${newStep + 1}: ${tutorialSteps[newStep].title}`);
+      announceStep(newStep);
     }
   };
 
@@ -103,23 +66,23 @@ export default function TutorialScreen() {
     if (currentStep > 0) {
       const newStep = currentStep - 1;
       setCurrentStep(newStep);
-      speakText(`Step ${newStep + 1}: ${tutorialSteps[newStep].title}`);
+      announceStep(newStep);
     }
   };
 
   const toggleAudio = () => {
     setAudioEnabled(!audioEnabled);
-    speakText(!audioEnabled ? 'Tutorial audio enabled' : 'Tutorial audio disabled');
+    speakText(t(!audioEnabled ? 'tutorial.audioOn' : 'tutorial.audioOff'));
   };
 
   const speakCurrentStep = () => {
-    const step = tutorialSteps[currentStep];
+    const step = stepText(currentStep);
     const fullText = `${step.title}. ${step.description}. ${step.details.join('. ')}`;
     speakText(fullText);
   };
 
-  const current = tutorialSteps[currentStep];
-  const IconComponent = current.icon;
+  const current = stepText(currentStep);
+  const IconComponent = tutorialSteps[currentStep].icon;
 
   return (
     <SafeAreaView style={styles.container}>
@@ -127,8 +90,8 @@ export default function TutorialScreen() {
         {/* Header */}
         <View style={styles.header}>
           <BookOpen size={32} color="#3B82F6" />
-          <Text style={styles.title}>StepSight Tutorial</Text>
-          <Text style={styles.subtitle}>Learn how to use StepSight effectively</Text>
+          <Text style={styles.title}>{t('tutorial.title')}</Text>
+          <Text style={styles.subtitle}>{t('tutorial.subtitle')}</Text>
         </View>
 
         {/* Progress Indicator */}
@@ -142,7 +105,7 @@ export default function TutorialScreen() {
             />
           </View>
           <Text style={styles.progressText}>
-            {currentStep + 1} of {tutorialSteps.length}
+            {t('tutorial.progress', { current: currentStep + 1, total: tutorialSteps.length })}
           </Text>
         </View>
 
@@ -171,10 +134,10 @@ export default function TutorialScreen() {
         <TouchableOpacity
           style={styles.audioButton}
           onPress={speakCurrentStep}
-          accessibilityLabel="Read current step aloud"
+          accessibilityLabel={t('tutorial.readAloudHint')}
         >
           <Play size={20} color="#FFFFFF" />
-          <Text style={styles.audioButtonText}>Read This Step Aloud</Text>
+          <Text style={styles.audioButtonText}>{t('tutorial.readAloud')}</Text>
         </TouchableOpacity>
 
         {/* Navigation Controls */}
@@ -183,18 +146,18 @@ export default function TutorialScreen() {
             style={[styles.navButton, currentStep === 0 && styles.navButtonDisabled]}
             onPress={prevStep}
             disabled={currentStep === 0}
-            accessibilityLabel="Previous step"
+            accessibilityLabel={t('tutorial.previousHint')}
           >
-            <ArrowLeft size={20} color={currentStep === 0 ? '#6B7280' : '#FFFFFF'} />
+            <PreviousArrow size={20} color={currentStep === 0 ? '#6B7280' : '#FFFFFF'} />
             <Text style={[styles.navButtonText, currentStep === 0 && styles.navButtonTextDisabled]}>
-              Previous
+              {t('tutorial.previous')}
             </Text>
           </TouchableOpacity>
 
           <TouchableOpacity
             style={styles.audioToggle}
             onPress={toggleAudio}
-            accessibilityLabel={audioEnabled ? 'Disable tutorial audio' : 'Enable tutorial audio'}
+            accessibilityLabel={t(audioEnabled ? 'tutorial.disableAudio' : 'tutorial.enableAudio')}
           >
             <Volume2 
               size={20} 
@@ -206,26 +169,25 @@ export default function TutorialScreen() {
             style={[styles.navButton, currentStep === tutorialSteps.length - 1 && styles.navButtonComplete]}
             onPress={nextStep}
             disabled={currentStep === tutorialSteps.length - 1}
-            accessibilityLabel={currentStep === tutorialSteps.length - 1 ? 'Tutorial complete' : 'Next step'}
+            accessibilityLabel={t(currentStep === tutorialSteps.length - 1 ? 'tutorial.completeHint' : 'tutorial.nextHint')}
           >
             <Text style={styles.navButtonText}>
-              {currentStep === tutorialSteps.length - 1 ? 'Complete' : 'Next'}
+              {t(currentStep === tutorialSteps.length - 1 ? 'tutorial.complete' : 'tutorial.next')}
             </Text>
             {currentStep === tutorialSteps.length - 1 ? (
               <Home size={20} color="#FFFFFF" />
             ) : (
-              <ArrowRight size={20} color="#FFFFFF" />
+              <NextArrow size={20} color="#FFFFFF" />
             )}
           </TouchableOpacity>
         </View>
 
         {/* Quick Tips */}
         <View style={styles.tipsContainer}>
-          <Text style={styles.tipsTitle}>Quick Tips</Text>
-          <Text style={styles.tipText}>• Use headphones for better audio clarity</Text>
-          <Text style={styles.tipText}>• Keep your phone steady while scanning</Text>
-          <Text style={styles.tipText}>• Calibrate step length for best results</Text>
-          <Text style={styles.tipText}>• Practice in familiar spaces first</Text>
+          <Text style={styles.tipsTitle}>{t('tutorial.tipsTitle')}</Text>
+          {list('tutorial.tips').map((tip) => (
+            <Text key={tip} style={styles.tipText}>• {tip}</Text>
+          ))}
         </View>
       </ScrollView>
     </SafeAreaView>
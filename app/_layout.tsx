@@ -2,9 +2,17 @@ import { useEffect } from 'react';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
+import { useTranslation } from '@/hooks/useTranslation';
+import { applyLayoutDirection } from '@/services/i18n';
 
 export default function RootLayout() {
   useFrameworkReady();
+  const { isRTL } = useTranslation();
+
+  // Takes effect on the next launch on native; Settings tells the user
+  useEffect(() => {
+    applyLayoutDirection(isRTL);
+  }, [isRTL]);
 
   return (
     <>
@@ -0,0 +1,6 @@
+// Metro bundles .bin files as assets (see metro.config.js); importing one
+// gives its asset module id
+declare module '*.bin' {
+  const asset: number;
+  export default asset;
+}
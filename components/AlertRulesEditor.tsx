@@ -0,0 +1,430 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+} from "react-native";
+import {
+  AlertRule,
+  RULE_PRESETS,
+  RuleEvaluation,
+  exportRules,
+  importRules,
+} from "@/services/AlertRules";
+import { RuleTestSample } from "@/services/APIDetectionService";
+import { useTranslation } from "@/hooks/useTranslation";
+
+interface AlertRulesEditorProps {
+  visible: boolean;
+  rules: AlertRule[];
+  presetId: string;
+  onChange: (rules: AlertRule[], presetId: string) => void;
+  onClose: () => void;
+  testRules: (sample: RuleTestSample, rules: AlertRule[]) => RuleEvaluation;
+  announce?: (message: string) => void;
+}
+
+const POSITIONS = [
+  { id: "left", x: 0.2 },
+  { id: "center", x: 0.5 },
+  { id: "right", x: 0.8 },
+];
+
+export function AlertRulesEditor({
+  visible,
+  rules,
+  presetId,
+  onChange,
+  onClose,
+  testRules,
+  announce,
+}: AlertRulesEditorProps) {
+  const [json, setJson] = useState(() => exportRules(rules));
+  const [showJson, setShowJson] = useState(false);
+  const { t } = useTranslation();
+  const [sample, setSample] = useState<RuleTestSample>({
+    label: "person",
+    steps: 3,
+    confidence: 0.8,
+    x: 0.5,
+    isMoving: false,
+    velocity: 0,
+    timeToCollision: undefined,
+    onCollisionCourse: false,
+  });
+
+  // Keep the JSON view in step with rules changed elsewhere (presets, toggles)
+  useEffect(() => {
+    setJson(exportRules(rules));
+  }, [rules]);
+
+  const result = testRules(sample, rules);
+
+  const selectPreset = (id: string) => {
+    const preset = RULE_PRESETS.find((candidate) => candidate.id === id);
+    if (!preset) return;
+    onChange(preset.rules, preset.id);
+    announce?.(t("rules.presetSelected", { name: t(`rules.presets.${preset.id}.name`) }));
+  };
+
+  const toggleRule = (id: string) => {
+    onChange(
+      rules.map((rule) =>
+        rule.id === id ? { ...rule, enabled: rule.enabled === false } : rule
+      ),
+      "custom"
+    );
+  };
+
+  const applyJson = () => {
+    try {
+      onChange(importRules(json), "custom");
+      setShowJson(false);
+      announce?.(t("rules.customApplied"));
+    } catch (error) {
+      Alert.alert(t("rules.invalidTitle"), error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const updateSample = (changes: Partial<RuleTestSample>) => {
+    setSample((current) => ({ ...current, ...changes }));
+  };
+
+  const stepper = (
+    title: string,
+    value: string,
+    onDecrease: () => void,
+    onIncrease: () => void
+  ) => (
+    <View style={styles.stepper}>
+      <Text style={styles.stepperLabel}>{title}</Text>
+      <TouchableOpacity
+        style={styles.stepperButton}
+        onPress={onDecrease}
+        accessibilityLabel={t("rules.decrease", { name: title })}
+      >
+        <Text style={styles.chipText}>-</Text>
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{value}</Text>
+      <TouchableOpacity
+        style={styles.stepperButton}
+        onPress={onIncrease}
+        accessibilityLabel={t("rules.increase", { name: title })}
+      >
+        <Text style={styles.chipText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <Text style={styles.title}>{t("rules.title")}</Text>
+
+        <ScrollView style={styles.scroll}>
+          <Text style={styles.heading}>{t("rules.preset")}</Text>
+          <View style={styles.chipRow}>
+            {RULE_PRESETS.map((preset) => (
+              <TouchableOpacity
+                key={preset.id}
+                style={[styles.chip, presetId === preset.id && styles.chipActive]}
+                onPress={() => selectPreset(preset.id)}
+                accessibilityLabel={`${t(`rules.presets.${preset.id}.name`)}: ${t(`rules.presets.${preset.id}.description`)}`}
+              >
+                <Text style={styles.chipText}>{t(`rules.presets.${preset.id}.name`)}</Text>
+              </TouchableOpacity>
+            ))}
+            {presetId === "custom" && (
+              <View style={[styles.chip, styles.chipActive]}>
+                <Text style={styles.chipText}>{t("rules.custom")}</Text>
+              </View>
+            )}
+          </View>
+
+          {/* Rule tester */}
+          <Text style={styles.heading}>{t("rules.test")}</Text>
+          <View style={styles.card}>
+            <TextInput
+              style={styles.input}
+              value={sample.label}
+              onChangeText={(label) => updateSample({ label: label.trim().toLowerCase() })}
+              placeholder={t("rules.labelPlaceholder")}
+              placeholderTextColor="#6B7280"
+              autoCapitalize="none"
+              accessibilityLabel={t("rules.labelHint")}
+            />
+            {stepper(
+              t("rules.steps"),
+              `${sample.steps}`,
+              () => updateSample({ steps: Math.max(1, sample.steps - 1) }),
+              () => updateSample({ steps: Math.min(20, sample.steps + 1) })
+            )}
+            {stepper(
+              t("rules.confidence"),
+              `${Math.round(sample.confidence * 100)}%`,
+              () => updateSample({ confidence: Math.max(0.1, Math.round((sample.confidence - 0.05) * 100) / 100) }),
+              () => updateSample({ confidence: Math.min(1, Math.round((sample.confidence + 0.05) * 100) / 100) })
+            )}
+            {stepper(
+              t("rules.contactIn"),
+              sample.timeToCollision === undefined
+                ? t("rules.never")
+                : t("rules.seconds", { count: sample.timeToCollision }),
+              () =>
+                updateSample({
+                  timeToCollision:
+                    sample.timeToCollision === undefined || sample.timeToCollision <= 1
+                      ? undefined
+                      : sample.timeToCollision - 1,
+                }),
+              () => updateSample({ timeToCollision: Math.min(15, (sample.timeToCollision ?? 0) + 1) })
+            )}
+            <View style={styles.chipRow}>
+              {POSITIONS.map((position) => (
+                <TouchableOpacity
+                  key={position.id}
+                  style={[styles.chip, sample.x === position.x && styles.chipActive]}
+                  onPress={() => updateSample({ x: position.x })}
+                >
+                  <Text style={styles.chipText}>{t(`rules.positions.${position.id}`)}</Text>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity
+                style={[styles.chip, sample.isMoving && styles.chipActive]}
+                onPress={() => updateSample({ isMoving: !sample.isMoving, velocity: sample.isMoving ? 0 : 1.2 })}
+                accessibilityRole="switch"
+                accessibilityState={{ checked: !!sample.isMoving }}
+              >
+                <Text style={styles.chipText}>{t("rules.moving")}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.chip, sample.onCollisionCourse && styles.chipActive]}
+                onPress={() => updateSample({ onCollisionCourse: !sample.onCollisionCourse })}
+                accessibilityRole="switch"
+                accessibilityState={{ checked: !!sample.onCollisionCourse }}
+              >
+                <Text style={styles.chipText}>{t("rules.inPath")}</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.result} accessibilityLiveRegion="polite">
+              <Text style={styles.resultText}>
+                {t("rules.result", {
+                  outcome: t(result.included ? "rules.alerts" : "rules.filteredOut"),
+                  type: t(`rules.alertTypes.${result.alertType}`),
+                  priority: Math.round(result.priority),
+                })}
+              </Text>
+              <Text style={styles.firedText}>
+                {t("rules.fired", {
+                  rules: result.fired.length > 0 ? result.fired.join(", ") : t("rules.noRules"),
+                })}
+              </Text>
+            </View>
+          </View>
+
+          {/* Rule list */}
+          <Text style={styles.heading}>{t("rules.list", { count: rules.length })}</Text>
+          {rules.map((rule) => (
+            <TouchableOpacity
+              key={rule.id}
+              style={[
+                styles.ruleRow,
+                rule.enabled === false && styles.ruleDisabled,
+                result.fired.includes(rule.id) && styles.ruleFired,
+              ]}
+              onPress={() => toggleRule(rule.id)}
+              accessibilityRole="switch"
+              accessibilityState={{ checked: rule.enabled !== false }}
+              accessibilityLabel={rule.description ?? rule.id}
+            >
+              <Text style={styles.ruleId}>{rule.id}</Text>
+              {rule.description && <Text style={styles.ruleDescription}>{rule.description}</Text>}
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => setShowJson(!showJson)}
+            accessibilityLabel={t("rules.editJsonHint")}
+          >
+            <Text style={styles.chipText}>{t(showJson ? "rules.hideJson" : "rules.editJson")}</Text>
+          </TouchableOpacity>
+          {showJson && (
+            <View>
+              <TextInput
+                style={[styles.input, styles.jsonInput]}
+                value={json}
+                onChangeText={setJson}
+                multiline
+                autoCapitalize="none"
+                autoCorrect={false}
+                accessibilityLabel={t("rules.jsonHint")}
+              />
+              <TouchableOpacity style={styles.actionButton} onPress={applyJson}>
+                <Text style={styles.chipText}>{t("rules.applyJson")}</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </ScrollView>
+
+        <TouchableOpacity style={styles.doneButton} onPress={onClose} accessibilityLabel={t("rules.closeHint")}>
+          <Text style={styles.doneText}>{t("common.done")}</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#111827",
+    padding: 20,
+    paddingTop: 60,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: "#FFFFFF",
+    marginBottom: 8,
+  },
+  scroll: {
+    flex: 1,
+  },
+  heading: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#D1D5DB",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: "#1F2937",
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#374151",
+    gap: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: "#374151",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  chipActive: {
+    backgroundColor: "#7C3AED",
+  },
+  chipText: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  input: {
+    backgroundColor: "#374151",
+    color: "#FFFFFF",
+    padding: 12,
+    borderRadius: 12,
+    fontSize: 14,
+    borderWidth: 1,
+    borderColor: "#4B5563",
+  },
+  jsonInput: {
+    minHeight: 240,
+    marginTop: 8,
+    fontSize: 12,
+    textAlignVertical: "top",
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  stepperLabel: {
+    color: "#9CA3AF",
+    fontSize: 14,
+    flex: 1,
+  },
+  stepperButton: {
+    backgroundColor: "#374151",
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stepperValue: {
+    color: "#3B82F6",
+    fontSize: 14,
+    fontWeight: "600",
+    minWidth: 56,
+    textAlign: "center",
+  },
+  result: {
+    backgroundColor: "#111827",
+    padding: 12,
+    borderRadius: 8,
+  },
+  resultText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  firedText: {
+    color: "#9CA3AF",
+    fontSize: 12,
+    marginTop: 4,
+  },
+  ruleRow: {
+    backgroundColor: "#1F2937",
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 6,
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  ruleDisabled: {
+    opacity: 0.4,
+  },
+  ruleFired: {
+    borderColor: "#059669",
+  },
+  ruleId: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "600",
+    fontFamily: "monospace",
+  },
+  ruleDescription: {
+    color: "#9CA3AF",
+    fontSize: 12,
+    marginTop: 2,
+  },
+  actionButton: {
+    backgroundColor: "#4B5563",
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 12,
+  },
+  doneButton: {
+    padding: 16,
+    alignItems: "center",
+  },
+  doneText: {
+    color: "#3B82F6",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
@@ -1,6 +1,8 @@
 import React from "react";
-import { View, Text, StyleSheet, Dimensions } from "react-native";
-import { Detection } from "@/services/AIDetectionService";
+import { View, Text, StyleSheet, Dimensions, I18nManager } from "react-native";
+import { Detection } from "@/services/APIDetectionService";
+import { DirectionFormat, formatDirectionLabel } from "@/services/Directions";
+import { useTranslation } from "@/hooks/useTranslation";
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -13,19 +15,30 @@ import Animated, {
 interface EnhancedDetectionOverlayProps {
   detections: Detection[];
   alertType?: "urgent" | "warning" | "info";
+  directionFormat?: DirectionFormat;
 }
 
 interface AnimatedDetectionBoxProps {
   detection: Detection;
   alertType: "urgent" | "warning" | "info";
+  directionFormat: DirectionFormat;
 }
 
 const { width, height } = Dimensions.get("window");
 
+// Boxes follow the camera image, which is never mirrored. RTL layouts swap
+// left and right, so the offset is given from the side that ends up on the left.
+function horizontalOffset(offset: number) {
+  return I18nManager.isRTL ? { right: offset } : { left: offset };
+}
+
 function AnimatedDetectionBox({
   detection,
   alertType,
+  directionFormat,
 }: AnimatedDetectionBoxProps) {
+  const i18n = useTranslation();
+  const { t } = i18n;
   const pulseAnimation = useSharedValue(0);
   const glowAnimation = useSharedValue(0);
 
@@ -81,7 +94,7 @@ function AnimatedDetectionBox({
         styles.detectionBox,
         animatedStyle,
         {
-          left: detection.x * width - (detection.width * width) / 2,
+          ...horizontalOffset(detection.x * width - (detection.width * width) / 2),
           top: detection.y * height - (detection.height * height) / 2,
           width: detection.width * width,
           height: detection.height * height,
@@ -97,10 +110,12 @@ function AnimatedDetectionBox({
     >
       {/* Enhanced Label Container */}
       <View style={[styles.labelContainer, { backgroundColor: borderColor }]}>
-        <Text style={styles.labelText}>{detection.label.toUpperCase()}</Text>
+        <Text style={styles.labelText}>
+          {i18n.label(detection.label).toUpperCase()}
+        </Text>
         <View style={styles.stepContainer}>
           <Text style={styles.stepText}>
-            {detection.steps} {detection.steps === 1 ? "STEP" : "STEPS"}
+            {t("common.stepsShort", { count: detection.steps })}
           </Text>
           {detection.isMoving && (
             <View style={styles.movingIndicator}>
@@ -109,9 +124,11 @@ function AnimatedDetectionBox({
           )}
         </View>
 
-        {/* Distance indicator */}
+        {/* Distance and direction indicator */}
         <Text style={styles.distanceText}>
           {detection.distance.toFixed(1)}m
+          {detection.bearing !== undefined &&
+            ` · ${formatDirectionLabel(detection.bearing, directionFormat, i18n)}`}
         </Text>
       </View>
 
@@ -155,7 +172,7 @@ function AnimatedDetectionBox({
           <Text style={[styles.movementText, { color: borderColor }]}>
             {detection.velocity
               ? `${detection.velocity.toFixed(1)} m/s`
-              : "MOVING"}
+              : t("common.moving")}
           </Text>
         </View>
       )}
@@ -163,7 +180,7 @@ function AnimatedDetectionBox({
       {/* Center focus indicator */}
       {Math.abs(detection.x - 0.5) <= 0.15 && (
         <View style={styles.centerIndicator}>
-          <Text style={styles.centerText}>CENTER</Text>
+          <Text style={styles.centerText}>{t("overlay.center")}</Text>
         </View>
       )}
     </Animated.View>
@@ -173,7 +190,9 @@ function AnimatedDetectionBox({
 export function EnhancedDetectionOverlay({
   detections,
   alertType = "info",
+  directionFormat = "leftRight",
 }: EnhancedDetectionOverlayProps) {
+  const { t } = useTranslation();
   const urgentOverlayPulse = useSharedValue(0);
 
   React.useEffect(() => {
@@ -206,14 +225,15 @@ export function EnhancedDetectionOverlay({
           key={detection.id}
           detection={detection}
           alertType={alertType}
+          directionFormat={directionFormat}
         />
       ))}
 
       {/* Global alert overlay for urgent situations */}
       {alertType === "urgent" && (
         <Animated.View style={[styles.urgentOverlay, urgentOverlayStyle]}>
-          <Text style={styles.urgentText}>OBSTACLE DETECTED</Text>
-          <Text style={styles.urgentSubtext}>STOP IMMEDIATELY</Text>
+          <Text style={styles.urgentText}>{t("overlay.urgent")}</Text>
+          <Text style={styles.urgentSubtext}>{t("overlay.urgentSubtext")}</Text>
         </Animated.View>
       )}
     </View>
@@ -0,0 +1,415 @@
+import React, { useRef, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  Image,
+  Dimensions,
+  Alert,
+} from "react-native";
+import {
+  CameraView,
+  CameraCapturedPicture,
+  useCameraPermissions,
+} from "expo-camera";
+import {
+  CameraCalibration,
+  CameraLens,
+  REFERENCE_OBJECTS,
+  solveFocalLengthRatio,
+} from "@/services/CameraCalibration";
+import { useTranslation } from "@/hooks/useTranslation";
+
+interface FocalLengthCalibrationProps {
+  visible: boolean;
+  onClose: () => void;
+  onComplete: (calibration: CameraCalibration) => void;
+  announce?: (message: string) => void;
+  lens: CameraLens; // the camera and zoom being calibrated, as detection uses them
+}
+
+type Step = "setup" | "capture" | "mark";
+
+const { width: windowWidth, height: windowHeight } = Dimensions.get("window");
+
+// Anything outside roughly 28°-100° horizontal field of view is a bad measurement
+const MIN_FOCAL_LENGTH_RATIO = 0.4;
+const MAX_FOCAL_LENGTH_RATIO = 2.0;
+
+/**
+ * Guided calibration: the user stands a known distance from an object of
+ * known size, takes a photo, then marks the object's top and bottom edges.
+ */
+export function FocalLengthCalibration({
+  visible,
+  onClose,
+  onComplete,
+  announce,
+  lens,
+}: FocalLengthCalibrationProps) {
+  const [permission, requestPermission] = useCameraPermissions();
+  const [step, setStep] = useState<Step>("setup");
+  const [referenceId, setReferenceId] = useState(REFERENCE_OBJECTS[0].id);
+  const [distanceText, setDistanceText] = useState("1.0");
+  const [photo, setPhoto] = useState<CameraCapturedPicture | null>(null);
+  const [top, setTop] = useState(0.3);
+  const [bottom, setBottom] = useState(0.7);
+  const [fineAdjust, setFineAdjust] = useState(false);
+  const cameraRef = useRef<CameraView>(null);
+  const { t } = useTranslation();
+
+  const reference = REFERENCE_OBJECTS.find((object) => object.id === referenceId)!;
+  const referenceName = (id: string) => t(`calibration.references.${id}`);
+  const distance = parseFloat(distanceText);
+
+  const reset = () => {
+    setStep("setup");
+    setPhoto(null);
+    setTop(0.3);
+    setBottom(0.7);
+  };
+
+  const close = () => {
+    reset();
+    onClose();
+  };
+
+  const startCapture = () => {
+    if (!(distance >= 0.3 && distance <= 10)) {
+      Alert.alert(t("calibration.invalidDistanceTitle"), t("calibration.invalidDistanceMessage"));
+      return;
+    }
+    setStep("capture");
+    announce?.(t("calibration.standAt", { distance, object: referenceName(reference.id) }));
+  };
+
+  const takePhoto = async () => {
+    try {
+      const picture = await cameraRef.current?.takePictureAsync({ quality: 0.8 });
+      if (picture) {
+        setPhoto(picture);
+        setStep("mark");
+        announce?.(t("calibration.photoTaken"));
+      }
+    } catch (error) {
+      console.warn("Calibration photo failed:", error);
+      Alert.alert(t("calibration.cameraErrorTitle"), t("calibration.cameraErrorMessage"));
+    }
+  };
+
+  const moveEdge = (edge: "top" | "bottom", direction: -1 | 1) => {
+    const delta = direction * (fineAdjust ? 0.002 : 0.01);
+    if (edge === "top") {
+      setTop((value) => Math.min(bottom - 0.01, Math.max(0, value + delta)));
+    } else {
+      setBottom((value) => Math.max(top + 0.01, Math.min(1, value + delta)));
+    }
+  };
+
+  const save = () => {
+    if (!photo) return;
+
+    const focalLengthRatio = solveFocalLengthRatio({
+      objectHeight: reference.height,
+      distance,
+      spanFraction: bottom - top,
+      imageWidth: photo.width,
+      imageHeight: photo.height,
+    });
+
+    if (focalLengthRatio < MIN_FOCAL_LENGTH_RATIO || focalLengthRatio > MAX_FOCAL_LENGTH_RATIO) {
+      Alert.alert(t("calibration.wrongTitle"), t("calibration.wrongMessage"));
+      return;
+    }
+
+    onComplete({
+      focalLengthRatio,
+      referenceObject: reference.id,
+      distance,
+      calibratedAt: Date.now(),
+    });
+    reset();
+  };
+
+  // Fit the photo into the available area without cropping it
+  const photoAspect = photo ? photo.height / photo.width : 4 / 3;
+  const previewWidth = Math.min(windowWidth - 40, (windowHeight * 0.55) / photoAspect);
+  const previewHeight = previewWidth * photoAspect;
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={close}>
+      <View style={styles.container}>
+        <Text style={styles.title}>{t("calibration.title")}</Text>
+
+        {step === "setup" && (
+          <View>
+            <Text style={styles.description}>{t("calibration.setupDescription")}</Text>
+            {REFERENCE_OBJECTS.map((object) => (
+              <TouchableOpacity
+                key={object.id}
+                style={[
+                  styles.option,
+                  object.id === referenceId && styles.optionActive,
+                ]}
+                onPress={() => setReferenceId(object.id)}
+                accessibilityLabel={t("calibration.referenceHint", {
+                  object: referenceName(object.id),
+                  height: object.height,
+                })}
+              >
+                <Text style={styles.optionText}>
+                  {t("calibration.referenceOption", {
+                    object: referenceName(object.id),
+                    height: Math.round(object.height * 1000) / 10,
+                  })}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            <Text style={styles.label}>{t("calibration.distance")}</Text>
+            <TextInput
+              style={styles.input}
+              value={distanceText}
+              onChangeText={setDistanceText}
+              keyboardType="decimal-pad"
+              accessibilityLabel={t("calibration.distanceHint")}
+            />
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={startCapture}
+              accessibilityLabel={t("calibration.continueHint")}
+            >
+              <Text style={styles.buttonText}>{t("calibration.continue")}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {step === "capture" &&
+          (permission?.granted ? (
+            <View style={styles.cameraContainer}>
+              <CameraView ref={cameraRef} style={styles.camera} facing={lens.facing} zoom={lens.zoom} />
+              {/* Framing guides only; the exact edges are marked on the photo */}
+              <View style={[styles.guideLine, { top: "25%" }]} />
+              <View style={[styles.guideLine, { top: "75%" }]} />
+              <View style={styles.guideCenter} />
+              <TouchableOpacity
+                style={[styles.primaryButton, styles.captureButton]}
+                onPress={takePhoto}
+                accessibilityLabel={t("calibration.takePhotoHint")}
+              >
+                <Text style={styles.buttonText}>{t("calibration.takePhoto")}</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={requestPermission}
+              accessibilityLabel={t("calibration.grantPermissionHint")}
+            >
+              <Text style={styles.buttonText}>{t("calibration.grantPermission")}</Text>
+            </TouchableOpacity>
+          ))}
+
+        {step === "mark" && photo && (
+          <View style={styles.markContainer}>
+            <View style={{ width: previewWidth, height: previewHeight }}>
+              <Image
+                source={{ uri: photo.uri }}
+                style={{ width: previewWidth, height: previewHeight }}
+              />
+              <View style={[styles.edgeLine, { top: top * previewHeight }]} />
+              <View style={[styles.edgeLine, { top: bottom * previewHeight }]} />
+            </View>
+
+            <View style={styles.edgeControls}>
+              {(["top", "bottom"] as const).map((edge) => (
+                <View key={edge} style={styles.edgeControl}>
+                  <Text style={styles.label}>{t(`calibration.edges.${edge}`)}</Text>
+                  <View style={styles.edgeButtons}>
+                    <TouchableOpacity
+                      style={styles.edgeButton}
+                      onPress={() => moveEdge(edge, -1)}
+                      accessibilityLabel={t("calibration.moveUp", { edge: t(`calibration.edges.${edge}`) })}
+                    >
+                      <Text style={styles.buttonText}>▲</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.edgeButton}
+                      onPress={() => moveEdge(edge, 1)}
+                      accessibilityLabel={t("calibration.moveDown", { edge: t(`calibration.edges.${edge}`) })}
+                    >
+                      <Text style={styles.buttonText}>▼</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+            </View>
+
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => setFineAdjust(!fineAdjust)}
+              accessibilityLabel={t("calibration.fineHint")}
+            >
+              <Text style={styles.buttonText}>
+                {t(fineAdjust ? "calibration.fine" : "calibration.coarse")}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={save}
+              accessibilityLabel={t("calibration.saveHint")}
+            >
+              <Text style={styles.buttonText}>{t("calibration.save")}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={styles.cancelButton}
+          onPress={close}
+          accessibilityLabel={t("calibration.cancelHint")}
+        >
+          <Text style={styles.cancelText}>{t("common.cancel")}</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#111827",
+    padding: 20,
+    paddingTop: 60,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: "#FFFFFF",
+    marginBottom: 16,
+  },
+  description: {
+    fontSize: 14,
+    color: "#9CA3AF",
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  option: {
+    backgroundColor: "#1F2937",
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  optionActive: {
+    borderColor: "#3B82F6",
+    backgroundColor: "#1E3A8A",
+  },
+  optionText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#D1D5DB",
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: "#374151",
+    color: "#FFFFFF",
+    padding: 16,
+    borderRadius: 12,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: "#4B5563",
+  },
+  primaryButton: {
+    backgroundColor: "#059669",
+    padding: 16,
+    borderRadius: 12,
+    alignItems: "center",
+    marginTop: 16,
+  },
+  secondaryButton: {
+    backgroundColor: "#4B5563",
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 12,
+  },
+  buttonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  cameraContainer: {
+    flex: 1,
+  },
+  camera: {
+    flex: 1,
+    borderRadius: 12,
+  },
+  guideLine: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    height: 2,
+    backgroundColor: "rgba(59, 130, 246, 0.8)",
+  },
+  guideCenter: {
+    position: "absolute",
+    top: 0,
+    bottom: 72,
+    left: "50%",
+    width: 2,
+    backgroundColor: "rgba(59, 130, 246, 0.5)",
+  },
+  captureButton: {
+    marginTop: 12,
+  },
+  markContainer: {
+    alignItems: "center",
+  },
+  edgeLine: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    height: 2,
+    backgroundColor: "#EF4444",
+  },
+  edgeControls: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+    alignSelf: "stretch",
+  },
+  edgeControl: {
+    alignItems: "center",
+  },
+  edgeButtons: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  edgeButton: {
+    backgroundColor: "#374151",
+    width: 48,
+    height: 40,
+    borderRadius: 8,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  cancelButton: {
+    padding: 16,
+    alignItems: "center",
+  },
+  cancelText: {
+    color: "#EF4444",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
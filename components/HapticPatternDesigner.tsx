@@ -0,0 +1,328 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+} from "react-native";
+import {
+  DEFAULT_HAPTIC_PATTERNS,
+  HapticPattern,
+  HapticPatterns,
+  HapticStep,
+  IMPACT_STRENGTHS,
+  MAX_PATTERN_STEPS,
+  PAUSE_LENGTHS,
+} from "@/services/HapticPatterns";
+import type { AlertType } from "@/services/AlertRules";
+import type { DirectionSide } from "@/services/Directions";
+import { useHaptics } from "@/hooks/useHaptics";
+import { useTranslation } from "@/hooks/useTranslation";
+
+interface HapticPatternDesignerProps {
+  visible: boolean;
+  patterns: HapticPatterns;
+  onChange: (patterns: HapticPatterns) => void;
+  onClose: () => void;
+  announce?: (message: string) => void;
+}
+
+const ALERT_TYPES: AlertType[] = ["urgent", "warning", "info"];
+const DIRECTIONS: DirectionSide[] = ["left", "center", "right"];
+
+// Tapping a step steps through the values of its kind
+function nextStep(step: HapticStep): HapticStep {
+  if (typeof step === "number") {
+    const index = PAUSE_LENGTHS.indexOf(step);
+    return PAUSE_LENGTHS[(index + 1) % PAUSE_LENGTHS.length];
+  }
+  const index = IMPACT_STRENGTHS.indexOf(step);
+  return IMPACT_STRENGTHS[(index + 1) % IMPACT_STRENGTHS.length];
+}
+
+export function HapticPatternDesigner({
+  visible,
+  patterns,
+  onChange,
+  onClose,
+  announce,
+}: HapticPatternDesignerProps) {
+  const [alertType, setAlertType] = useState<AlertType>("urgent");
+  const [direction, setDirection] = useState<DirectionSide>("left");
+  const haptics = useHaptics();
+  const { t } = useTranslation();
+
+  const pattern = patterns[alertType][direction];
+
+  const describeStep = (step: HapticStep) =>
+    typeof step === "number" ? t("haptics.pause", { ms: step }) : t(`haptics.impacts.${step}`);
+
+  const updatePattern = (next: HapticPattern) => {
+    onChange({
+      ...patterns,
+      [alertType]: { ...patterns[alertType], [direction]: next },
+    });
+  };
+
+  const select = (type: AlertType, side: DirectionSide) => {
+    setAlertType(type);
+    setDirection(side);
+    haptics.play(patterns[type][side]);
+    announce?.(
+      t("haptics.selected", {
+        type: t(`haptics.types.${type}`),
+        direction: t(`haptics.directions.${side}`),
+      })
+    );
+  };
+
+  const changeStep = (index: number) => {
+    const step = nextStep(pattern[index]);
+    updatePattern(pattern.map((current, i) => (i === index ? step : current)));
+    announce?.(t("haptics.stepChanged", { index: index + 1, step: describeStep(step) }));
+  };
+
+  const removeStep = (index: number) => {
+    updatePattern(pattern.filter((_, i) => i !== index));
+    announce?.(t("haptics.removed", { index: index + 1 }));
+  };
+
+  const addStep = (step: HapticStep) => {
+    if (pattern.length >= MAX_PATTERN_STEPS) {
+      announce?.(t("haptics.full", { count: MAX_PATTERN_STEPS }));
+      return;
+    }
+    updatePattern([...pattern, step]);
+    announce?.(t("haptics.added", { step: describeStep(step) }));
+  };
+
+  const resetPattern = () => {
+    updatePattern(DEFAULT_HAPTIC_PATTERNS[alertType][direction]);
+    announce?.(t("haptics.patternReset"));
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <Text style={styles.title}>{t("haptics.title")}</Text>
+        <Text style={styles.description}>{t("haptics.description")}</Text>
+
+        <ScrollView style={styles.scroll}>
+          {ALERT_TYPES.map((type) => (
+            <View key={type} style={styles.chipRow}>
+              <Text style={styles.rowLabel}>{t(`haptics.types.${type}`)}</Text>
+              {DIRECTIONS.map((side) => (
+                <TouchableOpacity
+                  key={side}
+                  style={[
+                    styles.chip,
+                    alertType === type && direction === side && styles.chipActive,
+                  ]}
+                  onPress={() => select(type, side)}
+                  accessibilityState={{ selected: alertType === type && direction === side }}
+                  accessibilityLabel={t("haptics.selected", {
+                    type: t(`haptics.types.${type}`),
+                    direction: t(`haptics.directions.${side}`),
+                  })}
+                >
+                  <Text style={styles.chipText}>{t(`haptics.directions.${side}`)}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ))}
+
+          <View style={styles.card}>
+            <Text style={styles.heading}>
+              {t("haptics.selected", {
+                type: t(`haptics.types.${alertType}`),
+                direction: t(`haptics.directions.${direction}`),
+              })}
+            </Text>
+
+            {pattern.length === 0 && <Text style={styles.description}>{t("haptics.empty")}</Text>}
+            <View style={styles.steps}>
+              {pattern.map((step, index) => (
+                <View key={index} style={styles.stepControl}>
+                  <TouchableOpacity
+                    style={[styles.step, typeof step === "number" ? styles.pauseStep : styles.impactStep]}
+                    onPress={() => changeStep(index)}
+                    accessibilityLabel={t("haptics.stepHint", { index: index + 1, step: describeStep(step) })}
+                  >
+                    <Text style={styles.chipText}>{describeStep(step)}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() => removeStep(index)}
+                    accessibilityLabel={t("haptics.removeHint", { index: index + 1 })}
+                  >
+                    <Text style={styles.removeText}>×</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => addStep("medium")}
+                accessibilityLabel={t("haptics.addImpactHint")}
+              >
+                <Text style={styles.chipText}>{t("haptics.addImpact")}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => addStep(PAUSE_LENGTHS[1])}
+                accessibilityLabel={t("haptics.addPauseHint")}
+              >
+                <Text style={styles.chipText}>{t("haptics.addPause")}</Text>
+              </TouchableOpacity>
+            </View>
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.previewButton]}
+                onPress={() => haptics.play(pattern)}
+                accessibilityLabel={t("haptics.previewHint")}
+              >
+                <Text style={styles.chipText}>{t("haptics.preview")}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={resetPattern}
+                accessibilityLabel={t("haptics.resetPatternHint")}
+              >
+                <Text style={styles.chipText}>{t("haptics.resetPattern")}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </ScrollView>
+
+        <TouchableOpacity style={styles.doneButton} onPress={onClose} accessibilityLabel={t("haptics.closeHint")}>
+          <Text style={styles.doneText}>{t("common.done")}</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#111827",
+    padding: 20,
+    paddingTop: 60,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: "#FFFFFF",
+    marginBottom: 8,
+  },
+  description: {
+    fontSize: 14,
+    color: "#9CA3AF",
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  scroll: {
+    flex: 1,
+  },
+  chipRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 8,
+  },
+  rowLabel: {
+    color: "#D1D5DB",
+    fontSize: 14,
+    fontWeight: "600",
+    width: 96,
+  },
+  chip: {
+    backgroundColor: "#374151",
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  chipActive: {
+    backgroundColor: "#EA580C",
+  },
+  chipText: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  card: {
+    backgroundColor: "#1F2937",
+    padding: 12,
+    borderRadius: 12,
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  heading: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#FFFFFF",
+    marginBottom: 12,
+  },
+  steps: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  stepControl: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  step: {
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    borderTopLeftRadius: 8,
+    borderBottomLeftRadius: 8,
+  },
+  impactStep: {
+    backgroundColor: "#EA580C",
+  },
+  pauseStep: {
+    backgroundColor: "#4B5563",
+  },
+  removeButton: {
+    backgroundColor: "#374151",
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    borderTopRightRadius: 8,
+    borderBottomRightRadius: 8,
+  },
+  removeText: {
+    color: "#EF4444",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  actions: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    backgroundColor: "#4B5563",
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  previewButton: {
+    backgroundColor: "#EA580C",
+  },
+  doneButton: {
+    padding: 16,
+    alignItems: "center",
+  },
+  doneText: {
+    color: "#3B82F6",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
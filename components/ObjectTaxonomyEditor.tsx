@@ -0,0 +1,438 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Share,
+  Alert,
+} from "react-native";
+import {
+  DEFAULT_OBJECT_SIZE,
+  DEFAULT_TAXONOMY,
+  OBJECT_CATEGORIES,
+  ObjectTaxonomy,
+  TaxonomyEntry,
+  exportTaxonomy,
+  importTaxonomy,
+  withDefaultTaxonomy,
+} from "@/services/ObjectTaxonomy";
+import { useTranslation } from "@/hooks/useTranslation";
+
+interface ObjectTaxonomyEditorProps {
+  visible: boolean;
+  taxonomy: ObjectTaxonomy;
+  onChange: (taxonomy: ObjectTaxonomy) => void;
+  onClose: () => void;
+  announce?: (message: string) => void;
+}
+
+const CATEGORY_COLORS = {
+  critical: "#EF4444",
+  warning: "#F59E0B",
+  info: "#3B82F6",
+};
+
+const SIZE_STEP = 0.1; // meters
+
+type Flag = "announce" | "vibrate" | "ignore";
+
+export function ObjectTaxonomyEditor({
+  visible,
+  taxonomy,
+  onChange,
+  onClose,
+  announce,
+}: ObjectTaxonomyEditorProps) {
+  const [newLabel, setNewLabel] = useState("");
+  const [showImport, setShowImport] = useState(false);
+  const [importText, setImportText] = useState("");
+  const i18n = useTranslation();
+  const { t } = i18n;
+
+  // Taxonomy keys are detector labels; users see and hear them translated
+  const displayName = (label: string) => i18n.label(label);
+  const categoryName = (label: string) => t(`taxonomy.categories.${taxonomy[label].category}`);
+  const flagName = (flag: Flag) => t(`taxonomy.flags.${flag}`);
+
+  const labels = Object.keys(taxonomy).sort(
+    (a, b) =>
+      OBJECT_CATEGORIES.indexOf(taxonomy[a].category) -
+        OBJECT_CATEGORIES.indexOf(taxonomy[b].category) || a.localeCompare(b)
+  );
+
+  const updateEntry = (label: string, changes: Partial<TaxonomyEntry>) => {
+    onChange({ ...taxonomy, [label]: { ...taxonomy[label], ...changes } });
+  };
+
+  const cycleCategory = (label: string) => {
+    const current = OBJECT_CATEGORIES.indexOf(taxonomy[label].category);
+    const category = OBJECT_CATEGORIES[(current + 1) % OBJECT_CATEGORIES.length];
+    updateEntry(label, { category });
+    announce?.(
+      t("taxonomy.categoryChanged", {
+        label: displayName(label),
+        category: t(`taxonomy.categories.${category}`),
+      })
+    );
+  };
+
+  const changeSize = (label: string, direction: -1 | 1) => {
+    const current = taxonomy[label].size ?? DEFAULT_OBJECT_SIZE;
+    const size = Math.max(SIZE_STEP, Math.round((current + direction * SIZE_STEP) * 10) / 10);
+    updateEntry(label, { size });
+  };
+
+  const toggleFlag = (label: string, flag: Flag) => {
+    const value = !taxonomy[label][flag];
+    updateEntry(label, { [flag]: value });
+    announce?.(
+      t(value ? "taxonomy.flagOn" : "taxonomy.flagOff", { flag: flagName(flag), label: displayName(label) })
+    );
+  };
+
+  const addLabel = () => {
+    const label = newLabel.trim().toLowerCase();
+    if (!label) return;
+    if (taxonomy[label]) {
+      Alert.alert(t("taxonomy.alreadyListedTitle"), t("taxonomy.alreadyListedMessage", { label }));
+      return;
+    }
+    onChange({
+      ...taxonomy,
+      [label]: { category: "info", size: null, announce: true, vibrate: true, ignore: false },
+    });
+    setNewLabel("");
+    announce?.(t("taxonomy.added", { label: displayName(label) }));
+  };
+
+  const removeLabel = (label: string) => {
+    // Defaults are merged back in on load and import, so removing one ignores it
+    if (DEFAULT_TAXONOMY[label]) {
+      onChange({ ...taxonomy, [label]: { ...taxonomy[label], ignore: true } });
+      announce?.(t("taxonomy.removedDefault", { label: displayName(label) }));
+      return;
+    }
+    const { [label]: _removed, ...remaining } = taxonomy;
+    onChange(remaining);
+    announce?.(t("taxonomy.removed", { label: displayName(label) }));
+  };
+
+  const handleExport = async () => {
+    try {
+      await Share.share({ title: t("taxonomy.shareTitle"), message: exportTaxonomy(taxonomy) });
+    } catch {
+      Alert.alert(t("taxonomy.exportFailedTitle"), t("taxonomy.exportFailedMessage"));
+    }
+  };
+
+  const handleImport = () => {
+    try {
+      onChange(withDefaultTaxonomy(importTaxonomy(importText)));
+      setImportText("");
+      setShowImport(false);
+      announce?.(t("taxonomy.imported"));
+    } catch (error) {
+      Alert.alert(t("taxonomy.importFailedTitle"), error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleReset = () => {
+    Alert.alert(t("taxonomy.resetTitle"), t("taxonomy.resetMessage"), [
+      { text: t("common.cancel"), style: "cancel" },
+      {
+        text: t("common.reset"),
+        style: "destructive",
+        onPress: () => {
+          onChange(DEFAULT_TAXONOMY);
+          announce?.(t("taxonomy.resetDone"));
+        },
+      },
+    ]);
+  };
+
+  const renderFlag = (label: string, flag: Flag) => (
+    <TouchableOpacity
+      style={[styles.chip, taxonomy[label][flag] && styles.chipActive]}
+      onPress={() => toggleFlag(label, flag)}
+      accessibilityRole="switch"
+      accessibilityState={{ checked: taxonomy[label][flag] }}
+      accessibilityLabel={t("taxonomy.flagHint", { flag: flagName(flag), label: displayName(label) })}
+    >
+      <Text style={styles.chipText}>{flagName(flag)}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <Text style={styles.title}>{t("taxonomy.title")}</Text>
+        <Text style={styles.description}>{t("taxonomy.description")}</Text>
+
+        <ScrollView style={styles.list}>
+          {labels.map((label) => {
+            const entry = taxonomy[label];
+            return (
+              <View key={label} style={[styles.row, entry.ignore && styles.rowIgnored]}>
+                <View style={styles.rowHeader}>
+                  <Text style={styles.label}>
+                    {displayName(label)}
+                    {/* The detector's own label, which is what exports contain */}
+                    {displayName(label) !== label && <Text style={styles.rawLabel}> ({label})</Text>}
+                  </Text>
+                  <TouchableOpacity
+                    style={[styles.categoryChip, { backgroundColor: CATEGORY_COLORS[entry.category] }]}
+                    onPress={() => cycleCategory(label)}
+                    accessibilityLabel={t("taxonomy.categoryHint", {
+                      label: displayName(label),
+                      category: categoryName(label),
+                    })}
+                  >
+                    <Text style={styles.chipText}>{categoryName(label)}</Text>
+                  </TouchableOpacity>
+                </View>
+
+                <View style={styles.rowControls}>
+                  <View style={styles.sizeControl}>
+                    <TouchableOpacity
+                      style={styles.sizeButton}
+                      onPress={() => changeSize(label, -1)}
+                      accessibilityLabel={t("taxonomy.decreaseSize", { label: displayName(label) })}
+                    >
+                      <Text style={styles.chipText}>-</Text>
+                    </TouchableOpacity>
+                    <Text style={styles.sizeValue}>
+                      {entry.size !== null ? t("taxonomy.size", { size: entry.size }) : t("taxonomy.defaultSize")}
+                    </Text>
+                    <TouchableOpacity
+                      style={styles.sizeButton}
+                      onPress={() => changeSize(label, 1)}
+                      accessibilityLabel={t("taxonomy.increaseSize", { label: displayName(label) })}
+                    >
+                      <Text style={styles.chipText}>+</Text>
+                    </TouchableOpacity>
+                  </View>
+                  {renderFlag(label, "announce")}
+                  {renderFlag(label, "vibrate")}
+                  {renderFlag(label, "ignore")}
+                  {!(DEFAULT_TAXONOMY[label] && entry.ignore) && (
+                    <TouchableOpacity
+                      onPress={() => removeLabel(label)}
+                      accessibilityLabel={t("taxonomy.removeHint", { label: displayName(label) })}
+                    >
+                      <Text style={styles.removeText}>{t("taxonomy.remove")}</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              </View>
+            );
+          })}
+        </ScrollView>
+
+        <View style={styles.addRow}>
+          <TextInput
+            style={styles.input}
+            value={newLabel}
+            onChangeText={setNewLabel}
+            placeholder={t("taxonomy.addPlaceholder")}
+            placeholderTextColor="#6B7280"
+            autoCapitalize="none"
+            accessibilityLabel={t("taxonomy.addInputHint")}
+          />
+          <TouchableOpacity style={styles.addButton} onPress={addLabel} accessibilityLabel={t("taxonomy.addHint")}>
+            <Text style={styles.chipText}>{t("taxonomy.add")}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {showImport && (
+          <View>
+            <TextInput
+              style={[styles.input, styles.importInput]}
+              value={importText}
+              onChangeText={setImportText}
+              placeholder={t("taxonomy.importPlaceholder")}
+              placeholderTextColor="#6B7280"
+              multiline
+              autoCapitalize="none"
+              accessibilityLabel={t("taxonomy.importInputHint")}
+            />
+            <TouchableOpacity style={styles.actionButton} onPress={handleImport}>
+              <Text style={styles.chipText}>{t("taxonomy.applyImport")}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.actionButton} onPress={handleExport} accessibilityLabel={t("taxonomy.exportHint")}>
+            <Text style={styles.chipText}>{t("taxonomy.export")}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => setShowImport(!showImport)}
+            accessibilityLabel={t("taxonomy.importHint")}
+          >
+            <Text style={styles.chipText}>{t("taxonomy.import")}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={handleReset} accessibilityLabel={t("taxonomy.resetHint")}>
+            <Text style={styles.chipText}>{t("common.reset")}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity style={styles.doneButton} onPress={onClose} accessibilityLabel={t("taxonomy.closeHint")}>
+          <Text style={styles.doneText}>{t("common.done")}</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#111827",
+    padding: 20,
+    paddingTop: 60,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: "#FFFFFF",
+    marginBottom: 8,
+  },
+  description: {
+    fontSize: 14,
+    color: "#9CA3AF",
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  list: {
+    flex: 1,
+  },
+  row: {
+    backgroundColor: "#1F2937",
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  rowIgnored: {
+    opacity: 0.5,
+  },
+  rowHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+  rawLabel: {
+    fontSize: 13,
+    fontWeight: "400",
+    color: "#9CA3AF",
+  },
+  rowControls: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    gap: 8,
+  },
+  categoryChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  chip: {
+    backgroundColor: "#374151",
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  chipActive: {
+    backgroundColor: "#7C3AED",
+  },
+  chipText: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  sizeControl: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  sizeButton: {
+    backgroundColor: "#374151",
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  sizeValue: {
+    color: "#D1D5DB",
+    fontSize: 13,
+    minWidth: 52,
+    textAlign: "center",
+  },
+  removeText: {
+    color: "#EF4444",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  addRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 12,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: "#374151",
+    color: "#FFFFFF",
+    padding: 12,
+    borderRadius: 12,
+    fontSize: 14,
+    borderWidth: 1,
+    borderColor: "#4B5563",
+  },
+  importInput: {
+    minHeight: 100,
+    marginTop: 12,
+    textAlignVertical: "top",
+  },
+  addButton: {
+    backgroundColor: "#059669",
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    justifyContent: "center",
+  },
+  actions: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    backgroundColor: "#4B5563",
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 8,
+  },
+  doneButton: {
+    padding: 16,
+    alignItems: "center",
+  },
+  doneText: {
+    color: "#3B82F6",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,175 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+} from "react-native";
+import type { ProcessedAlert } from "@/services/APIDetectionService";
+import type { ReplayResult } from "@/services/SessionReplay";
+import { useTranslation } from "@/hooks/useTranslation";
+
+interface SessionReplayViewerProps {
+  visible: boolean;
+  startedAt: number;
+  result: ReplayResult | null;
+  onClose: () => void;
+}
+
+export function SessionReplayViewer({
+  visible,
+  startedAt,
+  result,
+  onClose,
+}: SessionReplayViewerProps) {
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const { t } = useTranslation();
+
+  const frames = (result?.frames ?? []).filter(
+    (frame) => !onlyDifferences || !frame.matches
+  );
+
+  const describeAlerts = (alerts: ProcessedAlert[]) =>
+    alerts.length === 0
+      ? t("replay.noAlert")
+      : alerts.map((alert) => `${t(`haptics.types.${alert.alertType}`)}: ${alert.message}`).join("\n");
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <Text style={styles.title}>{t("replay.title")}</Text>
+        {result && (
+          <Text style={styles.description}>
+            {result.mismatches === 0
+              ? t("replay.allMatch", { count: result.frames.length })
+              : t("replay.summary", {
+                  count: result.mismatches,
+                  frames: result.frames.length,
+                })}
+          </Text>
+        )}
+
+        <TouchableOpacity
+          style={[styles.chip, onlyDifferences && styles.chipActive]}
+          onPress={() => setOnlyDifferences(!onlyDifferences)}
+          accessibilityState={{ selected: onlyDifferences }}
+          accessibilityLabel={t("replay.onlyDifferencesHint")}
+        >
+          <Text style={styles.chipText}>{t("replay.onlyDifferences")}</Text>
+        </TouchableOpacity>
+
+        <ScrollView style={styles.scroll}>
+          {frames.map((frame, index) => (
+            <View
+              key={`${frame.at}_${index}`}
+              style={[styles.frame, !frame.matches && styles.frameDiffers]}
+              accessible
+            >
+              <Text style={styles.frameTime}>
+                {t("replay.frameAt", {
+                  seconds: ((frame.at - startedAt) / 1000).toFixed(1),
+                  source: frame.source ?? t("settings.platform.noneYet"),
+                })}
+                {!frame.matches && ` · ${t("replay.differs")}`}
+              </Text>
+              <Text style={styles.heading}>{t("replay.recorded")}</Text>
+              <Text style={styles.alertText}>{describeAlerts(frame.recorded)}</Text>
+              {!frame.matches && (
+                <>
+                  <Text style={styles.heading}>{t("replay.replayed")}</Text>
+                  <Text style={styles.alertText}>{describeAlerts(frame.replayed)}</Text>
+                </>
+              )}
+            </View>
+          ))}
+          {frames.length === 0 && (
+            <Text style={styles.description}>{t("replay.empty")}</Text>
+          )}
+        </ScrollView>
+
+        <TouchableOpacity style={styles.doneButton} onPress={onClose} accessibilityLabel={t("replay.closeHint")}>
+          <Text style={styles.doneText}>{t("common.done")}</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#111827",
+    padding: 20,
+    paddingTop: 60,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: "#FFFFFF",
+    marginBottom: 8,
+  },
+  description: {
+    fontSize: 14,
+    color: "#9CA3AF",
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  chip: {
+    alignSelf: "flex-start",
+    backgroundColor: "#374151",
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  chipActive: {
+    backgroundColor: "#EA580C",
+  },
+  chipText: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  scroll: {
+    flex: 1,
+  },
+  frame: {
+    backgroundColor: "#1F2937",
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  frameDiffers: {
+    borderColor: "#EF4444",
+  },
+  frameTime: {
+    color: "#D1D5DB",
+    fontSize: 13,
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  heading: {
+    color: "#9CA3AF",
+    fontSize: 12,
+    fontWeight: "600",
+    marginTop: 4,
+  },
+  alertText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  doneButton: {
+    padding: 16,
+    alignItems: "center",
+  },
+  doneText: {
+    color: "#3B82F6",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
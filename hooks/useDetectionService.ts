@@ -0,0 +1,101 @@
+import { useEffect } from 'react';
+import { Platform } from 'react-native';
+import { APIDetectionService } from '@/services/APIDetectionService';
+import { Settings } from '@/hooks/useSettings';
+import { cameraKey, CameraLens, DEFAULT_FOCAL_LENGTH_RATIO, DEFAULT_LENS } from '@/services/CameraCalibration';
+import { systemClock } from '@/services/Clock';
+import { Environment } from '@/services/Environment';
+import { registerBundledModel } from '@/services/backends/bundledModels';
+import { OnDeviceBackend } from '@/services/backends/OnDeviceBackend';
+import { prepareFrame } from '@/services/backends/prepareFrame';
+import cocoSsdLiteShard1 from '@/assets/models/coco-ssd-lite/group1-shard1of5.bin';
+import cocoSsdLiteShard2 from '@/assets/models/coco-ssd-lite/group1-shard2of5.bin';
+import cocoSsdLiteShard3 from '@/assets/models/coco-ssd-lite/group1-shard3of5.bin';
+import cocoSsdLiteShard4 from '@/assets/models/coco-ssd-lite/group1-shard4of5.bin';
+import cocoSsdLiteShard5 from '@/assets/models/coco-ssd-lite/group1-shard5of5.bin';
+
+const appEnvironment: Environment = {
+  clock: systemClock,
+  transport: (url, init) => fetch(url, init),
+  preprocessFrame: prepareFrame,
+  platform: Platform.OS,
+};
+
+// One service per app: tracking history, cooldowns and the API health cache
+// must survive tab switches and be visible from every screen.
+let sharedService: APIDetectionService | null = null;
+
+export function getDetectionService(): APIDetectionService {
+  if (!sharedService) {
+    sharedService = new APIDetectionService(undefined, undefined, appEnvironment);
+    // Registered here rather than by the service: tfjs and the bundled models only load in the app
+    registerBundledModel('coco-ssd-lite', {
+      modelJson: require('@/assets/models/coco-ssd-lite/model.json'),
+      weightAssets: [cocoSsdLiteShard1, cocoSsdLiteShard2, cocoSsdLiteShard3, cocoSsdLiteShard4, cocoSsdLiteShard5],
+    });
+    sharedService.registerBackend(
+      new OnDeviceBackend(sharedService.getServiceStatus().config, appEnvironment)
+    );
+  }
+  return sharedService;
+}
+
+// The camera detection frames come from, so Settings calibrates that one
+let activeLens: CameraLens = DEFAULT_LENS;
+
+export function getActiveLens(): CameraLens {
+  return activeLens;
+}
+
+/**
+ * `lens` is passed by the screen that captures frames: the calibration for
+ * that camera and zoom is the one applied. Other screens leave it out.
+ */
+export function useDetectionService(settings: Settings, lens?: CameraLens) {
+  const service = getDetectionService();
+
+  useEffect(() => {
+    service.updateStepLength(settings.stepLength);
+  }, [settings.stepLength]);
+
+  useEffect(() => {
+    service.updateConfiguration({
+      detectionMode: settings.detectionMode,
+      confidenceThreshold: settings.confidenceThreshold,
+      centerFocusOnly: settings.centerFocusOnly,
+      directionFormat: settings.directionFormat,
+      language: settings.language,
+    });
+  }, [settings.detectionMode, settings.confidenceThreshold, settings.centerFocusOnly, settings.directionFormat, settings.language]);
+
+  const { facing, zoom } = lens ?? {};
+  const calibration = lens ? settings.cameraCalibrations[cameraKey(lens)] : undefined;
+  useEffect(() => {
+    if (!facing || zoom === undefined) return;
+    activeLens = { facing, zoom };
+    service.updateConfiguration({
+      focalLengthRatio: calibration?.focalLengthRatio ?? DEFAULT_FOCAL_LENGTH_RATIO,
+    });
+  }, [facing, zoom, calibration?.focalLengthRatio]);
+
+  useEffect(() => {
+    service.updateTaxonomy(settings.objectTaxonomy);
+  }, [settings.objectTaxonomy]);
+
+  useEffect(() => {
+    service.updateAlertRules(settings.alertRules);
+  }, [settings.alertRules]);
+
+  useEffect(() => {
+    service.updateConfiguration({ cameraHeight: settings.cameraHeight / 100 });
+  }, [settings.cameraHeight]);
+
+  useEffect(() => {
+    service.updateConfiguration({
+      simulationScenario: settings.simulationScenario,
+      simulationSeed: settings.simulationSeed,
+    });
+  }, [settings.simulationScenario, settings.simulationSeed]);
+
+  return service;
+}
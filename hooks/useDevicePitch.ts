@@ -0,0 +1,35 @@
+import { useEffect, useRef } from 'react';
+import { DeviceMotion } from 'expo-sensors';
+
+const UPDATE_INTERVAL_MS = 200;
+
+// Reports how far the back camera points below the horizon, in radians, while
+// `enabled`. The app is portrait-only: upright the camera looks at the horizon
+// (beta = π/2) and lying face up it looks straight down (beta = 0).
+export function useDevicePitch(enabled: boolean, onPitch: (pitch: number | null) => void) {
+  const onPitchRef = useRef(onPitch);
+  onPitchRef.current = onPitch;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let subscription: { remove: () => void } | null = null;
+    let cancelled = false;
+
+    DeviceMotion.isAvailableAsync()
+      .then(available => {
+        if (!available || cancelled) return;
+        DeviceMotion.setUpdateInterval(UPDATE_INTERVAL_MS);
+        subscription = DeviceMotion.addListener(({ rotation }) => {
+          onPitchRef.current(rotation ? Math.PI / 2 - rotation.beta : null);
+        });
+      })
+      .catch(error => console.log('Device motion unavailable:', error));
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+      onPitchRef.current(null);
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,15 @@
+import { EarconPlayer } from '@/services/Earcons';
+
+// Rendered earcons are cached per player, so the whole app shares one
+let sharedPlayer: EarconPlayer | null = null;
+
+export function getEarconPlayer(): EarconPlayer {
+  if (!sharedPlayer) {
+    sharedPlayer = new EarconPlayer();
+  }
+  return sharedPlayer;
+}
+
+export function useEarcons() {
+  return getEarconPlayer();
+}
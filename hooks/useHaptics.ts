@@ -0,0 +1,15 @@
+import { HapticPlayer } from '@/services/HapticPatterns';
+
+// Shared so a pattern started on one screen can be cut short from another
+let sharedPlayer: HapticPlayer | null = null;
+
+export function getHapticPlayer(): HapticPlayer {
+  if (!sharedPlayer) {
+    sharedPlayer = new HapticPlayer();
+  }
+  return sharedPlayer;
+}
+
+export function useHaptics() {
+  return getHapticPlayer();
+}
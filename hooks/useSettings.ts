@@ -1,53 +1,130 @@
 import { useState, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { CameraCalibration } from '@/services/CameraCalibration';
+import { DEFAULT_TAXONOMY, ObjectTaxonomy, withDefaultTaxonomy } from '@/services/ObjectTaxonomy';
+import { AlertRule, DEFAULT_ALERT_RULES, withValidRules } from '@/services/AlertRules';
+import type { DirectionFormat } from '@/services/Directions';
+import type { LanguageSetting } from '@/services/i18n';
+import { DEFAULT_SCENARIO } from '@/services/scenarios';
+import {
+  DEFAULT_HAPTIC_PATTERNS,
+  HapticPatterns,
+  withDefaultHapticPatterns,
+} from '@/services/HapticPatterns';
 
 export interface Settings {
   stepLength: number;
   audioEnabled: boolean;
+  feedbackMode: 'speech' | 'sonar' | 'speechAndSonar'; // sonar: a tone for the nearest obstacle
   hapticEnabled: boolean;
+  hapticPatterns: HapticPatterns; // per alert type and side of the obstacle
   sensitivity: number;
   announcementDelay: number; // seconds between alerts for same object type
   detectionMode: 'ai' | 'simulation' | 'hybrid';
+  simulationScenario: string; // bundled scenario id, or 'random'
+  simulationSeed: number; // same seed, same simulated frames
   confidenceThreshold: number;
   centerFocusOnly: boolean;
-  spatialAudio: boolean;
+  spatialAudio: boolean; // panned earcons placed where each obstacle is
+  spatialAudioMode: 'beforeSpeech' | 'insteadOfSpeech';
+  cameraCalibrations: Record<string, CameraCalibration>; // keyed by cameraKey()
+  cameraHeight: number; // centimeters between the phone and the ground
+  objectTaxonomy: ObjectTaxonomy; // per-label category, size and feedback
+  alertRules: AlertRule[];
+  alertRulePreset: string; // RULE_PRESETS id, or 'custom' once edited
+  directionFormat: DirectionFormat;
+  language: LanguageSetting; // 'system' follows the device languages
+  speechRate: number; // 1.0 is the platform's normal speed
+  speechPitch: number;
+  speechVoice: string | null; // voice identifier, null for the language's default
+  recordSessions: boolean; // save detection sessions so reported misses can be replayed
 }
 
 const defaultSettings: Settings = {
   stepLength: 65, // centimeters
   audioEnabled: true,
+  feedbackMode: 'speech',
   hapticEnabled: true,
+  hapticPatterns: DEFAULT_HAPTIC_PATTERNS,
   sensitivity: 0.7,
   announcementDelay: 4.0, // 4 seconds cooldown for better filtering
   detectionMode: 'hybrid', // Use AI when available, fallback to simulation
+  simulationScenario: DEFAULT_SCENARIO,
+  simulationSeed: 1,
   confidenceThreshold: 0.6,
   centerFocusOnly: true,
   spatialAudio: false,
+  spatialAudioMode: 'beforeSpeech',
+  cameraCalibrations: {},
+  cameraHeight: 130, // phone held at chest height
+  objectTaxonomy: DEFAULT_TAXONOMY,
+  alertRules: DEFAULT_ALERT_RULES,
+  alertRulePreset: 'standard',
+  directionFormat: 'leftRight',
+  language: 'system',
+  speechRate: 0.85,
+  speechPitch: 1.0,
+  speechVoice: null,
+  recordSessions: false,
 };
 
 const SETTINGS_KEY = 'stepsight_settings_v2';
 
+// Settings are shared between all screens: the tabs stay mounted, so a change
+// made on the Settings tab has to reach the camera screen without a reload.
+let sharedSettings: Settings = defaultSettings;
+let sharedLoad: Promise<void> | null = null;
+let settingsLoaded = false;
+const listeners = new Set<(settings: Settings) => void>();
+
+function publishSettings(settings: Settings) {
+  sharedSettings = settings;
+  listeners.forEach(listener => listener(settings));
+}
+
 export function useSettings() {
-  const [settings, setSettings] = useState<Settings>(defaultSettings);
-  const [isLoading, setIsLoading] = useState(true);
+  const [settings, setSettings] = useState<Settings>(sharedSettings);
+  const [isLoading, setIsLoading] = useState(!settingsLoaded);
 
   useEffect(() => {
+    listeners.add(setSettings);
+    setSettings(sharedSettings);
     loadSettings();
+
+    return () => {
+      listeners.delete(setSettings);
+    };
   }, []);
 
   const loadSettings = async () => {
+    if (!sharedLoad) {
+      sharedLoad = (async () => {
+        try {
+          const savedSettings = await AsyncStorage.getItem(SETTINGS_KEY);
+          if (savedSettings) {
+            const parsed = JSON.parse(savedSettings);
+            // Merge with defaults to handle new settings
+            publishSettings({
+              ...defaultSettings,
+              ...parsed,
+              objectTaxonomy: withDefaultTaxonomy(parsed.objectTaxonomy),
+              hapticPatterns: withDefaultHapticPatterns(parsed.hapticPatterns),
+              alertRules: withValidRules(parsed.alertRules),
+            });
+          }
+        } catch (error) {
+          console.log('Error loading settings:', error);
+          // Use defaults on error
+          publishSettings(defaultSettings);
+        } finally {
+          settingsLoaded = true;
+        }
+      })();
+    }
+
     try {
       setIsLoading(true);
-      const savedSettings = await AsyncStorage.getItem(SETTINGS_KEY);
-      if (savedSettings) {
-        const parsed = JSON.parse(savedSettings);
-        // Merge with defaults to handle new settings
-        setSettings({ ...defaultSettings, ...parsed });
-      }
-    } catch (error) {
-      console.log('Error loading settings:', error);
-      // Use defaults on error
-      setSettings(defaultSettings);
+      await sharedLoad;
     } finally {
       setIsLoading(false);
     }
@@ -55,8 +132,8 @@ export function useSettings() {
 
   const updateSettings = async (newSettings: Partial<Settings>) => {
     try {
-      const updatedSettings = { ...settings, ...newSettings };
-      setSettings(updatedSettings);
+      const updatedSettings = { ...sharedSettings, ...newSettings };
+      publishSettings(updatedSettings);
       await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(updatedSettings));
     } catch (error) {
       console.log('Error saving settings:', error);
@@ -65,7 +142,7 @@ export function useSettings() {
 
   const resetSettings = async () => {
     try {
-      setSettings(defaultSettings);
+      publishSettings(defaultSettings);
       await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(defaultSettings));
     } catch (error) {
       console.log('Error resetting settings:', error);
@@ -84,7 +161,13 @@ export function useSettings() {
   const importSettings = async (settingsJson: string): Promise<boolean> => {
     try {
       const importedSettings = JSON.parse(settingsJson);
-      const validatedSettings = { ...defaultSettings, ...importedSettings };
+      const validatedSettings = {
+        ...defaultSettings,
+        ...importedSettings,
+        objectTaxonomy: withDefaultTaxonomy(importedSettings.objectTaxonomy),
+        hapticPatterns: withDefaultHapticPatterns(importedSettings.hapticPatterns),
+        alertRules: withValidRules(importedSettings.alertRules),
+      };
       await updateSettings(validatedSettings);
       return true;
     } catch (error) {
@@ -101,4 +184,4 @@ export function useSettings() {
     importSettings,
     isLoading,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,35 @@
+import { useEffect } from 'react';
+import { SpeechQueue } from '@/services/SpeechQueue';
+import { useSettings } from '@/hooks/useSettings';
+import { useTranslation } from '@/hooks/useTranslation';
+
+// One queue per app, so screens can't talk over each other
+let sharedQueue: SpeechQueue | null = null;
+
+export function getSpeechQueue(): SpeechQueue {
+  if (!sharedQueue) {
+    sharedQueue = new SpeechQueue();
+  }
+  return sharedQueue;
+}
+
+export function useSpeech() {
+  const queue = getSpeechQueue();
+  const { settings } = useSettings();
+  const { speechLanguage } = useTranslation();
+
+  useEffect(() => {
+    queue.configure({
+      rate: settings.speechRate,
+      pitch: settings.speechPitch,
+      voice: settings.speechVoice,
+      language: speechLanguage,
+    });
+  }, [settings.speechRate, settings.speechPitch, settings.speechVoice, speechLanguage]);
+
+  useEffect(() => {
+    if (!settings.audioEnabled) queue.stop();
+  }, [settings.audioEnabled]);
+
+  return queue;
+}
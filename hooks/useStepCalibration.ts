@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from 'react';
+import { analyzeWalk, CalibrationResult, StepCounter } from '@/services/StepCalibration';
+
+// Counts steps between start() and finish() and turns them into a step length
+export function useStepCalibration() {
+  const [counter] = useState(() => new StepCounter());
+  const [walking, setWalking] = useState(false);
+  const [steps, setSteps] = useState(0);
+
+  useEffect(() => () => void counter.stop(), [counter]);
+
+  // Resolves false when the device has no step sensor
+  const start = useCallback(async (): Promise<boolean> => {
+    setSteps(0);
+    const started = await counter.start(setSteps);
+    if (!started) counter.stop();
+    setWalking(started);
+    return started;
+  }, [counter]);
+
+  const finish = useCallback(
+    (distance: number): CalibrationResult => {
+      setWalking(false);
+      return analyzeWalk(distance, counter.stop());
+    },
+    [counter]
+  );
+
+  const cancel = useCallback(() => {
+    setWalking(false);
+    counter.stop();
+  }, [counter]);
+
+  return { walking, steps, start, finish, cancel };
+}
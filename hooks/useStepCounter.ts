@@ -0,0 +1,33 @@
+import { useEffect, useRef } from 'react';
+import { StepCounter } from '@/services/StepCalibration';
+
+// Reports each batch of new steps while `enabled`. Pedometers deliver steps
+// in bursts, so `onSteps` may be called with more than one at a time.
+export function useStepCounter(enabled: boolean, onSteps: (steps: number) => void) {
+  const onStepsRef = useRef(onSteps);
+  onStepsRef.current = onSteps;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const counter = new StepCounter();
+    let counted = 0;
+    let cancelled = false;
+
+    counter
+      .start(total => {
+        if (cancelled || total <= counted) return;
+        const steps = total - counted;
+        counted = total;
+        onStepsRef.current(steps);
+      })
+      .then(started => {
+        if (cancelled || !started) counter.stop();
+      });
+
+    return () => {
+      cancelled = true;
+      counter.stop();
+    };
+  }, [enabled]);
+}
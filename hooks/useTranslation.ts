@@ -0,0 +1,9 @@
+import { useMemo } from 'react';
+import { useSettings } from '@/hooks/useSettings';
+import { createTranslator, Translator } from '@/services/i18n';
+
+// Messages in the language chosen in Settings, re-created when it changes
+export function useTranslation(): Translator {
+  const { settings } = useSettings();
+  return useMemo(() => createTranslator(settings.language), [settings.language]);
+}
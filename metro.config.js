@@ -0,0 +1,8 @@
+const { getDefaultConfig } = require('expo/metro-config');
+
+const config = getDefaultConfig(__dirname);
+
+// Weight shards of the bundled detection model (assets/models)
+config.resolver.assetExts.push('bin');
+
+module.exports = config;
@@ -0,0 +1,57 @@
+import type { APIDetectionResponse } from '../services/APIDetectionService';
+import { parseDetectionResponse } from '../services/backends/detectionResponse';
+
+/**
+ * One frame of detector output per JSON line: a /detect response plus
+ * optional fields for the headless runner.
+ *
+ *   {"at": 1200, "image_width": 480, "image_height": 640, "pitch": 0.3, "steps": 2,
+ *    "detections": [{"label": "chair", "confidence": 0.9, "bbox": [200, 300, 280, 460]}]}
+ *
+ * `at` is milliseconds since the start, `pitch` radians below the horizon
+ * and `steps` the steps walked since the previous line.
+ */
+export interface FrameLine extends Partial<APIDetectionResponse> {
+  at?: number;
+  pitch?: number | null;
+  steps?: number;
+}
+
+export function parseFrameLine(line: string, lineNumber: number): FrameLine {
+  let frame: FrameLine;
+  try {
+    frame = JSON.parse(line);
+  } catch (error) {
+    throw new Error(`line ${lineNumber}: ${(error as Error).message}`);
+  }
+  // Same checks as a server's /detect response, so bad boxes fail here instead of as NaN steps
+  try {
+    parseDetectionResponse(frame);
+  } catch (error) {
+    throw new Error(`line ${lineNumber}: ${(error as Error).message}`);
+  }
+  const notNumber = (['at', 'steps', 'pitch'] as const).find(
+    key => frame[key] != null && !(typeof frame[key] === 'number' && isFinite(frame[key]))
+  );
+  if (notNumber) {
+    throw new Error(`line ${lineNumber}: "${notNumber}" must be a number`);
+  }
+  return frame;
+}
+
+// Blank lines are skipped; errors name the line they're on
+export function parseFrameLines(text: string): FrameLine[] {
+  return text
+    .split('\n')
+    .map((line, index) => (line.trim() ? parseFrameLine(line, index + 1) : null))
+    .filter((frame): frame is FrameLine => frame !== null);
+}
+
+export function toResponse(frame: FrameLine): APIDetectionResponse {
+  return {
+    detections: frame.detections!,
+    image_width: frame.image_width!,
+    image_height: frame.image_height!,
+    processing_time: frame.processing_time ?? 0,
+  };
+}
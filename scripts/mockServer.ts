@@ -0,0 +1,344 @@
+/**
+ * A stand-in for the FastAPI detection server, for developing without the
+ * real model. Answers GET /health and POST /detect with the same schema,
+ * serving a bundled scenario, a JSON-lines file of frames (see frameLines.ts)
+ * or the frames of a recorded session, and can inject faults so the app's
+ * fallback paths can be exercised:
+ *
+ *   npm run mock-server -- [--scenario hallway-walk | --frames f.jsonl | --session s.json]
+ *     [--latency ms] [--jitter ms] [--error-rate 0-1] [--timeout-rate 0-1] [--malformed-rate 0-1]
+ *
+ * Faults can be changed while it runs, e.g. to take the "server" down:
+ *
+ *   curl -X POST localhost:8000/mock/faults -d '{"errorRate": 1}'
+ *
+ * There is no /ws/detect stream, and /health doesn't advertise one, so the app stays on HTTP.
+ */
+import { readFileSync } from 'fs';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import type { APIDetectionResponse } from '../services/APIDetectionService';
+import { DEFAULT_FOCAL_LENGTH_RATIO } from '../services/DistanceEstimator';
+import { DEFAULT_OBJECT_SIZE, DEFAULT_TAXONOMY } from '../services/ObjectTaxonomy';
+import { seededRandom } from '../services/Random';
+import { CameraModel, ScenarioPlayer } from '../services/Scenario';
+import { findScenario, SCENARIOS } from '../services/scenarios';
+import type { SessionFile } from '../services/SessionRecorder';
+import { parseFrameLines, toResponse } from './frameLines';
+
+interface Faults {
+  latency: number; // milliseconds added to every response
+  jitter: number; // up to this many milliseconds more, at random
+  errorRate: number; // chance of a 500
+  timeoutRate: number; // chance of never answering
+  malformedRate: number; // chance of a body the app can't use
+}
+
+interface Options extends Faults {
+  host: string;
+  port: number;
+  scenario: string;
+  frames: string | null;
+  session: string | null;
+  seed: number;
+  cameraHeight: number; // meters, for projecting scenarios
+  maxFps: number | null; // advertised on /health
+}
+
+// What answers /detect: the next frame, and every label it can produce
+interface DetectionSource {
+  description: string;
+  labels: string[];
+  next(): APIDetectionResponse;
+}
+
+const HANG_MS = 120000; // requests "timing out" are dropped after this, so sockets don't pile up
+const MALFORMED_KINDS = ['truncated', 'wrong-shape', 'bad-bbox', 'html'] as const;
+type MalformedKind = typeof MALFORMED_KINDS[number];
+
+const USAGE =
+  'Usage: npm run mock-server -- [--scenario id | --frames frames.jsonl | --session session.json]\n' +
+  '         [--port 8000] [--host 127.0.0.1] [--seed n] [--camera-height m] [--max-fps n]\n' +
+  '         [--latency ms] [--jitter ms] [--error-rate 0-1] [--timeout-rate 0-1] [--malformed-rate 0-1]\n' +
+  `Scenarios: ${SCENARIOS.map(scenario => scenario.id).join(', ')}`;
+
+function parseArgs(args: string[]): Options {
+  const options: Options = {
+    host: '127.0.0.1',
+    port: 8000,
+    scenario: 'hallway-walk',
+    frames: null,
+    session: null,
+    seed: 1,
+    cameraHeight: 1.3,
+    maxFps: null,
+    latency: 0,
+    jitter: 0,
+    errorRate: 0,
+    timeoutRate: 0,
+    malformedRate: 0,
+  };
+
+  const number = (flag: string, value: string | undefined, max = Infinity) => {
+    const parsed = Number(value);
+    if (value === undefined || !isFinite(parsed) || parsed < 0 || parsed > max) {
+      throw new Error(`${flag} needs a number from 0${max < Infinity ? ` to ${max}` : ''}`);
+    }
+    return parsed;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = args[++i];
+    switch (arg) {
+      case '--host': options.host = value ?? options.host; break;
+      case '--port': options.port = number(arg, value); break;
+      case '--scenario': options.scenario = value ?? options.scenario; break;
+      case '--frames': options.frames = value ?? null; break;
+      case '--session': options.session = value ?? null; break;
+      case '--seed': options.seed = number(arg, value); break;
+      case '--camera-height': options.cameraHeight = number(arg, value); break;
+      case '--max-fps': options.maxFps = number(arg, value) || null; break;
+      case '--latency': options.latency = number(arg, value); break;
+      case '--jitter': options.jitter = number(arg, value); break;
+      case '--error-rate': options.errorRate = number(arg, value, 1); break;
+      case '--timeout-rate': options.timeoutRate = number(arg, value, 1); break;
+      case '--malformed-rate': options.malformedRate = number(arg, value, 1); break;
+      default:
+        throw new Error(`Unexpected argument ${arg}`);
+    }
+  }
+  return options;
+}
+
+function labelsOf(responses: APIDetectionResponse[]): string[] {
+  return Array.from(new Set(responses.flatMap(response => response.detections.map(d => d.label))));
+}
+
+// Recorded frames are served in order, starting over after the last
+function recordedSource(description: string, responses: APIDetectionResponse[]): DetectionSource {
+  if (responses.length === 0) {
+    throw new Error(`${description} has no frames with detector output`);
+  }
+  let index = 0;
+  return {
+    description: `${description} (${responses.length} frames)`,
+    labels: labelsOf(responses),
+    next: () => responses[index++ % responses.length],
+  };
+}
+
+// Plays from the first request on, in real time
+function scenarioSource(id: string, seed: number, camera: CameraModel): DetectionSource {
+  const scenario = findScenario(id);
+  if (!scenario) {
+    throw new Error(`Unknown scenario "${id}"`);
+  }
+  const player = new ScenarioPlayer(scenario, seed);
+  const objectHeight = (label: string) => DEFAULT_TAXONOMY[label]?.size ?? DEFAULT_OBJECT_SIZE;
+  let startedAt: number | null = null;
+  return {
+    description: `scenario ${scenario.id} (${scenario.name}), seed ${seed}`,
+    labels: Array.from(new Set(scenario.objects.map(object => object.label))),
+    next: () => {
+      startedAt ??= Date.now();
+      return player.frame((Date.now() - startedAt) / 1000, camera, objectHeight);
+    },
+  };
+}
+
+function createSource(options: Options): DetectionSource {
+  if (options.frames) {
+    return recordedSource(options.frames, parseFrameLines(readFileSync(options.frames, 'utf8')).map(toResponse));
+  }
+  if (options.session) {
+    const session: SessionFile = JSON.parse(readFileSync(options.session, 'utf8'));
+    const responses = session.events.flatMap(event =>
+      event.type === 'frame' && event.frame.input.response ? [event.frame.input.response] : []
+    );
+    return recordedSource(`session ${session.id}`, responses);
+  }
+  return scenarioSource(options.scenario, options.seed, {
+    focalLengthRatio: DEFAULT_FOCAL_LENGTH_RATIO,
+    height: options.cameraHeight,
+    pitch: null,
+  });
+}
+
+function readBody(request: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+}
+
+// The threshold comes in the JSON body, or the query for binary uploads
+function confidenceThreshold(request: IncomingMessage, url: URL, body: Buffer): number {
+  if (request.headers['content-type']?.startsWith('application/json')) {
+    try {
+      const threshold = JSON.parse(body.toString('utf8')).confidence_threshold;
+      if (typeof threshold === 'number') return threshold;
+    } catch {
+      // The real server would answer 422; serving everything is more useful here
+    }
+  }
+  return Number(url.searchParams.get('confidence_threshold')) || 0;
+}
+
+function malformedBody(kind: MalformedKind, response: APIDetectionResponse): { contentType: string; body: string } {
+  switch (kind) {
+    case 'truncated': {
+      const json = JSON.stringify(response);
+      return { contentType: 'application/json', body: json.slice(0, Math.floor(json.length / 2)) };
+    }
+    case 'wrong-shape':
+      return {
+        contentType: 'application/json',
+        body: JSON.stringify({ results: response.detections, width: String(response.image_width) }),
+      };
+    case 'bad-bbox':
+      return {
+        contentType: 'application/json',
+        body: JSON.stringify({
+          ...response,
+          detections: response.detections.map(detection => ({ ...detection, bbox: detection.bbox.slice(0, 2) })),
+        }),
+      };
+    case 'html':
+      return { contentType: 'text/html', body: '<html><body><h1>502 Bad Gateway</h1></body></html>' };
+  }
+}
+
+function main(options: Options) {
+  const faults: Faults = {
+    latency: options.latency,
+    jitter: options.jitter,
+    errorRate: options.errorRate,
+    timeoutRate: options.timeoutRate,
+    malformedRate: options.malformedRate,
+  };
+  const source = createSource(options);
+  const random = seededRandom(options.seed); // same seed, same sequence of faults
+
+  const send = (response: ServerResponse, status: number, contentType: string, body: string) => {
+    response.writeHead(status, { 'Content-Type': contentType });
+    response.end(body);
+  };
+  const sendJson = (response: ServerResponse, status: number, body: unknown) =>
+    send(response, status, 'application/json', JSON.stringify(body));
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url ?? '/', 'http://mock');
+    const route = `${request.method} ${url.pathname}`;
+    const body = await readBody(request);
+    const startedAt = Date.now();
+    const log = (outcome: string) => console.log(`📡 ${route} → ${outcome} (${Date.now() - startedAt} ms)`);
+
+    if (route === 'POST /mock/faults') {
+      try {
+        const update = JSON.parse(body.toString('utf8') || '{}');
+        (Object.keys(faults) as (keyof Faults)[]).forEach(key => {
+          if (typeof update[key] === 'number') faults[key] = update[key];
+        });
+      } catch (error) {
+        sendJson(response, 400, { detail: String(error) });
+        return;
+      }
+      console.log(`🧪 Faults now ${JSON.stringify(faults)}`);
+      sendJson(response, 200, faults);
+      return;
+    }
+    if (route !== 'GET /health' && route !== 'POST /detect') {
+      sendJson(response, 404, { detail: 'Not Found' });
+      log('404');
+      return;
+    }
+
+    // Drawn up front so the sequence doesn't depend on which faults are enabled
+    const hang = random.chance(faults.timeoutRate);
+    const fail = random.chance(faults.errorRate);
+    const malformed = random.chance(faults.malformedRate);
+    const malformedKind = random.pick(MALFORMED_KINDS);
+    const delay = faults.latency + random.next() * faults.jitter;
+
+    if (hang) {
+      // Never answer; the app's own timeout has to give up
+      const timer = setTimeout(() => response.destroy(), HANG_MS);
+      response.on('close', () => {
+        clearTimeout(timer);
+        log('⏳ no answer');
+      });
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, delay));
+
+    if (fail) {
+      sendJson(response, 500, { detail: 'Injected server error' });
+      log('💥 500');
+      return;
+    }
+
+    if (route === 'GET /health') {
+      const health = {
+        status: 'ok',
+        model: { name: 'mock', version: '1.0.0' },
+        labels: source.labels,
+        input_size: [640, 480],
+        supported_encodings: ['octet-stream', 'multipart', 'json'],
+        max_fps: options.maxFps ?? undefined,
+      };
+      if (malformed) {
+        send(response, 200, 'text/html', '<html><body>ok</body></html>');
+        log('🧪 200, not JSON');
+      } else {
+        sendJson(response, 200, health);
+        log('200');
+      }
+      return;
+    }
+
+    const threshold = confidenceThreshold(request, url, body);
+    const frame = source.next();
+    const detectionResponse: APIDetectionResponse = {
+      ...frame,
+      detections: frame.detections.filter(detection => detection.confidence >= threshold),
+      processing_time: (Date.now() - startedAt) / 1000,
+    };
+
+    if (malformed) {
+      const { contentType, body: malformedText } = malformedBody(malformedKind, detectionResponse);
+      send(response, 200, contentType, malformedText);
+      log(`🧪 200, ${malformedKind}`);
+      return;
+    }
+    sendJson(response, 200, detectionResponse);
+    const count = detectionResponse.detections.length;
+    log(`200, ${count} detection${count === 1 ? '' : 's'}`);
+  };
+
+  const server = createServer((request, response) => {
+    handle(request, response).catch(error => {
+      console.error('🚨 Mock server error:', error);
+      if (!response.headersSent) sendJson(response, 500, { detail: String(error) });
+    });
+  });
+
+  server.on('error', error => {
+    console.error(`🚨 ${error.message}`);
+    process.exitCode = 1;
+  });
+  server.listen(options.port, options.host, () => {
+    console.log(`✅ Mock detection server on http://${options.host}:${options.port}`);
+    console.log(`🎬 Serving ${source.description}`);
+    console.log(`🧪 Faults ${JSON.stringify(faults)}`);
+  });
+}
+
+try {
+  main(parseArgs(process.argv.slice(2)));
+} catch (error) {
+  console.error(`🚨 ${(error as Error).message}`);
+  console.error(USAGE);
+  process.exitCode = 1;
+}
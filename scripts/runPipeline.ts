@@ -0,0 +1,164 @@
+/**
+ * Runs the detection pipeline outside the app: reads detector output as JSON
+ * lines, one frame per line, and prints the alerts the app would give for it
+ * after tracking, clustering and temporal filtering.
+ *
+ *   npm run pipeline -- frames.jsonl [--json] [--language es] [--step-length 70]
+ *
+ * Lines are in the format described in frameLines.ts; frames without an
+ * `at` follow the previous one by --interval. Use - to read from stdin.
+ */
+import { readFileSync } from 'fs';
+import { APIDetectionService, ProcessedAlert } from '../services/APIDetectionService';
+import { VirtualClock } from '../services/Clock';
+import { headlessEnvironment } from '../services/Environment';
+import { LANGUAGE_IDS, LanguageSetting } from '../services/i18n/translator';
+import { parseFrameLines, toResponse } from './frameLines';
+
+interface Options {
+  file: string;
+  json: boolean;
+  language: LanguageSetting;
+  stepLength: number; // centimeters
+  cameraHeight: number; // meters
+  interval: number; // milliseconds between frames without an `at`
+  platform: string; // vibration is only offered off the web
+}
+
+const USAGE =
+  'Usage: npm run pipeline -- <frames.jsonl | -> [--json] [--language en|es|ar|system]\n' +
+  '         [--step-length cm] [--camera-height m] [--interval ms] [--platform ios|android|web]';
+
+function parseArgs(args: string[]): Options {
+  const options: Options = {
+    file: '',
+    json: false,
+    language: 'en',
+    stepLength: 65,
+    cameraHeight: 1.3,
+    interval: 200,
+    platform: 'ios',
+  };
+
+  const number = (flag: string, value: string | undefined) => {
+    const parsed = Number(value);
+    if (value === undefined || !isFinite(parsed) || parsed <= 0) {
+      throw new Error(`${flag} needs a positive number`);
+    }
+    return parsed;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--json':
+        options.json = true;
+        break;
+      case '--language': {
+        const language = args[++i];
+        if (language !== 'system' && !LANGUAGE_IDS.includes(language as never)) {
+          throw new Error(`--language must be one of ${[...LANGUAGE_IDS, 'system'].join(', ')}`);
+        }
+        options.language = language as LanguageSetting;
+        break;
+      }
+      case '--step-length':
+        options.stepLength = number(arg, args[++i]);
+        break;
+      case '--camera-height':
+        options.cameraHeight = number(arg, args[++i]);
+        break;
+      case '--interval':
+        options.interval = number(arg, args[++i]);
+        break;
+      case '--platform':
+        options.platform = args[++i] ?? options.platform;
+        break;
+      default:
+        if (arg.startsWith('--') || options.file) {
+          throw new Error(`Unexpected argument ${arg}`);
+        }
+        options.file = arg;
+    }
+  }
+
+  if (!options.file) {
+    throw new Error('No input file');
+  }
+  return options;
+}
+
+function describeAlert(alert: ProcessedAlert): string {
+  const feedback = [alert.shouldAnnounce && 'announce', alert.shouldVibrate && 'vibrate']
+    .filter(Boolean)
+    .join(', ');
+  return `  [${alert.alertType}] ${alert.message}${feedback ? ` (${feedback})` : ''}`;
+}
+
+function alertSummary(alert: ProcessedAlert) {
+  const { detection } = alert;
+  return {
+    alertType: alert.alertType,
+    message: alert.message,
+    priority: alert.priority,
+    shouldAnnounce: alert.shouldAnnounce,
+    shouldVibrate: alert.shouldVibrate,
+    label: detection.label,
+    id: detection.id,
+    memberIds: detection.memberIds,
+    steps: detection.steps,
+    distance: detection.distance,
+    x: detection.x,
+    isMoving: detection.isMoving,
+    timeToCollision: detection.timeToCollision,
+  };
+}
+
+function run(options: Options) {
+  const clock = new VirtualClock(0);
+  const service = new APIDetectionService(options.stepLength, undefined, {
+    ...headlessEnvironment,
+    clock,
+    platform: options.platform,
+    offline: true,
+  });
+  service.updateConfiguration({ language: options.language, cameraHeight: options.cameraHeight });
+
+  const text = readFileSync(options.file === '-' ? 0 : options.file, 'utf8');
+  let at = -options.interval;
+
+  parseFrameLines(text).forEach((frame, index) => {
+    const frameNumber = index + 1;
+    at = frame.at ?? at + options.interval;
+    clock.set(at);
+
+    if (frame.steps) {
+      service.recordSteps(frame.steps);
+    }
+    if (frame.pitch !== undefined) {
+      service.updateDevicePitch(frame.pitch, at);
+    }
+
+    const response = toResponse(frame);
+    const alerts = service.processRecordedFrame({ response, convertedAt: at });
+
+    if (options.json) {
+      console.log(JSON.stringify({ frame: frameNumber, at, alerts: alerts.map(alertSummary) }));
+      return;
+    }
+    const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+    console.log(
+      `frame ${frameNumber} at ${(at / 1000).toFixed(2)}s: ` +
+        `${count(response.detections.length, 'detection')}, ${count(alerts.length, 'alert')}`
+    );
+    alerts.forEach(alert => console.log(describeAlert(alert)));
+  });
+}
+
+try {
+  run(parseArgs(process.argv.slice(2)));
+} catch (error) {
+  console.error(`🚨 ${(error as Error).message}`);
+  console.error(USAGE);
+  process.exitCode = 1;
+}
@@ -1,5 +1,42 @@
-import { Platform } from 'react-native';
-import * as ImageManipulator from 'expo-image-manipulator';
+import {
+  BackendHealth,
+  DetectionBackend,
+  DetectionBackendRegistry,
+  DetectionContext,
+  DetectionFrame,
+} from './DetectionBackend';
+import { FastAPIBackend } from './backends/FastAPIBackend';
+import { ObjectCategory, ServerCapabilities } from './backends/serverCapabilities';
+import { SimulationBackend } from './backends/SimulationBackend';
+import { DEFAULT_SCENARIO } from './scenarios';
+import { ObjectTracker } from './ObjectTracker';
+import { DeadReckoning } from './DeadReckoning';
+import { Clock } from './Clock';
+import { Environment, headlessEnvironment } from './Environment';
+import { DEFAULT_FOCAL_LENGTH_RATIO, DistanceEstimator } from './DistanceEstimator';
+import {
+  bearingFromX,
+  clockHour,
+  DEFAULT_FRAME_ASPECT,
+  DirectionFormat,
+  DirectionSide,
+  formatDirection,
+  sideOf,
+} from './Directions';
+import {
+  AlertRule,
+  AlertType,
+  DEFAULT_ALERT_RULES,
+  evaluateRules,
+  RuleEvaluation,
+} from './AlertRules';
+import {
+  categoriesOf,
+  DEFAULT_OBJECT_SIZE,
+  DEFAULT_TAXONOMY,
+  ObjectTaxonomy,
+} from './ObjectTaxonomy';
+import { createTranslator, LanguageSetting, Translator } from './i18n/translator';
 
 export interface APIDetection {
   label: string;
@@ -15,18 +52,24 @@ export interface APIDetectionResponse {
 }
 
 export interface Detection {
-  id: string;
+  id: string; // track ID once tracked, stable across frames
+  trackId?: string;
+  memberIds?: string[]; // track IDs merged into a cluster
   label: string;
   confidence: number;
-  distance: number; // in meters
+  distance: number; // in meters, fused from the estimates below
+  distanceEstimates?: { sizeBased?: number; groundPlane?: number; deadReckoned?: number };
   steps: number;
   x: number; // 0-1 normalized position (center)
+  bearing?: number; // degrees from straight ahead, negative to the left
   y: number; // 0-1 normalized position (center)
   width: number; // 0-1 normalized width
   height: number; // 0-1 normalized height
   timestamp: number;
   isMoving?: boolean;
   velocity?: number; // m/s
+  timeToCollision?: number; // seconds, only set for objects getting closer
+  onCollisionCourse?: boolean; // projected to be in the walking path at contact
   boundingBox: {
     x: number;
     y: number;
@@ -42,25 +85,96 @@ export interface ProcessedAlert {
   shouldVibrate: boolean;
   message: string;
   suppressUntil?: number;
-  alertType: 'urgent' | 'warning' | 'info';
+  alertType: AlertType;
 }
 
+export type DetectionMode = 'ai' | 'simulation' | 'hybrid';
+
+// What a backend handed the pipeline for one frame: the raw server-style
+// response when it produced one, otherwise its detections
+export interface FrameInput {
+  response?: APIDetectionResponse;
+  convertedAt?: number; // when the response was turned into detections
+  detections?: Detection[];
+}
+
+export interface RecordedFrame {
+  at: number; // when the pipeline ran
+  source: string | null;
+  input: FrameInput;
+  devicePitch: { pitch: number | null; updatedAt: number };
+  alerts: ProcessedAlert[];
+}
+
+// Receives everything that changes the pipeline's state, for session recording
+export interface PipelineObserver {
+  onFrame(frame: RecordedFrame): void;
+  onSteps(steps: number, at: number): void;
+}
+
+// Everything besides the frames themselves that decides what the pipeline alerts on
+export interface PipelineSettings {
+  stepLength: number;
+  config: DetectionServiceConfig;
+  taxonomy: ObjectTaxonomy;
+  alertRules: AlertRule[];
+  serverCategories: Record<string, ObjectCategory>; // categories the server reported for labels
+}
+
+export interface DetectionServiceOptions extends Environment {
+  offline: boolean; // don't contact the server on startup, e.g. when replaying
+}
+
+// The parts of a detection the Settings rule tester lets the user set
+export type RuleTestSample = Pick<
+  Detection,
+  'label' | 'steps' | 'confidence' | 'x' | 'isMoving' | 'velocity' | 'timeToCollision' | 'onCollisionCourse'
+>;
+
+// Backends tried in order for each mode; the first available one wins
+const DEFAULT_MODE_BACKENDS: Record<DetectionMode, string[]> = {
+  ai: ['fastapi', 'on-device'],
+  simulation: ['simulation'],
+  hybrid: ['fastapi', 'on-device', 'simulation'],
+};
+
+// Straight ahead first: it's what the user walks into
+const SCENE_REGION_ORDER: DirectionSide[] = ['center', 'left', 'right'];
+
 export interface DetectionServiceConfig {
   apiUrl: string;
+  detectionMode: DetectionMode;
   confidenceThreshold: number;
   maxRetries: number;
   timeoutMs: number;
   centerFocusOnly: boolean;
+  onDeviceModelUrl: string; // model.json URL, or bundle://<name> for a model shipped with the app
+  streamingEnabled: boolean; // stream frames over /ws/detect, falling back to HTTP POST
+  focalLengthRatio: number; // camera focal length in pixels / longer image side
+  cameraHeight: number; // meters between the phone and the ground
+  directionFormat: DirectionFormat; // how directions are spoken and labeled
+  language: LanguageSetting; // language of announcements and scene summaries
+  simulationScenario: string; // what simulation plays: a bundled scenario id, or 'random'
+  simulationSeed: number;
 }
 
 export class APIDetectionService {
   private stepLength = 65; // centimeters
   private lastAlerts: Map<string, number> = new Map();
-  private objectTracker: Map<string, Detection[]> = new Map();
+  private tracker: ObjectTracker;
+  private deadReckoning = new DeadReckoning();
+  private distanceEstimator: DistanceEstimator;
   private alertCooldowns: Map<string, number> = new Map();
-  private isApiAvailable = false;
-  private lastApiCheck = 0;
-  private readonly API_CHECK_INTERVAL = 30000; // 30 seconds
+  private backends = new DetectionBackendRegistry();
+  private modeBackends: Record<DetectionMode, string[]> = { ...DEFAULT_MODE_BACKENDS };
+  private lastDetectionSource: string | null = null;
+  private frameResponse: { response: APIDetectionResponse; convertedAt: number } | null = null;
+  private framePitch: RecordedFrame['devicePitch'] | null = null; // the pitch the current frame was converted with
+  private observer: PipelineObserver | null = null;
+  private serverCategories: Record<string, ObjectCategory> = {}; // restored with recorded settings
+  private environment: Environment;
+  private clock: Clock;
+  private fastApi: FastAPIBackend;
   
   // Enhanced configuration
   private readonly CENTER_FOV_THRESHOLD = 0.25; // 25% from center (50% total width)
@@ -70,166 +184,162 @@ export class APIDetectionService {
   private readonly MIN_CONFIDENCE = 0.6; // Minimum confidence for valid detection
   private readonly TRACKING_HISTORY_SIZE = 5; // Number of frames to track for movement
   private readonly MOVEMENT_THRESHOLD = 0.05; // 5% movement to consider object moving
+  private readonly URGENT_TTC_SECONDS = 3; // contact this soon bypasses the cooldown
+  private readonly SCENE_MAX_AGE_MS = 3000; // tracks unseen for longer are left out of scene summaries
   
-  // Priority object categories
-  private readonly CRITICAL_OBJECTS = ['person', 'car', 'bicycle', 'motorcycle', 'truck', 'bus'];
-  private readonly WARNING_OBJECTS = ['chair', 'table', 'door', 'pole', 'stairs', 'step', 'bench'];
-  private readonly INFO_OBJECTS = ['wall', 'tree', 'trash can', 'sign', 'bottle', 'cup'];
-
-  // Distance estimation mapping (object type -> typical size in meters)
-  private readonly OBJECT_SIZES: Record<string, number> = {
-    person: 1.7,
-    car: 4.5,
-    bicycle: 1.8,
-    motorcycle: 2.0,
-    truck: 8.0,
-    bus: 12.0,
-    chair: 0.8,
-    table: 1.2,
-    door: 2.0,
-    pole: 0.2,
-    bench: 1.5,
-    bottle: 0.25,
-    cup: 0.1,
-    // Default fallback
-    default: 1.0
+  // Per-label category, size and feedback, editable from Settings
+  private taxonomy: ObjectTaxonomy = DEFAULT_TAXONOMY;
+  // Which detections alert, how they rank and how urgent they are
+  private alertRules: AlertRule[] = DEFAULT_ALERT_RULES;
+  private translator: Translator;
+
+  private readonly context: DetectionContext = {
+    toDetections: response => {
+      const convertedAt = this.clock.now();
+      this.frameResponse = { response, convertedAt };
+      this.framePitch = this.distanceEstimator.getPitch();
+      return this.convertAPIDetections(response, convertedAt);
+    },
+    metersToSteps: meters => this.metersToSteps(meters),
+    categories: categoriesOf(this.taxonomy),
+    camera: () => ({
+      focalLengthRatio: this.config.focalLengthRatio,
+      height: this.config.cameraHeight,
+      pitch: this.distanceEstimator.currentPitch(this.clock.now()),
+    }),
+    objectHeight: label => this.taxonomy[label]?.size ?? DEFAULT_OBJECT_SIZE,
   };
 
   constructor(
     stepLength: number = 65, 
     private config: DetectionServiceConfig = {
       apiUrl: 'http://localhost:8000', // Default FastAPI URL
+      detectionMode: 'hybrid',
       confidenceThreshold: 0.6,
       maxRetries: 2,
       timeoutMs: 5000,
-      centerFocusOnly: true
-    }
+      centerFocusOnly: true,
+      onDeviceModelUrl: 'bundle://coco-ssd-lite', // shipped in assets/models, no network needed
+      streamingEnabled: true,
+      focalLengthRatio: DEFAULT_FOCAL_LENGTH_RATIO,
+      cameraHeight: 1.3,
+      directionFormat: 'leftRight',
+      language: 'system',
+      simulationScenario: DEFAULT_SCENARIO,
+      simulationSeed: 1,
+    },
+    options: Partial<DetectionServiceOptions> = {}
   ) {
+    const { offline = false, ...environment } = options;
     this.stepLength = stepLength;
-    this.checkApiAvailability();
-  }
-
-  private async checkApiAvailability(): Promise<boolean> {
-    const now = Date.now();
-    
-    // Only check API availability every 30 seconds to avoid spam
-    if (now - this.lastApiCheck < this.API_CHECK_INTERVAL && this.isApiAvailable) {
-      return this.isApiAvailable;
+    this.environment = { ...headlessEnvironment, ...environment };
+    this.clock = this.environment.clock;
+    this.translator = createTranslator(this.config.language);
+    this.tracker = new ObjectTracker({
+      historySize: this.TRACKING_HISTORY_SIZE,
+      movementThreshold: this.MOVEMENT_THRESHOLD,
+    });
+    this.distanceEstimator = new DistanceEstimator(
+      { focalLengthRatio: this.config.focalLengthRatio, cameraHeight: this.config.cameraHeight },
+      DEFAULT_OBJECT_SIZE
+    );
+    this.fastApi = new FastAPIBackend(this.config, this.environment);
+    this.registerBackend(this.fastApi);
+    this.registerBackend(new SimulationBackend(this.config, this.environment));
+    if (!offline) {
+      this.fastApi.checkHealth();
     }
+  }
 
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 3000);
-
-      const response = await fetch(`${this.config.apiUrl}/health`, {
-        method: 'GET',
-        signal: controller.signal,
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+  /**
+   * Runs one frame through the backends selected by `detectionMode`.
+   * Pass `null` when no camera frame could be captured; backends that need a
+   * frame are then skipped. `imageSize` is the frame size as captured, which
+   * lets backends resize it without distorting its aspect ratio.
+   */
+  async processImageForDetection(
+    imageUri: string | null,
+    imageSize?: { width: number; height: number }
+  ): Promise<ProcessedAlert[]> {
+    const frame: DetectionFrame = { imageUri, timestamp: this.clock.now(), size: imageSize };
+    this.frameResponse = null;
+    this.framePitch = null;
+    const detections = await this.detectWithBackends(frame);
+
+    const at = this.clock.now();
+    const alerts = this.processDetections(detections);
+
+    this.observer?.onFrame({
+      at,
+      source: this.lastDetectionSource,
+      input: this.frameResponse ?? { detections },
+      // The pitch can move while backends run; replay needs the one the detections were placed with
+      devicePitch: this.framePitch ?? this.distanceEstimator.getPitch(),
+      alerts,
+    });
+    return alerts;
+  }
 
-      clearTimeout(timeoutId);
-      this.isApiAvailable = response.ok;
-      this.lastApiCheck = now;
-      
-      if (this.isApiAvailable) {
-        console.log('✅ Detection API is available');
-      } else {
-        console.warn('⚠️ Detection API returned error status:', response.status);
-      }
-      
-      return this.isApiAvailable;
-    } catch (error) {
-      console.warn('⚠️ Detection API is not available:', error);
-      this.isApiAvailable = false;
-      this.lastApiCheck = now;
-      return false;
-    }
+  /**
+   * Runs a recorded frame through the same pipeline, as if a backend had
+   * just returned it. With a virtual clock set to the recorded times, the
+   * same sequence of frames always produces the same alerts.
+   */
+  processRecordedFrame(input: FrameInput): ProcessedAlert[] {
+    const detections = input.response
+      ? this.convertAPIDetections(input.response, input.convertedAt)
+      : input.detections ?? [];
+    return this.processDetections(detections);
   }
 
-  async processImageForDetection(imageUri: string): Promise<ProcessedAlert[]> {
-    try {
-      // Check if API is available
-      const apiAvailable = await this.checkApiAvailability();
-      
-      if (!apiAvailable) {
-        console.log('📱 API unavailable, using enhanced simulation');
-        return this.processSimulatedDetections();
-      }
+  private processDetections(detections: Detection[]): ProcessedAlert[] {
+    if (detections.length === 0) {
+      return [];
+    }
 
-      // Process the image and send to API
-      const detections = await this.sendImageToAPI(imageUri);
-      
-      if (detections.length === 0) {
-        return [];
-      }
+    // Apply comprehensive filtering pipeline
+    const filteredDetections = this.applyDetectionPipeline(detections);
+    const alerts = this.generateSmartAlerts(filteredDetections);
 
-      // Apply comprehensive filtering pipeline
-      const filteredDetections = this.applyDetectionPipeline(detections);
-      const alerts = this.generateSmartAlerts(filteredDetections);
-      
-      return alerts;
-    } catch (error) {
-      console.error('🚨 Detection processing failed:', error);
-      // Fallback to simulation on error
-      return this.processSimulatedDetections();
-    }
+    return alerts;
   }
 
-  private async sendImageToAPI(imageUri: string): Promise<Detection[]> {
-    try {
-      // Resize image for faster processing
-      const manipulatedImage = await ImageManipulator.manipulateAsync(
-        imageUri,
-        [{ resize: { width: 640, height: 480 } }], // Standard detection size
-        { 
-          compress: 0.8, 
-          format: ImageManipulator.SaveFormat.JPEG,
-          base64: true 
-        }
-      );
+  private async detectWithBackends(frame: DetectionFrame) {
+    const chain = this.modeBackends[this.config.detectionMode]
+      .map(name => this.backends.get(name))
+      .filter((backend): backend is DetectionBackend => !!backend);
+    let lastError: unknown = null;
 
-      if (!manipulatedImage.base64) {
-        throw new Error('Failed to convert image to base64');
-      }
+    this.lastDetectionSource = null;
 
-      // Send to FastAPI backend
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.config.timeoutMs);
-
-      const response = await fetch(`${this.config.apiUrl}/detect`, {
-        method: 'POST',
-        signal: controller.signal,
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          image: manipulatedImage.base64,
-          confidence_threshold: this.config.confidenceThreshold,
-          center_focus_only: this.config.centerFocusOnly
-        }),
-      });
+    for (const backend of chain) {
+      if (backend.capabilities.requiresFrame && !frame.imageUri) continue;
 
-      clearTimeout(timeoutId);
+      const health = await backend.checkHealth();
+      if (!health.available) {
+        console.log(`📡 ${backend.name} backend unavailable, trying next`);
+        continue;
+      }
 
-      if (!response.ok) {
-        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      try {
+        const detections = await backend.detect(frame, this.context);
+        this.lastDetectionSource = backend.name;
+        return detections;
+      } catch (error) {
+        console.error(`🚨 ${backend.name} detection failed:`, error);
+        lastError = error;
       }
+    }
 
-      const apiResponse: APIDetectionResponse = await response.json();
-      
-      // Convert API detections to our format
-      return this.convertAPIDetections(apiResponse);
-    } catch (error) {
-      console.error('🚨 API request failed:', error);
-      throw error;
+    // Surface the failure when no backend could stand in for a broken one
+    if (lastError) {
+      throw lastError;
     }
+    return [];
   }
 
-  private convertAPIDetections(apiResponse: APIDetectionResponse): Detection[] {
+  private convertAPIDetections(apiResponse: APIDetectionResponse, now: number = this.clock.now()): Detection[] {
     const { detections, image_width, image_height } = apiResponse;
-    const now = Date.now();
 
     return detections.map((apiDetection, index) => {
       const [x1, y1, x2, y2] = apiDetection.bbox;
@@ -240,8 +350,20 @@ export class APIDetectionService {
       const width = (x2 - x1) / image_width;
       const height = (y2 - y1) / image_height;
 
-      // Estimate distance based on object size and type
-      const distance = this.estimateDistance(apiDetection.label, height, image_height);
+      const boundingBox = {
+        x: x1 / image_width,
+        y: y1 / image_height,
+        width,
+        height
+      };
+
+      // Estimate distance from object size and from where it meets the ground
+      const { distance, sizeBased, groundPlane } = this.distanceEstimator.estimate({
+        objectHeight: this.taxonomy[apiDetection.label]?.size ?? null,
+        box: boundingBox,
+        imageWidth: image_width,
+        imageHeight: image_height,
+      }, now);
       const steps = this.metersToSteps(distance);
 
       return {
@@ -249,61 +371,46 @@ export class APIDetectionService {
         label: apiDetection.label,
         confidence: apiDetection.confidence,
         distance,
+        distanceEstimates: { sizeBased, groundPlane },
         steps,
         x: centerX,
+        bearing: bearingFromX(centerX, image_width / image_height, this.config.focalLengthRatio),
         y: centerY,
         width,
         height,
         timestamp: now,
-        boundingBox: {
-          x: x1 / image_width,
-          y: y1 / image_height,
-          width,
-          height
-        }
+        boundingBox
       };
     });
   }
 
-  private estimateDistance(objectLabel: string, normalizedHeight: number, imageHeight: number): number {
-    // Get expected real-world size of the object
-    const realWorldSize = this.OBJECT_SIZES[objectLabel] || this.OBJECT_SIZES.default;
-    
-    // Simple distance estimation based on object height in image
-    // This is a rough approximation - in reality you'd need camera calibration
-    const pixelHeight = normalizedHeight * imageHeight;
-    
-    // Rough formula: distance = (real_size * focal_length) / pixel_size
-    // Using estimated focal length for mobile cameras (~500-800 pixels)
-    const estimatedFocalLength = 600;
-    const estimatedDistance = (realWorldSize * estimatedFocalLength) / pixelHeight;
-    
-    // Clamp distance to reasonable range (0.5m to 20m)
-    return Math.max(0.5, Math.min(20, estimatedDistance));
-  }
-
-  private async processSimulatedDetections(): Promise<ProcessedAlert[]> {
-    // Enhanced simulation for when API is unavailable
-    const rawDetections = this.generateRealisticDetections();
-    const filteredDetections = this.applyDetectionPipeline(rawDetections);
-    const alerts = this.generateSmartAlerts(filteredDetections);
-    return alerts;
+  private categoryOf(label: string): ObjectCategory | null {
+    const entry = this.taxonomy[label];
+    if (entry) return entry.category;
+    // Labels only the connected model knows keep the category it reports
+    return this.fastApi.getServerCapabilities().labelCategories[label] ?? this.serverCategories[label] ?? null;
   }
 
   private applyDetectionPipeline(detections: Detection[]): Detection[] {
-    // Step 1: Filter by confidence
-    let filtered = detections.filter(d => d.confidence >= this.config.confidenceThreshold);
+    // Step 1: Filter by confidence and drop labels the user ignores
+    let filtered = detections
+      .filter(d => d.confidence >= this.config.confidenceThreshold && !this.taxonomy[d.label]?.ignore)
+      .map(d => (d.bearing === undefined ? { ...d, bearing: this.bearingOf(d) } : d));
     
-    // Step 2: Filter by center field of view (if enabled)
+    // Step 2: Update object tracking (before the FOV filter so tracks survive
+    // objects drifting in and out of the center)
+    filtered = this.updateObjectTracking(filtered);
+
+    // Step 2b: Reconcile distances with where walking says objects should be
+    filtered = this.reconcileWithDeadReckoning(filtered);
+    
+    // Step 3: Filter by center field of view (if enabled)
     if (this.config.centerFocusOnly) {
       filtered = this.filterCenterFOV(filtered);
     }
     
-    // Step 3: Update object tracking
-    this.updateObjectTracking(filtered);
-    
-    // Step 4: Filter by movement and proximity
-    filtered = this.filterByMovementAndProximity(filtered);
+    // Step 4: Keep what the alert rules include (proximity, movement, ...)
+    filtered = this.filterByRules(filtered);
     
     // Step 5: Cluster nearby objects
     filtered = this.clusterNearbyObjects(filtered);
@@ -315,66 +422,43 @@ export class APIDetectionService {
   }
 
   private filterCenterFOV(detections: Detection[]): Detection[] {
-    return detections.filter(detection => {
-      const centerX = 0.5;
-      const distanceFromCenter = Math.abs(detection.x - centerX);
-      return distanceFromCenter <= this.CENTER_FOV_THRESHOLD;
-    });
+    return detections.filter(detection => this.isInCenterFOV(detection));
   }
 
-  private updateObjectTracking(detections: Detection[]) {
-    const now = Date.now();
-    
-    detections.forEach(detection => {
-      const trackingKey = `${detection.label}_${Math.round(detection.x * 10)}`;
-      
-      if (!this.objectTracker.has(trackingKey)) {
-        this.objectTracker.set(trackingKey, []);
-      }
-      
-      const history = this.objectTracker.get(trackingKey)!;
-      history.push(detection);
-      
-      // Keep only recent history
-      if (history.length > this.TRACKING_HISTORY_SIZE) {
-        history.shift();
-      }
-      
-      // Calculate movement
-      if (history.length >= 2) {
-        const prev = history[history.length - 2];
-        const curr = history[history.length - 1];
-        const movement = Math.sqrt(
-          Math.pow(curr.x - prev.x, 2) + Math.pow(curr.y - prev.y, 2)
-        );
-        
-        detection.isMoving = movement > this.MOVEMENT_THRESHOLD;
-        detection.velocity = movement / ((curr.timestamp - prev.timestamp) / 1000);
-      }
-    });
+  private isInCenterFOV(detection: Detection): boolean {
+    const centerX = 0.5;
+    const distanceFromCenter = Math.abs(detection.x - centerX);
+    return distanceFromCenter <= this.CENTER_FOV_THRESHOLD;
+  }
+
+  private updateObjectTracking(detections: Detection[]): Detection[] {
+    const tracked = this.tracker.update(detections, this.clock.now());
     
     // Clean old tracking data
     this.cleanOldTrackingData();
+    
+    return tracked;
   }
 
-  private filterByMovementAndProximity(detections: Detection[]): Detection[] {
-    return detections.filter(detection => {
-      // Always include very close objects
-      if (detection.steps <= 2) return true;
-      
-      // Include moving objects within reasonable distance
-      if (detection.isMoving && detection.steps <= 6) return true;
-      
-      // Include stationary critical objects
-      if (this.CRITICAL_OBJECTS.includes(detection.label) && detection.steps <= 4) return true;
-      
-      // Include high-confidence objects
-      if (detection.confidence > 0.8 && detection.steps <= 5) return true;
-      
-      return false;
+  private reconcileWithDeadReckoning(detections: Detection[]): Detection[] {
+    const now = this.clock.now();
+    return detections.map(detection => {
+      if (!detection.trackId) return detection;
+      const deadReckoned = this.deadReckoning.estimate(detection.trackId, now);
+      const distance = this.deadReckoning.reconcile(detection.trackId, detection.distance, !!detection.isMoving, now);
+      return {
+        ...detection,
+        distance,
+        distanceEstimates: { ...detection.distanceEstimates, deadReckoned },
+        steps: this.metersToSteps(distance),
+      };
     });
   }
 
+  private filterByRules(detections: Detection[]): Detection[] {
+    return detections.filter(detection => this.evaluateRules(detection).included);
+  }
+
   private clusterNearbyObjects(detections: Detection[]): Detection[] {
     if (detections.length <= 1) return detections;
 
@@ -415,55 +499,71 @@ export class APIDetectionService {
       );
 
       const hasMoving = cluster.some(d => d.isMoving);
-      const hasCritical = cluster.some(d => this.CRITICAL_OBJECTS.includes(d.label));
+      const hasCritical = cluster.some(d => this.categoryOf(d.label) === 'critical');
+      const collisions = cluster.filter(d => d.onCollisionCourse && d.timeToCollision !== undefined);
+
+      // Derived from member tracks so the cluster keeps its ID while they stay together
+      const memberIds = cluster.map(d => d.id).sort();
 
       return {
         ...closest,
-        id: `cluster_${cluster.length}_${Date.now()}`,
+        id: `cluster_${memberIds.join('+')}`,
+        memberIds,
         label: this.generateClusterLabel(cluster),
         confidence: Math.max(...cluster.map(d => d.confidence)),
         isMoving: hasMoving,
         velocity: hasMoving ? Math.max(...cluster.map(d => d.velocity || 0)) : 0,
+        // The soonest collision among members speaks for the whole group
+        onCollisionCourse: collisions.length > 0 || closest.onCollisionCourse,
+        timeToCollision: collisions.length > 0
+          ? Math.min(...collisions.map(d => d.timeToCollision!))
+          : closest.timeToCollision,
       };
     });
   }
 
   private generateClusterLabel(cluster: Detection[]): string {
+    const { t, label } = this.translator;
+
     if (cluster.length === 2) {
-      return `${cluster[0].label} and ${cluster[1].label}`;
+      return t('alerts.pair', { first: label(cluster[0].label), second: label(cluster[1].label) });
     }
     
-    const criticalCount = cluster.filter(d => this.CRITICAL_OBJECTS.includes(d.label)).length;
+    const criticalCount = cluster.filter(d => this.categoryOf(d.label) === 'critical').length;
     if (criticalCount > 0) {
-      return `${criticalCount} critical object${criticalCount > 1 ? 's' : ''} and ${cluster.length - criticalCount} other${cluster.length - criticalCount > 1 ? 's' : ''}`;
+      return t('alerts.criticalGroup', {
+        critical: t('alerts.criticalObjects', { count: criticalCount }),
+        others: t('alerts.otherObjects', { count: cluster.length - criticalCount }),
+      });
     }
     
-    return `${cluster.length} objects`;
+    return t('alerts.objects', { count: cluster.length });
   }
 
   private applyTemporalFiltering(detections: Detection[]): Detection[] {
-    const now = Date.now();
+    const now = this.clock.now();
     
     return detections.filter(detection => {
-      const objectType = detection.label;
-      const lastAlertTime = this.lastAlerts.get(objectType) || 0;
+      const trackIds = detection.memberIds ?? [detection.id];
+      // Never alerted is -Infinity, not 0: a virtual clock may start at 0
+      const lastAlertTime = Math.max(
+        this.lastAlerts.get(detection.id) ?? -Infinity,
+        ...trackIds.map(id => this.lastAlerts.get(id) ?? -Infinity)
+      );
       const timeSinceLastAlert = now - lastAlertTime;
       
-      // Always allow very close objects
-      if (detection.steps <= 1) return true;
+      // Always allow very close objects and imminent collisions
+      if (detection.steps <= 1 || this.isClosingIn(detection, this.URGENT_TTC_SECONDS)) return true;
       
       // Check cooldown for other objects
       if (timeSinceLastAlert < this.ALERT_COOLDOWN_MS) {
-        // Allow if object has moved significantly
-        const trackingKey = `${detection.label}_${Math.round(detection.x * 10)}`;
-        const history = this.objectTracker.get(trackingKey);
-        
-        if (history && history.length >= 2) {
+        // Allow if any of its tracks has moved significantly
+        return trackIds.some(id => {
+          const history = this.tracker.getTrack(id)?.history;
+          if (!history || history.length < 2) return false;
           const movement = Math.abs(history[0].x - history[history.length - 1].x);
           return movement > this.POSITION_CHANGE_THRESHOLD;
-        }
-        
-        return false;
+        });
       }
       
       return true;
@@ -481,63 +581,31 @@ export class APIDetectionService {
       }))
       .sort((a, b) => b.priority - a.priority);
 
-    // Generate alert for highest priority detection only
-    const topDetection = prioritized[0];
+    // Generate alert for highest priority detection only, preferring ones the
+    // user has asked to hear or feel over ones that would only be shown
+    const topDetection =
+      prioritized.find(({ detection }) => this.feedbackFor(detection, 'announce') || this.feedbackFor(detection, 'vibrate')) ??
+      prioritized[0];
     if (!topDetection) return [];
 
     const alert = this.createSmartAlert(topDetection.detection);
     
     // Update tracking
-    this.lastAlerts.set(topDetection.detection.label, Date.now());
+    const alertedAt = this.clock.now();
+    this.lastAlerts.set(topDetection.detection.id, alertedAt);
+    topDetection.detection.memberIds?.forEach(id => this.lastAlerts.set(id, alertedAt));
     
     return [alert];
   }
 
   private calculatePriority(detection: Detection): number {
-    let priority = 0;
-
-    // Distance priority (exponential for very close objects)
-    if (detection.steps <= 1) {
-      priority += 50;
-    } else if (detection.steps <= 2) {
-      priority += 30;
-    } else if (detection.steps <= 4) {
-      priority += 15;
-    } else {
-      priority += Math.max(0, 10 - detection.steps);
-    }
-
-    // Center position bonus
-    const centerDistance = Math.abs(detection.x - 0.5);
-    priority += (1 - centerDistance) * 10;
-
-    // Object type priority
-    if (this.CRITICAL_OBJECTS.includes(detection.label)) {
-      priority += 20;
-    } else if (this.WARNING_OBJECTS.includes(detection.label)) {
-      priority += 10;
-    } else if (this.INFO_OBJECTS.includes(detection.label)) {
-      priority += 5;
-    }
-
-    // Movement bonus
-    if (detection.isMoving) {
-      priority += 15;
-      if (detection.velocity && detection.velocity > 1) {
-        priority += 10; // Fast moving objects
-      }
-    }
-
-    // Confidence bonus
-    priority += detection.confidence * 8;
-
-    return priority;
+    return this.evaluateRules(detection).priority;
   }
 
   private createSmartAlert(detection: Detection): ProcessedAlert {
     const alertType = this.determineAlertType(detection);
-    const shouldVibrate = detection.steps <= 2 && Platform.OS !== 'web';
-    const shouldAnnounce = detection.steps <= 8;
+    const shouldVibrate = detection.steps <= 2 && this.environment.platform !== 'web' && this.feedbackFor(detection, 'vibrate');
+    const shouldAnnounce = detection.steps <= 8 && this.feedbackFor(detection, 'announce');
 
     const message = this.generateContextualMessage(detection);
 
@@ -548,131 +616,123 @@ export class APIDetectionService {
       shouldVibrate,
       message,
       alertType,
-      suppressUntil: detection.steps > 2 ? Date.now() + this.ALERT_COOLDOWN_MS : undefined
+      suppressUntil: detection.steps > 2 ? this.clock.now() + this.ALERT_COOLDOWN_MS : undefined
     };
   }
 
-  private determineAlertType(detection: Detection): 'urgent' | 'warning' | 'info' {
-    if (detection.steps <= 1 || (detection.isMoving && detection.steps <= 2)) {
-      return 'urgent';
-    } else if (detection.steps <= 3 || this.CRITICAL_OBJECTS.includes(detection.label)) {
-      return 'warning';
-    } else {
-      return 'info';
-    }
+  private determineAlertType(detection: Detection): AlertType {
+    return this.evaluateRules(detection).alertType;
+  }
+
+  private evaluateRules(detection: Detection, rules: AlertRule[] = this.alertRules): RuleEvaluation {
+    // A cluster is judged by everything in it
+    const labels = detection.memberIds
+      ? detection.memberIds.map(id => this.tracker.getTrack(id)?.label ?? detection.label)
+      : [detection.label];
+
+    return evaluateRules(rules, {
+      labels,
+      categories: labels
+        .map(label => this.categoryOf(label))
+        .filter((category): category is ObjectCategory => category !== null),
+      steps: detection.steps,
+      distance: detection.distance,
+      confidence: detection.confidence,
+      velocity: detection.velocity,
+      timeToCollision: detection.timeToCollision,
+      x: detection.x,
+      moving: !!detection.isMoving,
+      onCollisionCourse: !!detection.onCollisionCourse,
+    });
   }
 
   private generateContextualMessage(detection: Detection): string {
+    const { t } = this.translator;
+    // Cluster labels are already translated and come back unchanged
+    const label = this.translator.label(detection.label);
     let message = '';
     
     // Add urgency prefix for very close objects
-    if (detection.steps === 1) {
-      message = 'Stop! ';
-    } else if (detection.steps === 2 && detection.isMoving) {
-      message = 'Caution! ';
+    if (detection.steps === 1 || this.isClosingIn(detection, 2)) {
+      message = `${t('alerts.stop')} `;
+    } else if ((detection.steps === 2 && detection.isMoving) || this.isClosingIn(detection, this.URGENT_TTC_SECONDS)) {
+      message = `${t('alerts.caution')} `;
     }
 
     // Main message
-    if (detection.label.includes('multiple') || detection.label.includes('objects')) {
-      message += `${detection.label} ahead in ${detection.steps} ${detection.steps === 1 ? 'step' : 'steps'}`;
+    if (detection.onCollisionCourse && detection.timeToCollision !== undefined) {
+      const seconds = Math.max(1, Math.round(detection.timeToCollision));
+      message += t('alerts.approaching', { label, count: seconds });
     } else {
-      message += `${detection.label} ahead in ${detection.steps} ${detection.steps === 1 ? 'step' : 'steps'}`;
+      message += t('alerts.ahead', { label, count: detection.steps });
     }
 
     // Add movement information
-    if (detection.isMoving) {
+    if (detection.timeToCollision !== undefined && !detection.onCollisionCourse) {
+      message += `${t('punctuation.comma')}${t('alerts.passingBy')}`;
+    } else if (detection.isMoving && !detection.onCollisionCourse) {
       if (detection.velocity && detection.velocity > 1.5) {
-        message += ', moving fast';
+        message += `${t('punctuation.comma')}${t('alerts.movingFast')}`;
       } else {
-        message += ', moving';
+        message += `${t('punctuation.comma')}${t('alerts.moving')}`;
       }
     }
 
     // Add directional information
-    if (detection.x < 0.3) {
-      message += ' to your left';
-    } else if (detection.x > 0.7) {
-      message += ' to your right';
+    const direction = formatDirection(this.bearingOf(detection), this.config.directionFormat, this.translator);
+    if (direction) {
+      message += ` ${direction}`;
     }
 
     return message;
   }
 
-  private generateRealisticDetections(): Detection[] {
-    // Enhanced simulation with more realistic patterns
-    const detections: Detection[] = [];
-    const now = Date.now();
-    
-    // Simulate 0-2 objects with realistic distribution
-    const numObjects = Math.random() < 0.7 ? 0 : Math.random() < 0.8 ? 1 : 2;
-    
-    for (let i = 0; i < numObjects; i++) {
-      const detection = this.createRealisticDetection(now);
-      if (detection) {
-        detections.push(detection);
-      }
-    }
-    
-    return detections;
+  // A cluster gets the feedback if any of its members would
+  private feedbackFor(detection: Detection, kind: 'announce' | 'vibrate'): boolean {
+    const labels = detection.memberIds
+      ? detection.memberIds.map(id => this.tracker.getTrack(id)?.label ?? detection.label)
+      : [detection.label];
+    return labels.some(label => this.taxonomy[label]?.[kind] ?? true);
   }
 
-  private createRealisticDetection(timestamp: number): Detection | null {
-    // Realistic object distribution
-    const objectTypes = [
-      ...this.CRITICAL_OBJECTS,
-      ...this.WARNING_OBJECTS,
-      ...this.INFO_OBJECTS
-    ];
-    
-    const label = objectTypes[Math.floor(Math.random() * objectTypes.length)];
-    
-    // Realistic distance distribution (closer objects less common)
-    const distanceRandom = Math.random();
-    let distance: number;
-    
-    if (distanceRandom < 0.1) {
-      distance = 0.5 + Math.random() * 1; // 0.5-1.5m (very close)
-    } else if (distanceRandom < 0.3) {
-      distance = 1.5 + Math.random() * 1.5; // 1.5-3m (close)
-    } else {
-      distance = 3 + Math.random() * 4; // 3-7m (moderate distance)
-    }
-    
-    const steps = this.metersToSteps(distance);
-    
-    // Realistic confidence based on distance and object type
-    let confidence = 0.6 + Math.random() * 0.3;
-    if (distance > 5) confidence *= 0.8; // Lower confidence for distant objects
-    if (this.CRITICAL_OBJECTS.includes(label)) confidence += 0.1;
-    
-    // Realistic positioning (center-weighted)
-    const x = 0.3 + Math.random() * 0.4; // Bias toward center
-    const y = 0.2 + Math.random() * 0.6;
-    
-    // Realistic movement (less common)
-    const isMoving = Math.random() < 0.2; // 20% chance
-    const velocity = isMoving ? Math.random() * 1.5 + 0.5 : 0; // 0.5-2 m/s
-    
-    return {
-      id: `sim_${label}_${timestamp}_${Math.random().toString(36).substr(2, 5)}`,
-      label,
-      confidence: Math.min(confidence, 1.0),
-      distance,
-      steps,
-      x,
-      y,
-      width: 0.1 + Math.random() * 0.2,
-      height: 0.15 + Math.random() * 0.25,
-      timestamp,
-      isMoving,
-      velocity,
-      boundingBox: {
-        x: x - 0.05,
-        y: y - 0.075,
-        width: 0.1 + Math.random() * 0.2,
-        height: 0.15 + Math.random() * 0.25
+  private isClosingIn(detection: Detection, seconds: number): boolean {
+    return !!detection.onCollisionCourse &&
+      detection.timeToCollision !== undefined &&
+      detection.timeToCollision <= seconds;
+  }
+
+  private bearingOf(detection: Detection): number {
+    return detection.bearing ??
+      bearingFromX(detection.x, DEFAULT_FRAME_ASPECT, this.config.focalLengthRatio);
+  }
+
+  private describeRegion(detections: Detection[]): string {
+    const { t, label: translateLabel } = this.translator;
+    if (detections.length === 0) return t('scene.clear');
+
+    // One phrase per label, at the distance of its nearest instance
+    const groups = new Map<string, { count: number; nearest: Detection }>();
+    detections.forEach(detection => {
+      const group = groups.get(detection.label);
+      if (!group) {
+        groups.set(detection.label, { count: 1, nearest: detection });
+        return;
       }
-    };
+      group.count += 1;
+      if (detection.steps < group.nearest.steps) group.nearest = detection;
+    });
+
+    return Array.from(groups.entries())
+      .sort((a, b) => a[1].nearest.steps - b[1].nearest.steps)
+      .map(([label, { count, nearest }]) => {
+        const subject = t('scene.group', { count, label: translateLabel(label, count) });
+        const phrase = t('scene.at', { subject, count: nearest.steps });
+        // Regions are coarse; degrees users expect the exact bearing
+        return this.config.directionFormat === 'degrees'
+          ? `${phrase}${t('punctuation.comma')}${formatDirection(this.bearingOf(nearest), 'degrees', this.translator)}`
+          : phrase;
+      })
+      .join(t('punctuation.comma'));
   }
 
   private metersToSteps(meters: number): number {
@@ -681,20 +741,7 @@ export class APIDetectionService {
   }
 
   private cleanOldTrackingData() {
-    const now = Date.now();
-    const maxAge = 10000; // 10 seconds
-
-    for (const [key, history] of this.objectTracker.entries()) {
-      const filteredHistory = history.filter(detection => 
-        now - detection.timestamp < maxAge
-      );
-      
-      if (filteredHistory.length === 0) {
-        this.objectTracker.delete(key);
-      } else {
-        this.objectTracker.set(key, filteredHistory);
-      }
-    }
+    const now = this.clock.now();
 
     // Clean old alerts
     for (const [key, time] of this.lastAlerts.entries()) {
@@ -709,30 +756,209 @@ export class APIDetectionService {
     this.stepLength = length;
   }
 
+  // Steps the user took since the last call, from the pedometer
+  recordSteps(steps: number) {
+    const now = this.clock.now();
+    this.deadReckoning.walk(steps, this.stepLength / 100, now);
+    this.observer?.onSteps(steps, now);
+  }
+
+  /**
+   * The alert again with its distance moved on by the steps walked since
+   * it was detected, or null when there's no dead-reckoned estimate for it
+   * (a moving object, or one not seen for a while).
+   */
+  reckonAlert(alert: ProcessedAlert): ProcessedAlert | null {
+    const { trackId } = alert.detection;
+    const distance = trackId ? this.deadReckoning.estimate(trackId, this.clock.now()) : undefined;
+    if (distance === undefined) return null;
+
+    // Looming-based collision times describe the last frame, not where the user is now
+    return this.createSmartAlert({
+      ...alert.detection,
+      distance,
+      steps: Math.max(1, this.metersToSteps(distance)),
+      timeToCollision: undefined,
+      onCollisionCourse: undefined,
+    });
+  }
+
   updateConfiguration(newConfig: Partial<DetectionServiceConfig>) {
     this.config = { ...this.config, ...newConfig };
+    if (newConfig.language !== undefined) {
+      this.translator = createTranslator(this.config.language);
+    }
+    this.distanceEstimator.configure({
+      focalLengthRatio: this.config.focalLengthRatio,
+      cameraHeight: this.config.cameraHeight,
+    });
+    this.backends.list().forEach(backend => backend.configure?.(this.config));
+  }
+
+  updateAlertRules(rules: AlertRule[]) {
+    this.alertRules = rules;
+  }
+
+  /**
+   * Evaluates rules against a hand-made sample, for the rule tester in
+   * Settings. Uses the active rules unless others are given.
+   */
+  testAlertRules(
+    sample: RuleTestSample,
+    rules: AlertRule[] = this.alertRules
+  ): RuleEvaluation {
+    const distance = sample.steps * this.stepLength / 100;
+    return this.evaluateRules({
+      ...sample,
+      id: 'rule_test',
+      distance,
+      y: 0.5,
+      width: 0.2,
+      height: 0.4,
+      timestamp: this.clock.now(),
+      boundingBox: { x: sample.x - 0.1, y: 0.3, width: 0.2, height: 0.4 },
+    }, rules);
+  }
+
+  updateTaxonomy(taxonomy: ObjectTaxonomy) {
+    this.taxonomy = taxonomy;
+    this.context.categories = categoriesOf(taxonomy);
+  }
+
+  // Radians the camera points below the horizon, or null when unknown
+  updateDevicePitch(pitch: number | null, timestamp: number = this.clock.now()) {
+    this.distanceEstimator.updatePitch(pitch, timestamp);
+  }
+
+  setObserver(observer: PipelineObserver | null) {
+    this.observer = observer;
+  }
+
+  getPipelineSettings(): PipelineSettings {
+    return {
+      stepLength: this.stepLength,
+      // 'system' is pinned to what it resolved to, so replays elsewhere word alerts the same
+      config: { ...this.config, language: this.translator.language },
+      taxonomy: this.taxonomy,
+      alertRules: this.alertRules,
+      serverCategories: {
+        ...this.serverCategories,
+        ...this.fastApi.getServerCapabilities().labelCategories,
+      },
+    };
+  }
+
+  applyPipelineSettings(settings: PipelineSettings) {
+    this.updateStepLength(settings.stepLength);
+    this.updateConfiguration(settings.config);
+    this.updateTaxonomy(settings.taxonomy);
+    this.updateAlertRules(settings.alertRules);
+    this.serverCategories = settings.serverCategories;
+  }
+
+  registerBackend(backend: DetectionBackend) {
+    backend.configure?.(this.config);
+    this.backends.register(backend);
+  }
+
+  setModeBackends(mode: DetectionMode, backendNames: string[]) {
+    this.modeBackends[mode] = backendNames;
   }
 
   getServiceStatus(): { 
     apiAvailable: boolean; 
     lastCheck: number; 
+    lastSource: string | null;
+    server: ServerCapabilities | null;
+    backends: { name: string; health: BackendHealth }[];
     config: DetectionServiceConfig;
     platform: string;
   } {
+    const apiHealth = this.fastApi.getHealth();
+
     return {
-      apiAvailable: this.isApiAvailable,
-      lastCheck: this.lastApiCheck,
+      apiAvailable: apiHealth.available,
+      lastCheck: apiHealth.lastCheck,
+      lastSource: this.lastDetectionSource,
+      server: apiHealth.available ? this.fastApi.getServerCapabilities() : null,
+      backends: this.backends.list().map(backend => ({
+        name: backend.name,
+        health: backend.getHealth(),
+      })),
       config: this.config,
-      platform: Platform.OS
+      platform: this.environment.platform
     };
   }
 
+  /**
+   * Spoken summary of everything currently tracked, not just the top alert:
+   * "Center: chair in 3 steps. Left: two people in 5 steps. Right: clear."
+   */
+  describeScene(): string {
+    const { t } = this.translator;
+    const now = this.clock.now();
+    const current: Detection[] = [];
+
+    this.tracker.getTracks().forEach(track => {
+      const latest = track.history[track.history.length - 1];
+      if (latest && now - track.lastSeen <= this.SCENE_MAX_AGE_MS) current.push(latest);
+    });
+
+    if (this.config.directionFormat === 'clock') {
+      // Group by hour; the camera sees roughly 11 to 1 o'clock, which are always reported
+      const hours = new Map<number, Detection[]>([[12, []], [11, []], [1, []]]);
+      current.forEach(detection => {
+        const hour = clockHour(this.bearingOf(detection));
+        hours.set(hour, [...(hours.get(hour) ?? []), detection]);
+      });
+      return Array.from(hours.entries())
+        .map(([hour, detections]) => t('scene.region', {
+          region: t('scene.clock', { count: hour }),
+          description: this.describeRegion(detections),
+        }))
+        .join(' ');
+    }
+
+    const regions: Record<DirectionSide, Detection[]> = { left: [], center: [], right: [] };
+    current.forEach(detection => regions[sideOf(this.bearingOf(detection))].push(detection));
+
+    return SCENE_REGION_ORDER
+      .map(region => t('scene.region', {
+        region: t(`scene.${region}`),
+        description: this.describeRegion(regions[region]),
+      }))
+      .join(' ');
+  }
+
+  /**
+   * Closest recently tracked object, limited to the detection zone when
+   * center focus is on. Unlike alerts it ignores cooldowns and rules, so
+   * sonar feedback follows the nearest thing even when nothing is spoken.
+   */
+  nearestObstacle(): Detection | null {
+    const now = this.clock.now();
+    let nearest: Detection | null = null;
+
+    this.tracker.getTracks().forEach(track => {
+      const latest = track.history[track.history.length - 1];
+      if (!latest || now - track.lastSeen > this.SCENE_MAX_AGE_MS) return;
+      if (this.config.centerFocusOnly && !this.isInCenterFOV(latest)) return;
+      const distance = this.deadReckoning.estimate(track.id, now) ?? latest.distance;
+      if (!nearest || distance < nearest.distance) nearest = { ...latest, distance };
+    });
+
+    return nearest;
+  }
+
   async testApiConnection(): Promise<boolean> {
-    return await this.checkApiAvailability();
+    const health = await this.fastApi.checkHealth(true);
+    return health.available;
   }
 
+  // Forgets tracks, dead reckoning and alert history (temporal filter and cooldowns)
   clearTrackingData() {
-    this.objectTracker.clear();
+    this.tracker.clear();
+    this.deadReckoning.clear();
     this.lastAlerts.clear();
     this.alertCooldowns.clear();
   }
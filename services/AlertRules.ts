@@ -0,0 +1,327 @@
+import type { ObjectCategory } from './backends/serverCapabilities';
+
+export type AlertType = 'urgent' | 'warning' | 'info';
+
+export type Position = 'left' | 'center' | 'right';
+
+// Bounds are "above" (exclusive) and "atMost" (inclusive), matching how the
+// thresholds read aloud: "more than 4 steps", "2 steps or fewer"
+export interface NumberRange {
+  above?: number;
+  atMost?: number;
+}
+
+export type NumericFact = 'steps' | 'distance' | 'confidence' | 'velocity' | 'timeToCollision' | 'centerOffset';
+
+export interface RuleCondition {
+  label?: string[];
+  category?: ObjectCategory[];
+  steps?: NumberRange;
+  distance?: NumberRange;
+  confidence?: NumberRange;
+  velocity?: NumberRange;
+  timeToCollision?: NumberRange;
+  centerOffset?: NumberRange; // |x - 0.5|, 0 straight ahead, 0.5 at the frame edge
+  position?: Position[];
+  moving?: boolean;
+  onCollisionCourse?: boolean;
+}
+
+// A fixed delta, or one that scales with a fact: clamp(offset + scale * fact)
+export type PriorityDelta =
+  | number
+  | { fact: NumericFact; scale: number; offset?: number; min?: number; max?: number };
+
+export interface RuleAction {
+  include?: boolean; // true keeps the detection, false drops it
+  priority?: PriorityDelta;
+  alertType?: AlertType;
+}
+
+export interface AlertRule {
+  id: string;
+  description?: string;
+  enabled?: boolean; // defaults to true
+  when: RuleCondition;
+  then: RuleAction;
+}
+
+// What rules can see about a detection
+export interface RuleFacts {
+  labels: string[]; // several for a cluster
+  categories: ObjectCategory[];
+  steps: number;
+  distance: number;
+  confidence: number;
+  velocity?: number;
+  timeToCollision?: number;
+  x: number;
+  moving: boolean;
+  onCollisionCourse: boolean;
+}
+
+export interface RuleEvaluation {
+  included: boolean;
+  priority: number;
+  alertType: AlertType;
+  fired: string[]; // ids of matching rules, in order
+}
+
+const SEVERITY: AlertType[] = ['info', 'warning', 'urgent'];
+const POSITIONS: Position[] = ['left', 'center', 'right'];
+const NUMERIC_FACTS: NumericFact[] = ['steps', 'distance', 'confidence', 'velocity', 'timeToCollision', 'centerOffset'];
+
+function positionOf(x: number): Position {
+  if (x < 0.3) return 'left';
+  if (x > 0.7) return 'right';
+  return 'center';
+}
+
+function numericFact(facts: RuleFacts, fact: NumericFact): number | undefined {
+  return fact === 'centerOffset' ? Math.abs(facts.x - 0.5) : facts[fact];
+}
+
+function inRange(value: number | undefined, range: NumberRange | undefined): boolean {
+  if (!range) return true;
+  if (value === undefined) return false;
+  if (range.above !== undefined && !(value > range.above)) return false;
+  if (range.atMost !== undefined && !(value <= range.atMost)) return false;
+  return true;
+}
+
+export function matchesCondition(condition: RuleCondition, facts: RuleFacts): boolean {
+  if (condition.label && !facts.labels.some(label => condition.label!.includes(label))) return false;
+  if (condition.category && !facts.categories.some(category => condition.category!.includes(category))) return false;
+  if (condition.position && !condition.position.includes(positionOf(facts.x))) return false;
+  if (condition.moving !== undefined && condition.moving !== facts.moving) return false;
+  if (condition.onCollisionCourse !== undefined && condition.onCollisionCourse !== facts.onCollisionCourse) return false;
+
+  return NUMERIC_FACTS.every(fact => inRange(numericFact(facts, fact), condition[fact]));
+}
+
+function priorityOf(delta: PriorityDelta, facts: RuleFacts): number {
+  if (typeof delta === 'number') return delta;
+
+  const value = (delta.offset ?? 0) + delta.scale * (numericFact(facts, delta.fact) ?? 0);
+  return Math.min(delta.max ?? Infinity, Math.max(delta.min ?? -Infinity, value));
+}
+
+/**
+ * Runs every enabled rule against a detection:
+ * - inclusion: the first matching rule with `include` decides; a detection no
+ *   rule includes is dropped;
+ * - priority: deltas of all matching rules add up;
+ * - alert type: the most severe one among matching rules, `info` otherwise.
+ */
+export function evaluateRules(rules: AlertRule[], facts: RuleFacts): RuleEvaluation {
+  const evaluation: RuleEvaluation = { included: false, priority: 0, alertType: 'info', fired: [] };
+  let decided = false;
+
+  rules.forEach(rule => {
+    if (rule.enabled === false || !matchesCondition(rule.when, facts)) return;
+
+    evaluation.fired.push(rule.id);
+    if (!decided && rule.then.include !== undefined) {
+      evaluation.included = rule.then.include;
+      decided = true;
+    }
+    if (rule.then.priority !== undefined) {
+      evaluation.priority += priorityOf(rule.then.priority, facts);
+    }
+    if (rule.then.alertType && SEVERITY.indexOf(rule.then.alertType) > SEVERITY.indexOf(evaluation.alertType)) {
+      evaluation.alertType = rule.then.alertType;
+    }
+  });
+
+  return evaluation;
+}
+
+// The thresholds the pipeline has always used
+const STANDARD_RULES: AlertRule[] = [
+  // Which detections are worth an alert at all
+  { id: 'include-very-close', description: 'Anything 2 steps away or closer', when: { steps: { atMost: 2 } }, then: { include: true } },
+  { id: 'include-closing-in', description: 'Anything on a collision course within 6 seconds', when: { onCollisionCourse: true, timeToCollision: { atMost: 6 } }, then: { include: true } },
+  { id: 'include-moving', description: 'Moving objects within 6 steps', when: { moving: true, steps: { atMost: 6 } }, then: { include: true } },
+  { id: 'include-critical', description: 'Critical objects within 4 steps', when: { category: ['critical'], steps: { atMost: 4 } }, then: { include: true } },
+  { id: 'include-confident', description: 'Confident detections within 5 steps', when: { confidence: { above: 0.8 }, steps: { atMost: 5 } }, then: { include: true } },
+
+  // Distance
+  { id: 'priority-1-step', when: { steps: { atMost: 1 } }, then: { priority: 50, alertType: 'urgent' } },
+  { id: 'priority-2-steps', when: { steps: { above: 1, atMost: 2 } }, then: { priority: 30 } },
+  { id: 'priority-4-steps', when: { steps: { above: 2, atMost: 4 } }, then: { priority: 15 } },
+  { id: 'priority-far', when: { steps: { above: 4 } }, then: { priority: { fact: 'steps', scale: -1, offset: 10, min: 0 } } },
+  { id: 'warning-3-steps', when: { steps: { atMost: 3 } }, then: { alertType: 'warning' } },
+
+  // Straight ahead matters more than the edges
+  { id: 'priority-center', when: {}, then: { priority: { fact: 'centerOffset', scale: -10, offset: 10 } } },
+
+  // Object type
+  { id: 'priority-critical', when: { category: ['critical'] }, then: { priority: 20, alertType: 'warning' } },
+  { id: 'priority-warning', when: { category: ['warning'] }, then: { priority: 10 } },
+  { id: 'priority-info', when: { category: ['info'] }, then: { priority: 5 } },
+
+  // Time to collision
+  { id: 'ttc-urgent', when: { onCollisionCourse: true, timeToCollision: { atMost: 3 } }, then: { priority: 40, alertType: 'urgent' } },
+  { id: 'ttc-warning', when: { onCollisionCourse: true, timeToCollision: { above: 3, atMost: 6 } }, then: { priority: 25, alertType: 'warning' } },
+  { id: 'ttc-far', when: { onCollisionCourse: true, timeToCollision: { above: 6 } }, then: { priority: 10 } },
+
+  // Movement
+  { id: 'priority-moving', when: { moving: true }, then: { priority: 15 } },
+  { id: 'priority-moving-fast', when: { moving: true, velocity: { above: 1 } }, then: { priority: 10 } },
+  { id: 'urgent-moving-close', when: { moving: true, steps: { atMost: 2 } }, then: { alertType: 'urgent' } },
+
+  // Confidence
+  { id: 'priority-confidence', when: {}, then: { priority: { fact: 'confidence', scale: 8 } } },
+];
+
+export interface RulePreset {
+  id: string;
+  name: string;
+  description: string;
+  rules: AlertRule[];
+}
+
+export const RULE_PRESETS: RulePreset[] = [
+  {
+    id: 'standard',
+    name: 'Standard',
+    description: 'Balanced alerts for everyday walking',
+    rules: STANDARD_RULES,
+  },
+  {
+    id: 'cautious',
+    name: 'Cautious',
+    description: 'Reports objects earlier and from further away',
+    rules: [
+      { id: 'include-within-8', description: 'Anything within 8 steps', when: { steps: { atMost: 8 } }, then: { include: true } },
+      ...STANDARD_RULES,
+      { id: 'warning-5-steps', when: { steps: { atMost: 5 } }, then: { alertType: 'warning' } },
+    ],
+  },
+  {
+    id: 'quiet',
+    name: 'Quiet',
+    description: 'Only close obstacles and anything heading your way',
+    rules: [
+      { id: 'exclude-far-static', description: 'Stationary objects more than 3 steps away', when: { steps: { above: 3 }, moving: false, onCollisionCourse: false }, then: { include: false } },
+      ...STANDARD_RULES,
+    ],
+  },
+];
+
+export const DEFAULT_ALERT_RULES = STANDARD_RULES;
+
+// Saved or imported settings with broken rules get the defaults rather than a pipeline that never alerts
+export function withValidRules(rules: unknown): AlertRule[] {
+  if (rules === undefined) return DEFAULT_ALERT_RULES;
+  try {
+    return validateRules(rules);
+  } catch (error) {
+    console.warn('⚠️ Alert rules are invalid, using the defaults:', (error as Error).message);
+    return DEFAULT_ALERT_RULES;
+  }
+}
+
+export function exportRules(rules: AlertRule[]): string {
+  return JSON.stringify(rules, null, 2);
+}
+
+/**
+ * Parses a JSON array of rules, checking the shape well enough that a typo
+ * fails here with a readable message instead of silently never matching.
+ */
+export function importRules(json: string): AlertRule[] {
+  return validateRules(JSON.parse(json));
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+const isOptionalNumber = (value: unknown) => value === undefined || isNumber(value);
+
+/**
+ * Checks rules that come from outside the app — imported, or read back from
+ * storage — and returns them typed. Errors name the offending rule.
+ */
+export function validateRules(parsed: unknown): AlertRule[] {
+  if (!Array.isArray(parsed)) {
+    throw new Error('Rules must be a JSON array');
+  }
+
+  const conditionKeys: (keyof RuleCondition)[] = [
+    'label', 'category', 'position', 'moving', 'onCollisionCourse', ...NUMERIC_FACTS,
+  ];
+  const ids = new Set<string>();
+
+  return parsed.map((value, index) => {
+    const rule = value as AlertRule;
+    const name = rule && typeof rule.id === 'string' ? `"${rule.id}"` : `#${index + 1}`;
+
+    if (!rule || typeof rule !== 'object' || typeof rule.id !== 'string' || !rule.id) {
+      throw new Error(`Rule ${name} needs a string id`);
+    }
+    if (ids.has(rule.id)) {
+      throw new Error(`Rule id ${name} is used twice`);
+    }
+    ids.add(rule.id);
+
+    if (!rule.when || typeof rule.when !== 'object' || !rule.then || typeof rule.then !== 'object') {
+      throw new Error(`Rule ${name} needs "when" and "then" objects`);
+    }
+    const { when } = rule;
+    const unknownKey = Object.keys(when).find(key => !conditionKeys.includes(key as keyof RuleCondition));
+    if (unknownKey) {
+      throw new Error(`Rule ${name} has unknown condition "${unknownKey}"`);
+    }
+    (['label', 'category'] as const).forEach(key => {
+      const list: unknown = when[key];
+      if (list !== undefined && (!Array.isArray(list) || !list.every(item => typeof item === 'string'))) {
+        throw new Error(`Rule ${name} needs "${key}" to be a list of strings`);
+      }
+    });
+    if (when.position !== undefined) {
+      if (!Array.isArray(when.position)) {
+        throw new Error(`Rule ${name} needs "position" to be a list`);
+      }
+      const unknownPosition = when.position.find(position => !POSITIONS.includes(position));
+      if (unknownPosition !== undefined) {
+        throw new Error(`Rule ${name} has unknown position "${unknownPosition}"`);
+      }
+    }
+    (['moving', 'onCollisionCourse'] as const).forEach(key => {
+      if (when[key] !== undefined && typeof when[key] !== 'boolean') {
+        throw new Error(`Rule ${name} needs "${key}" to be true or false`);
+      }
+    });
+    NUMERIC_FACTS.forEach(fact => {
+      const range = when[fact];
+      if (range === undefined) return;
+      if (!range || typeof range !== 'object' || !isOptionalNumber(range.above) || !isOptionalNumber(range.atMost)) {
+        throw new Error(`Rule ${name} needs numeric "above" and "atMost" bounds for "${fact}"`);
+      }
+    });
+
+    if (rule.then.include !== undefined && typeof rule.then.include !== 'boolean') {
+      throw new Error(`Rule ${name} needs "include" to be true or false`);
+    }
+    if (rule.then.alertType !== undefined && !SEVERITY.includes(rule.then.alertType)) {
+      throw new Error(`Rule ${name} has unknown alert type "${rule.then.alertType}"`);
+    }
+    const { priority } = rule.then;
+    if (priority !== undefined && !isNumber(priority)) {
+      if (
+        !priority ||
+        typeof priority !== 'object' ||
+        !isNumber(priority.scale) ||
+        !isOptionalNumber(priority.offset) ||
+        !isOptionalNumber(priority.min) ||
+        !isOptionalNumber(priority.max)
+      ) {
+        throw new Error(`Rule ${name} has an invalid priority`);
+      }
+      if (!NUMERIC_FACTS.includes(priority.fact)) {
+        throw new Error(`Rule ${name} has a priority on unknown fact "${priority.fact}"`);
+      }
+    }
+
+    return rule;
+  });
+}
@@ -0,0 +1,64 @@
+import { Platform } from 'react-native';
+import * as Device from 'expo-device';
+
+export interface CameraCalibration {
+  focalLengthRatio: number; // focal length in pixels / longer image side
+  referenceObject: string;
+  distance: number; // meters from the reference object when calibrated
+  calibratedAt: number;
+}
+
+export interface ReferenceObject {
+  id: string;
+  name: string;
+  height: number; // meters, measured along the side that is marked in the photo
+}
+
+export const REFERENCE_OBJECTS: ReferenceObject[] = [
+  { id: 'a4', name: 'A4 sheet (portrait)', height: 0.297 },
+  { id: 'letter', name: 'US Letter sheet (portrait)', height: 0.2794 },
+  { id: 'door', name: 'Standard door', height: 2.0 },
+];
+
+export { DEFAULT_FOCAL_LENGTH_RATIO } from './DistanceEstimator';
+
+// The camera frames come from: which side, and expo-camera's 0-1 zoom,
+// which on multi-camera phones also switches between lenses
+export interface CameraLens {
+  facing: 'front' | 'back';
+  zoom: number;
+}
+
+export const DEFAULT_LENS: CameraLens = { facing: 'back', zoom: 0 };
+
+/**
+ * Calibrations are stored per phone model, camera and zoom, so neither
+ * flipping the camera nor settings imported from another device carry over a
+ * focal length that doesn't apply. Unzoomed keys are just model/facing.
+ */
+export function cameraKey(lens: CameraLens = DEFAULT_LENS): string {
+  const model = Device.modelName ?? Device.modelId ?? Platform.OS;
+  return lens.zoom > 0 ? `${model}/${lens.facing}@${lens.zoom.toFixed(2)}` : `${model}/${lens.facing}`;
+}
+
+/**
+ * Pinhole model: an object of height H at distance d spans f·H/d pixels.
+ * The result is divided by the longer image side, which makes it independent
+ * of the resolution frames are later resized to (as long as aspect is kept).
+ */
+export function solveFocalLengthRatio(params: {
+  objectHeight: number; // meters
+  distance: number; // meters
+  spanFraction: number; // fraction of the image height the object covers
+  imageWidth: number;
+  imageHeight: number;
+}): number {
+  const { objectHeight, distance, spanFraction, imageWidth, imageHeight } = params;
+  if (objectHeight <= 0 || distance <= 0 || spanFraction <= 0) {
+    throw new Error('Calibration needs a positive object height, distance and span');
+  }
+
+  const spanPixels = spanFraction * imageHeight;
+  const focalLengthPixels = (spanPixels * distance) / objectHeight;
+  return focalLengthPixels / Math.max(imageWidth, imageHeight);
+}
@@ -0,0 +1,24 @@
+export interface Clock {
+  now(): number; // milliseconds since the epoch
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+// A clock that only moves when told to, so replays don't depend on how fast they run
+export class VirtualClock implements Clock {
+  constructor(private time = 0) {}
+
+  now(): number {
+    return this.time;
+  }
+
+  set(time: number) {
+    this.time = time;
+  }
+
+  advance(ms: number) {
+    this.time += ms;
+  }
+}
@@ -0,0 +1,91 @@
+export interface DeadReckoningOptions {
+  stepError: number; // standard deviation of one step as a fraction of step length
+  measurementError: number; // standard deviation of a detected distance as a fraction of it
+  minMeasurementError: number; // meters, floor for very close objects
+  resetSigmas: number; // measurements further off than this many deviations replace the estimate
+  maxAgeMs: number; // estimates not confirmed by a detection for this long are dropped
+}
+
+const DEFAULT_OPTIONS: DeadReckoningOptions = {
+  stepError: 0.15,
+  measurementError: 0.2,
+  minMeasurementError: 0.15,
+  resetSigmas: 3,
+  maxAgeMs: 8000,
+};
+
+interface Estimate {
+  distance: number; // meters
+  variance: number; // meters²
+  fixedAt: number; // last detection that confirmed it
+}
+
+/**
+ * Keeps each static obstacle's distance up to date while the user walks
+ * toward it. Every step shortens the estimate by one step length and makes
+ * it less certain; every detection pulls it back toward what the camera
+ * measured, weighted by how certain each side is (a 1-D Kalman filter).
+ */
+export class DeadReckoning {
+  private estimates: Map<string, Estimate> = new Map();
+  private options: DeadReckoningOptions;
+
+  constructor(options: Partial<DeadReckoningOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Folds a detected distance into the track's estimate and returns the
+   * reconciled distance. Moving objects aren't dead-reckoned: walking says
+   * nothing about where they will be, so the measurement is taken as is.
+   */
+  reconcile(trackId: string, measured: number, moving: boolean, now: number): number {
+    const estimate = this.estimates.get(trackId);
+    const measurementVariance = Math.max(
+      this.options.minMeasurementError,
+      measured * this.options.measurementError
+    ) ** 2;
+
+    if (moving) {
+      this.estimates.delete(trackId);
+      return measured;
+    }
+
+    const innovation = measured - (estimate?.distance ?? measured);
+    const innovationVariance = (estimate?.variance ?? 0) + measurementVariance;
+    if (!estimate || innovation ** 2 > this.options.resetSigmas ** 2 * innovationVariance) {
+      // First sight, or so far off that the user turned or it's something else
+      this.estimates.set(trackId, { distance: measured, variance: measurementVariance, fixedAt: now });
+      return measured;
+    }
+
+    const gain = estimate.variance / innovationVariance;
+    estimate.distance += gain * innovation;
+    estimate.variance *= 1 - gain;
+    estimate.fixedAt = now;
+    return estimate.distance;
+  }
+
+  /** Moves every estimate `steps` steps closer. */
+  walk(steps: number, stepLength: number, now: number) {
+    const stepVariance = (stepLength * this.options.stepError) ** 2;
+    for (const [trackId, estimate] of this.estimates.entries()) {
+      if (now - estimate.fixedAt > this.options.maxAgeMs) {
+        this.estimates.delete(trackId);
+        continue;
+      }
+      estimate.distance = Math.max(0, estimate.distance - steps * stepLength);
+      estimate.variance += steps * stepVariance;
+    }
+  }
+
+  estimate(trackId: string, now: number): number | undefined {
+    const estimate = this.estimates.get(trackId);
+    if (!estimate || now - estimate.fixedAt > this.options.maxAgeMs) return undefined;
+    return estimate.distance;
+  }
+
+  clear() {
+    this.estimates.clear();
+  }
+}
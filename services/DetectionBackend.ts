@@ -0,0 +1,77 @@
+import type { APIDetectionResponse, Detection } from './APIDetectionService';
+import type { CameraModel } from './Scenario';
+
+export interface DetectionFrame {
+  imageUri: string | null; // null when no camera frame could be captured
+  timestamp: number;
+  size?: { width: number; height: number }; // as captured, before any resize
+}
+
+export interface BackendHealth {
+  available: boolean;
+  lastCheck: number;
+  message?: string;
+}
+
+export interface BackendCapabilities {
+  requiresFrame: boolean; // needs a camera frame to produce detections
+  requiresNetwork: boolean;
+  simulated: boolean; // produces synthetic rather than observed detections
+}
+
+export interface ObjectCategories {
+  critical: readonly string[];
+  warning: readonly string[];
+  info: readonly string[];
+}
+
+// Shared helpers the service hands to every backend, so all of them produce
+// detections with the same geometry and distance model.
+export interface DetectionContext {
+  toDetections(response: APIDetectionResponse): Detection[];
+  metersToSteps(meters: number): number;
+  categories: ObjectCategories;
+  camera(): CameraModel; // as distances are estimated right now
+  objectHeight(label: string): number; // meters the size estimate assumes for the label
+}
+
+// Settings a backend may pick up from DetectionServiceConfig
+export interface BackendConfig {
+  apiUrl: string;
+  confidenceThreshold: number;
+  timeoutMs: number;
+  centerFocusOnly: boolean;
+  onDeviceModelUrl: string;
+  streamingEnabled: boolean; // use the /ws/detect stream when the server offers it
+  simulationScenario: string; // bundled scenario id, or 'random'
+  simulationSeed: number;
+}
+
+export interface DetectionBackend {
+  readonly name: string;
+  readonly capabilities: BackendCapabilities;
+  detect(frame: DetectionFrame, context: DetectionContext): Promise<Detection[]>;
+  checkHealth(force?: boolean): Promise<BackendHealth>;
+  getHealth(): BackendHealth;
+  configure?(config: BackendConfig): void;
+}
+
+export class DetectionBackendRegistry {
+  private backends: Map<string, DetectionBackend> = new Map();
+
+  register(backend: DetectionBackend) {
+    this.backends.set(backend.name, backend);
+  }
+
+  unregister(name: string) {
+    this.backends.delete(name);
+  }
+
+  get(name: string): DetectionBackend | undefined {
+    return this.backends.get(name);
+  }
+
+  list(): DetectionBackend[] {
+    return Array.from(this.backends.values());
+  }
+}
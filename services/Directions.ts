@@ -0,0 +1,80 @@
+import type { Translator } from './i18n';
+
+export type DirectionFormat = 'leftRight' | 'clock' | 'degrees';
+
+// Names live in the `directions.formats` catalog section; examples are
+// formatted from these bearings so they always match what is spoken
+export const DIRECTION_FORMATS: { id: DirectionFormat; exampleBearing: number }[] = [
+  { id: 'leftRight', exampleBearing: -30 },
+  { id: 'clock', exampleBearing: 60 },
+  { id: 'degrees', exampleBearing: 20 },
+];
+
+// Beyond this the object is "to your left/right". About the old x < 0.3 /
+// x > 0.7 cut-off for a portrait frame with the default focal length.
+const LEFT_RIGHT_THRESHOLD = 9;
+const STRAIGHT_AHEAD_THRESHOLD = 2;
+
+// Portrait 3:4, what phone cameras capture when no frame size is known
+export const DEFAULT_FRAME_ASPECT = 3 / 4;
+
+/**
+ * Horizontal bearing in degrees, negative to the left, from a normalized x
+ * position. `frameAspect` is width / height of the analyzed frame and
+ * `focalLengthRatio` the focal length over its longer side.
+ */
+export function bearingFromX(x: number, frameAspect: number, focalLengthRatio: number): number {
+  const width = frameAspect <= 1 ? frameAspect : 1; // relative to the longer side
+  return (Math.atan2((x - 0.5) * width, focalLengthRatio) * 180) / Math.PI;
+}
+
+// 12 o'clock is straight ahead, each hour is 30°
+export function clockHour(bearing: number): number {
+  const hour = Math.round(bearing / 30) % 12;
+  return hour <= 0 ? hour + 12 : hour;
+}
+
+export type DirectionSide = 'left' | 'center' | 'right';
+
+export function sideOf(bearing: number): DirectionSide {
+  if (bearing < -LEFT_RIGHT_THRESHOLD) return 'left';
+  if (bearing > LEFT_RIGHT_THRESHOLD) return 'right';
+  return 'center';
+}
+
+/**
+ * Spoken phrase appended to announcements. Empty for objects straight ahead
+ * in left/right format, which has always said nothing in that case.
+ */
+export function formatDirection(bearing: number, format: DirectionFormat, { t }: Translator): string {
+  switch (format) {
+    case 'clock':
+      return t('directions.clock', { count: clockHour(bearing) });
+    case 'degrees': {
+      const degrees = Math.round(Math.abs(bearing));
+      if (degrees < STRAIGHT_AHEAD_THRESHOLD) return t('directions.straightAhead');
+      return t(bearing < 0 ? 'directions.degreesLeft' : 'directions.degreesRight', { count: degrees });
+    }
+    default: {
+      const side = sideOf(bearing);
+      return side === 'center' ? '' : t(`directions.${side}`);
+    }
+  }
+}
+
+// Compact form for on-screen labels
+export function formatDirectionLabel(bearing: number, format: DirectionFormat, { t }: Translator): string {
+  switch (format) {
+    case 'clock':
+      return t('directions.short.clock', { count: clockHour(bearing) });
+    case 'degrees': {
+      const degrees = Math.round(Math.abs(bearing));
+      if (degrees < STRAIGHT_AHEAD_THRESHOLD) return '0°';
+      return t(bearing < 0 ? 'directions.short.degreesLeft' : 'directions.short.degreesRight', { count: degrees });
+    }
+    default: {
+      const side = sideOf(bearing);
+      return t(`directions.short.${side === 'center' ? 'ahead' : side}`);
+    }
+  }
+}
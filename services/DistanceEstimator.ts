@@ -0,0 +1,139 @@
+export interface DistanceEstimate {
+  distance: number; // meters, fused
+  sizeBased?: number;
+  groundPlane?: number;
+}
+
+export interface DistanceEstimatorConfig {
+  focalLengthRatio: number; // focal length in pixels / longer image side
+  cameraHeight: number; // meters above the ground
+}
+
+export interface DistanceInput {
+  objectHeight: number | null; // typical real height in meters, null when unknown
+  box: { x: number; y: number; width: number; height: number }; // normalized, top-left
+  imageWidth: number;
+  imageHeight: number;
+}
+
+// 600 px on a 640 px wide frame: the value the service used before calibration existed
+export const DEFAULT_FOCAL_LENGTH_RATIO = 0.9375;
+
+const MIN_DISTANCE = 0.5;
+const MAX_DISTANCE = 20;
+const EDGE_MARGIN = 0.02; // boxes this close to the frame edge are probably cut off
+const PITCH_MAX_AGE_MS = 1000;
+const PITCH_UNCERTAINTY = (2 * Math.PI) / 180; // sensor noise plus hand shake
+const BOX_EDGE_UNCERTAINTY = 0.01; // normalized jitter of the box bottom
+
+// Relative 1σ errors of the size-based estimate
+const SIZE_ERROR_KNOWN = 0.25; // real sizes vary around the typical one
+const SIZE_ERROR_UNKNOWN = 0.6; // default size guessed for an unknown label
+const SIZE_ERROR_TRUNCATED = 1.0; // part of the object is outside the frame
+
+function clamp(distance: number): number {
+  return Math.max(MIN_DISTANCE, Math.min(MAX_DISTANCE, distance));
+}
+
+/**
+ * Two independent monocular distance estimates:
+ *
+ * - size-based: pinhole model with the object's typical height;
+ * - ground-plane: the ray through the box's bottom edge, tilted by the phone
+ *   pitch, hits the floor at cameraHeight / tan(angle below horizon).
+ *
+ * Each comes with a standard deviation and the two are fused by inverse
+ * variance, so whichever is more trustworthy for this box dominates.
+ */
+export class DistanceEstimator {
+  private pitch: number | null = null; // radians the camera points below the horizon
+  private pitchUpdatedAt = 0;
+
+  constructor(
+    private config: DistanceEstimatorConfig,
+    private defaultObjectHeight: number = 1.0
+  ) {}
+
+  configure(config: Partial<DistanceEstimatorConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  updatePitch(pitch: number | null, timestamp: number = Date.now()) {
+    this.pitch = pitch;
+    this.pitchUpdatedAt = timestamp;
+  }
+
+  getPitch(): { pitch: number | null; updatedAt: number } {
+    return { pitch: this.pitch, updatedAt: this.pitchUpdatedAt };
+  }
+
+  // The pitch if it's recent enough to use, otherwise null
+  currentPitch(now: number = Date.now()): number | null {
+    return now - this.pitchUpdatedAt <= PITCH_MAX_AGE_MS ? this.pitch : null;
+  }
+
+  estimate(input: DistanceInput, now: number = Date.now()): DistanceEstimate {
+    const focalLength = this.config.focalLengthRatio * Math.max(input.imageWidth, input.imageHeight);
+    const candidates: { distance: number; sigma: number }[] = [];
+
+    const size = this.estimateFromSize(input, focalLength);
+    if (size) candidates.push(size);
+
+    const ground = this.currentPitch(now) !== null
+      ? this.estimateFromGround(input, focalLength)
+      : null;
+    if (ground) candidates.push(ground);
+
+    let weightSum = 0;
+    let weighted = 0;
+    candidates.forEach(({ distance, sigma }) => {
+      const weight = 1 / (sigma * sigma);
+      weightSum += weight;
+      weighted += distance * weight;
+    });
+
+    return {
+      distance: clamp(weightSum > 0 ? weighted / weightSum : MAX_DISTANCE),
+      sizeBased: size?.distance,
+      groundPlane: ground?.distance,
+    };
+  }
+
+  private estimateFromSize(input: DistanceInput, focalLength: number) {
+    const pixelHeight = input.box.height * input.imageHeight;
+    if (pixelHeight <= 0) return null;
+
+    const realHeight = input.objectHeight ?? this.defaultObjectHeight;
+    const distance = clamp((realHeight * focalLength) / pixelHeight);
+
+    const truncated = input.box.y <= EDGE_MARGIN || input.box.y + input.box.height >= 1 - EDGE_MARGIN;
+    const relativeError = truncated
+      ? SIZE_ERROR_TRUNCATED
+      : input.objectHeight !== null ? SIZE_ERROR_KNOWN : SIZE_ERROR_UNKNOWN;
+
+    return { distance, sigma: distance * relativeError };
+  }
+
+  private estimateFromGround(input: DistanceInput, focalLength: number) {
+    if (this.pitch === null) return null;
+
+    // The object's base is out of frame, so the bottom edge isn't on the floor
+    const bottom = input.box.y + input.box.height;
+    if (bottom >= 1 - EDGE_MARGIN) return null;
+
+    // Angle of the bottom-edge ray below the optical axis (principal point at center)
+    const offsetPixels = (bottom - 0.5) * input.imageHeight;
+    const angle = this.pitch + Math.atan2(offsetPixels, focalLength);
+    if (angle <= 0.02) return null; // at or above the horizon: never meets the floor
+
+    const distance = this.config.cameraHeight / Math.tan(angle);
+    if (distance > MAX_DISTANCE) return null;
+
+    // Propagate angular uncertainty: dd/dθ = h / sin²θ
+    const boxAngleError = (BOX_EDGE_UNCERTAINTY * input.imageHeight) / focalLength;
+    const angleError = Math.hypot(PITCH_UNCERTAINTY, boxAngleError);
+    const sigma = (this.config.cameraHeight / Math.pow(Math.sin(angle), 2)) * angleError;
+
+    return { distance: clamp(distance), sigma };
+  }
+}
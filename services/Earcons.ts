@@ -0,0 +1,187 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { AudioPlayer, createAudioPlayer, setAudioModeAsync } from 'expo-audio';
+import type { AlertType } from './AlertRules';
+
+type Waveform = 'sine' | 'triangle' | 'square';
+
+export interface ToneSpec {
+  waveform: Waveform;
+  frequency: number; // Hz
+  pulses: number;
+  pulseMs: number;
+  gapMs: number;
+  gain: number; // 0-1, square waves sound louder at the same level
+}
+
+// Severity is heard in the timbre before any words arrive: urgent is a
+// harsh rapid triple, warning a double, info a single soft tone
+export const EARCONS: Record<AlertType, ToneSpec> = {
+  urgent: { waveform: 'square', frequency: 988, pulses: 3, pulseMs: 70, gapMs: 40, gain: 0.3 },
+  warning: { waveform: 'triangle', frequency: 740, pulses: 2, pulseMs: 90, gapMs: 60, gain: 0.5 },
+  info: { waveform: 'sine', frequency: 523, pulses: 1, pulseMs: 120, gapMs: 0, gain: 0.4 },
+};
+
+const SAMPLE_RATE = 22050;
+const RAMP_MS = 8; // fade each pulse in and out so it doesn't click
+// Native earcons are rendered to files, one per pan position: 4 per side
+// plus center is finer than anyone can place a short beep
+const PAN_STEPS = 4;
+
+export function toneDuration({ pulses, pulseMs, gapMs }: ToneSpec): number {
+  return pulses * pulseMs + (pulses - 1) * gapMs;
+}
+
+// -1 is hard left, 1 hard right, from a normalized image x
+export function panFromX(x: number): number {
+  return Math.max(-1, Math.min(1, (x - 0.5) * 2));
+}
+
+function oscillator(waveform: Waveform, phase: number): number {
+  const cycle = phase - Math.floor(phase);
+  switch (waveform) {
+    case 'square':
+      return cycle < 0.5 ? 1 : -1;
+    case 'triangle':
+      return 4 * Math.abs(cycle - 0.5) - 1;
+    default:
+      return Math.sin(2 * Math.PI * cycle);
+  }
+}
+
+// Equal-power pan law: the tone is as loud in the center as at either side
+function channelGains(pan: number): [number, number] {
+  const angle = ((pan + 1) * Math.PI) / 4;
+  return [Math.cos(angle), Math.sin(angle)];
+}
+
+/** Interleaved 16-bit stereo samples of the tone, panned. */
+export function renderTone(spec: ToneSpec, pan: number): Int16Array {
+  const [left, right] = channelGains(pan);
+  const frames = Math.ceil((toneDuration(spec) * SAMPLE_RATE) / 1000);
+  const samples = new Int16Array(frames * 2);
+  const period = spec.pulseMs + spec.gapMs;
+
+  for (let frame = 0; frame < frames; frame++) {
+    const ms = (frame * 1000) / SAMPLE_RATE;
+    const inPulse = ms % period;
+    if (inPulse >= spec.pulseMs) continue; // gap between pulses
+    const envelope = Math.min(1, inPulse / RAMP_MS, (spec.pulseMs - inPulse) / RAMP_MS);
+    const value = oscillator(spec.waveform, (frame * spec.frequency) / SAMPLE_RATE) * envelope * spec.gain * 32767;
+    samples[frame * 2] = Math.round(value * left);
+    samples[frame * 2 + 1] = Math.round(value * right);
+  }
+  return samples;
+}
+
+function encodeWav(samples: Int16Array, channels = 2): Uint8Array {
+  const dataSize = samples.length * 2;
+  const bytes = new Uint8Array(44 + dataSize);
+  const view = new DataView(bytes.buffer);
+  const writeText = (offset: number, text: string) =>
+    [...text].forEach((char, index) => view.setUint8(offset + index, char.charCodeAt(0)));
+
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM header size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * channels * 2, true); // byte rate
+  view.setUint16(32, channels * 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeText(36, 'data');
+  view.setUint32(40, dataSize, true);
+  samples.forEach((sample, index) => view.setInt16(44 + index * 2, sample, true));
+  return bytes;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Plays short stereo-panned tones placed where the obstacle is. The web
+ * uses the Web Audio API; native platforms have no panning control, so the
+ * pan is baked into small WAV files rendered on first use.
+ */
+export class EarconPlayer {
+  private players: Map<string, AudioPlayer> = new Map();
+  private audioContext: AudioContext | null = null;
+  private audioModeSet = false;
+
+  /** Plays the earcon and returns how long it lasts in milliseconds. */
+  play(type: AlertType, x: number): number {
+    return this.playTone(type, EARCONS[type], panFromX(x));
+  }
+
+  /**
+   * Plays any tone. `name` identifies the spec: native caches one rendered
+   * file per name and pan position, so different specs need different names.
+   */
+  playTone(name: string, spec: ToneSpec, pan: number): number {
+    const playing = Platform.OS === 'web' ? this.playWeb(spec, pan) : this.playNative(name, spec, pan);
+    playing.catch(error => console.warn('⚠️ Earcon failed:', error));
+    return toneDuration(spec);
+  }
+
+  private async playWeb(spec: ToneSpec, pan: number) {
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext();
+    }
+    const context = this.audioContext;
+    // Browsers start the context suspended until the page has had a tap
+    if (context.state === 'suspended') await context.resume();
+
+    const panner = new StereoPannerNode(context, { pan });
+    panner.connect(context.destination);
+
+    const ramp = RAMP_MS / 1000;
+    for (let pulse = 0; pulse < spec.pulses; pulse++) {
+      const start = context.currentTime + (pulse * (spec.pulseMs + spec.gapMs)) / 1000;
+      const end = start + spec.pulseMs / 1000;
+      const gain = new GainNode(context, { gain: 0 });
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(spec.gain, start + ramp);
+      gain.gain.setValueAtTime(spec.gain, end - ramp);
+      gain.gain.linearRampToValueAtTime(0, end);
+      gain.connect(panner);
+
+      const tone = new OscillatorNode(context, { type: spec.waveform, frequency: spec.frequency });
+      tone.connect(gain);
+      tone.start(start);
+      tone.stop(end);
+    }
+  }
+
+  private async playNative(name: string, spec: ToneSpec, pan: number) {
+    const step = Math.round(pan * PAN_STEPS);
+    const key = `${name}_${step}`;
+    let player = this.players.get(key);
+
+    if (!player) {
+      if (!this.audioModeSet) {
+        // Don't cut off speech or the user's own audio
+        await setAudioModeAsync({ playsInSilentMode: true, interruptionMode: 'mixWithOthers' });
+        this.audioModeSet = true;
+      }
+      const uri = `${FileSystem.cacheDirectory}earcon_${key}.wav`;
+      const wav = encodeWav(renderTone(spec, step / PAN_STEPS));
+      await FileSystem.writeAsStringAsync(uri, bytesToBase64(wav), {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      player = createAudioPlayer({ uri });
+      this.players.set(key, player);
+      console.log(`🔊 Rendered earcon ${key}`);
+    }
+
+    await player.seekTo(0);
+    player.play();
+  }
+}
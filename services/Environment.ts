@@ -0,0 +1,33 @@
+import { Clock, systemClock } from './Clock';
+import type { PreparedFrame } from './backends/prepareFrame';
+
+export type Transport = (url: string, init?: RequestInit) => Promise<Response>;
+
+// Resizes a camera frame to the detector input size and encodes it as JPEG
+export type FramePreprocessor = (
+  imageUri: string,
+  size?: { width: number; height: number },
+  options?: { base64: boolean; sourceSize?: { width: number; height: number } }
+) => Promise<PreparedFrame>;
+
+/**
+ * Everything the detection pipeline and its backends take from the platform.
+ * The app passes React Native's (see hooks/useDetectionService.ts); anything
+ * else, like the headless runner, can run the same code with its own.
+ */
+export interface Environment {
+  clock: Clock;
+  transport: Transport;
+  preprocessFrame: FramePreprocessor;
+  platform: string; // Platform.OS in the app
+}
+
+// Outside the app there are no camera frames to prepare
+export const headlessEnvironment: Environment = {
+  clock: systemClock,
+  transport: (url, init) => fetch(url, init),
+  preprocessFrame: async () => {
+    throw new Error('Camera frames can only be prepared in the app');
+  },
+  platform: 'node',
+};
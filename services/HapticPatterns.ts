@@ -0,0 +1,105 @@
+import { Platform } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import type { AlertType } from './AlertRules';
+import type { DirectionSide } from './Directions';
+
+export const IMPACT_STRENGTHS = ['light', 'medium', 'heavy', 'soft', 'rigid'] as const;
+export type ImpactStrength = (typeof IMPACT_STRENGTHS)[number];
+
+// An impact, or a pause in milliseconds before the next step
+export type HapticStep = ImpactStrength | number;
+export type HapticPattern = HapticStep[];
+export type HapticPatterns = Record<AlertType, Record<DirectionSide, HapticPattern>>;
+
+export const PAUSE_LENGTHS = [80, 150, 250, 400, 600];
+export const MAX_PATTERN_STEPS = 12;
+
+const IMPACT_STYLES: Record<ImpactStrength, Haptics.ImpactFeedbackStyle> = {
+  light: Haptics.ImpactFeedbackStyle.Light,
+  medium: Haptics.ImpactFeedbackStyle.Medium,
+  heavy: Haptics.ImpactFeedbackStyle.Heavy,
+  soft: Haptics.ImpactFeedbackStyle.Soft,
+  rigid: Haptics.ImpactFeedbackStyle.Rigid,
+};
+
+// The original patterns mark the center. A quick double tap before them
+// means left, after them means right: "tap-tap, buzz" vs "buzz, tap-tap".
+const CENTER_PATTERNS: Record<AlertType, HapticPattern> = {
+  urgent: ['heavy', 150, 'heavy', 150, 'heavy'],
+  warning: ['medium', 200, 'medium'],
+  info: ['light'],
+};
+const SIDE_MARKER: HapticPattern = ['rigid', 80, 'rigid'];
+const SIDE_GAP = 250;
+
+function directional(center: HapticPattern): Record<DirectionSide, HapticPattern> {
+  return {
+    left: [...SIDE_MARKER, SIDE_GAP, ...center],
+    center,
+    right: [...center, SIDE_GAP, ...SIDE_MARKER],
+  };
+}
+
+export const DEFAULT_HAPTIC_PATTERNS: HapticPatterns = {
+  urgent: directional(CENTER_PATTERNS.urgent),
+  warning: directional(CENTER_PATTERNS.warning),
+  info: directional(CENTER_PATTERNS.info),
+};
+
+function isStep(step: unknown): step is HapticStep {
+  return (
+    (typeof step === 'number' && step > 0 && step <= 2000) ||
+    IMPACT_STRENGTHS.includes(step as ImpactStrength)
+  );
+}
+
+// Saved patterns keep the user's edits; anything missing or malformed falls back to the default
+export function withDefaultHapticPatterns(patterns: Partial<HapticPatterns> | undefined): HapticPatterns {
+  const merged = { ...DEFAULT_HAPTIC_PATTERNS };
+  (Object.keys(DEFAULT_HAPTIC_PATTERNS) as AlertType[]).forEach(type => {
+    const sides = { ...DEFAULT_HAPTIC_PATTERNS[type] };
+    (Object.keys(sides) as DirectionSide[]).forEach(side => {
+      const saved = patterns?.[type]?.[side];
+      if (Array.isArray(saved) && saved.every(isStep)) sides[side] = saved.slice(0, MAX_PATTERN_STEPS);
+    });
+    merged[type] = sides;
+  });
+  return merged;
+}
+
+export function patternDuration(pattern: HapticPattern): number {
+  return pattern.reduce<number>((total, step) => total + (typeof step === 'number' ? step : 0), 0);
+}
+
+/**
+ * Plays haptic patterns one at a time: starting a pattern cancels whatever
+ * is left of the previous one, so alerts never blur into each other.
+ */
+export class HapticPlayer {
+  private timers: ReturnType<typeof setTimeout>[] = [];
+
+  play(pattern: HapticPattern) {
+    this.cancel();
+    if (Platform.OS === 'web') return;
+
+    let at = 0;
+    pattern.forEach(step => {
+      if (typeof step === 'number') {
+        at += step;
+        return;
+      }
+      const impact = () => {
+        Haptics.impactAsync(IMPACT_STYLES[step]).catch(error =>
+          console.warn('⚠️ Haptic feedback failed:', error)
+        );
+      };
+      if (at === 0) impact();
+      else this.timers.push(setTimeout(impact, at));
+    });
+  }
+
+  cancel() {
+    this.timers.forEach(clearTimeout);
+    this.timers = [];
+  }
+}
@@ -0,0 +1,107 @@
+import type { ObjectCategories } from './DetectionBackend';
+import { ObjectCategory } from './backends/serverCapabilities';
+
+export interface TaxonomyEntry {
+  category: ObjectCategory;
+  size: number | null; // typical height in meters, null to use the default
+  announce: boolean; // speak alerts for this label
+  vibrate: boolean; // vibrate for this label when close
+  ignore: boolean; // drop detections of this label entirely
+}
+
+export type ObjectTaxonomy = Record<string, TaxonomyEntry>;
+
+export const DEFAULT_OBJECT_SIZE = 1.0;
+
+export const OBJECT_CATEGORIES: ObjectCategory[] = ['critical', 'warning', 'info'];
+
+function entry(category: ObjectCategory, size: number | null): TaxonomyEntry {
+  return { category, size, announce: true, vibrate: true, ignore: false };
+}
+
+export const DEFAULT_TAXONOMY: ObjectTaxonomy = {
+  person: entry('critical', 1.7),
+  car: entry('critical', 4.5),
+  bicycle: entry('critical', 1.8),
+  motorcycle: entry('critical', 2.0),
+  truck: entry('critical', 8.0),
+  bus: entry('critical', 12.0),
+  chair: entry('warning', 0.8),
+  table: entry('warning', 1.2),
+  door: entry('warning', 2.0),
+  pole: entry('warning', 0.2),
+  stairs: entry('warning', null),
+  step: entry('warning', null),
+  bench: entry('warning', 1.5),
+  wall: entry('info', null),
+  tree: entry('info', null),
+  'trash can': entry('info', null),
+  sign: entry('info', null),
+  bottle: entry('info', 0.25),
+  cup: entry('info', 0.1),
+};
+
+// Labels per category, leaving out ignored ones
+export function categoriesOf(taxonomy: ObjectTaxonomy): ObjectCategories {
+  const categories: Record<ObjectCategory, string[]> = { critical: [], warning: [], info: [] };
+  Object.entries(taxonomy).forEach(([label, { category, ignore }]) => {
+    if (!ignore) categories[category].push(label);
+  });
+  return categories;
+}
+
+// Saved taxonomies keep the user's edits and pick up labels added to the defaults later
+export function withDefaultTaxonomy(taxonomy: ObjectTaxonomy | undefined): ObjectTaxonomy {
+  return { ...DEFAULT_TAXONOMY, ...taxonomy };
+}
+
+export function exportTaxonomy(taxonomy: ObjectTaxonomy): string {
+  return JSON.stringify(taxonomy, null, 2);
+}
+
+/**
+ * Parses and validates a taxonomy exported by `exportTaxonomy`. Missing flags
+ * fall back to the defaults for that label; anything malformed throws with a
+ * message naming the offending label.
+ */
+export function importTaxonomy(json: string): ObjectTaxonomy {
+  const parsed: unknown = JSON.parse(json);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Taxonomy must be a JSON object keyed by label');
+  }
+
+  const taxonomy: ObjectTaxonomy = {};
+  Object.entries(parsed as Record<string, unknown>).forEach(([rawLabel, value]) => {
+    const label = rawLabel.trim().toLowerCase();
+    if (!label || !value || typeof value !== 'object') {
+      throw new Error(`Invalid entry for "${rawLabel}"`);
+    }
+
+    const fields = value as Record<string, unknown>;
+    const base = DEFAULT_TAXONOMY[label] ?? entry('info', null);
+
+    if (fields.category !== undefined && !OBJECT_CATEGORIES.includes(fields.category as ObjectCategory)) {
+      throw new Error(`"${rawLabel}" has unknown category ${String(fields.category)}`);
+    }
+    if (
+      fields.size !== undefined &&
+      fields.size !== null &&
+      !(typeof fields.size === 'number' && fields.size > 0 && isFinite(fields.size))
+    ) {
+      throw new Error(`"${rawLabel}" needs a positive size in meters`);
+    }
+
+    const flag = (key: 'announce' | 'vibrate' | 'ignore') =>
+      typeof fields[key] === 'boolean' ? (fields[key] as boolean) : base[key];
+
+    taxonomy[label] = {
+      category: (fields.category as ObjectCategory | undefined) ?? base.category,
+      size: fields.size === undefined ? base.size : (fields.size as number | null),
+      announce: flag('announce'),
+      vibrate: flag('vibrate'),
+      ignore: flag('ignore'),
+    };
+  });
+
+  return taxonomy;
+}
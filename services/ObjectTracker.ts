@@ -0,0 +1,241 @@
+import type { Detection } from './APIDetectionService';
+
+type Box = Detection['boundingBox']; // normalized, top-left origin
+
+export interface Track {
+  id: string;
+  label: string;
+  box: Box; // last filtered box
+  velocity: Box; // change of each box component per second
+  history: Detection[]; // most recent last
+  hits: number;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export interface ObjectTrackerOptions {
+  iouThreshold: number; // minimum overlap between predicted and detected box
+  centerGate: number; // fallback match radius (normalized) for fast movers with no overlap
+  maxAgeMs: number; // drop tracks unmatched for this long
+  historySize: number;
+  movementThreshold: number; // normalized center shift per frame that counts as moving
+  smoothing: number; // 0-1 weight of the new measurement in the motion model
+  collisionCorridor: number; // half-width (normalized) of the walking path ahead
+  maxTimeToCollision: number; // seconds; slower approaches are treated as static
+}
+
+const DEFAULT_OPTIONS: ObjectTrackerOptions = {
+  iouThreshold: 0.1,
+  centerGate: 0.12,
+  maxAgeMs: 5000,
+  historySize: 5,
+  movementThreshold: 0.05,
+  smoothing: 0.6,
+  collisionCorridor: 0.15,
+  maxTimeToCollision: 15,
+};
+
+function iou(a: Box, b: Box): number {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+function centerDistance(a: Box, b: Box): number {
+  return Math.hypot(
+    a.x + a.width / 2 - (b.x + b.width / 2),
+    a.y + a.height / 2 - (b.y + b.height / 2)
+  );
+}
+
+/**
+ * SORT-style multi-object tracker: each track predicts its box forward with
+ * a constant-velocity model, detections are associated to predictions by IoU
+ * (greedy, best overlap first, same label only) and unmatched detections
+ * start new tracks. Track IDs stay stable for as long as an object is seen.
+ */
+export class ObjectTracker {
+  private tracks: Map<string, Track> = new Map();
+  private nextId = 1;
+  private options: ObjectTrackerOptions;
+
+  constructor(options: Partial<ObjectTrackerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Associates this frame's detections with existing tracks and returns them
+   * with `id`/`trackId` set to the track ID and movement filled in.
+   */
+  update(detections: Detection[], now: number): Detection[] {
+    this.pruneStale(now);
+
+    const predictions = Array.from(this.tracks.values()).map(track => ({
+      track,
+      box: this.predict(track, now),
+    }));
+
+    // Score every plausible pairing, then take them best-first
+    const candidates: { trackIndex: number; detectionIndex: number; score: number }[] = [];
+    predictions.forEach(({ track, box }, trackIndex) => {
+      detections.forEach((detection, detectionIndex) => {
+        if (detection.label !== track.label) return;
+
+        const overlap = iou(box, detection.boundingBox);
+        if (overlap >= this.options.iouThreshold) {
+          candidates.push({ trackIndex, detectionIndex, score: overlap });
+        } else if (centerDistance(box, detection.boundingBox) <= this.options.centerGate) {
+          // Below any IoU match, so overlap always wins
+          candidates.push({ trackIndex, detectionIndex, score: overlap * 0.01 });
+        }
+      });
+    });
+    candidates.sort((a, b) => b.score - a.score);
+
+    const assigned = new Map<number, Track>();
+    const usedTracks = new Set<number>();
+    for (const candidate of candidates) {
+      if (usedTracks.has(candidate.trackIndex) || assigned.has(candidate.detectionIndex)) continue;
+      usedTracks.add(candidate.trackIndex);
+      assigned.set(candidate.detectionIndex, predictions[candidate.trackIndex].track);
+    }
+
+    return detections.map((detection, index) => {
+      const track = assigned.get(index) ?? this.createTrack(detection, now);
+      return this.applyMeasurement(track, detection, now);
+    });
+  }
+
+  getTrack(id: string): Track | undefined {
+    return this.tracks.get(id);
+  }
+
+  getTracks(): Track[] {
+    return Array.from(this.tracks.values());
+  }
+
+  clear() {
+    this.tracks.clear();
+  }
+
+  private predict(track: Track, now: number): Box {
+    const dt = (now - track.lastSeen) / 1000;
+    return {
+      x: track.box.x + track.velocity.x * dt,
+      y: track.box.y + track.velocity.y * dt,
+      width: Math.max(0.001, track.box.width + track.velocity.width * dt),
+      height: Math.max(0.001, track.box.height + track.velocity.height * dt),
+    };
+  }
+
+  private createTrack(detection: Detection, now: number): Track {
+    const track: Track = {
+      id: `track_${this.nextId++}`,
+      label: detection.label,
+      box: { ...detection.boundingBox },
+      velocity: { x: 0, y: 0, width: 0, height: 0 },
+      history: [],
+      hits: 0,
+      firstSeen: now,
+      lastSeen: now,
+    };
+    this.tracks.set(track.id, track);
+    return track;
+  }
+
+  private applyMeasurement(track: Track, detection: Detection, now: number): Detection {
+    const dt = (now - track.lastSeen) / 1000;
+    const measured = detection.boundingBox;
+
+    if (track.hits > 0 && dt > 0) {
+      const alpha = this.options.smoothing;
+      (Object.keys(track.velocity) as (keyof Box)[]).forEach(key => {
+        const observedRate = (measured[key] - track.box[key]) / dt;
+        track.velocity[key] = alpha * observedRate + (1 - alpha) * track.velocity[key];
+      });
+    }
+
+    track.box = { ...measured };
+    track.hits += 1;
+    track.lastSeen = now;
+
+    const tracked: Detection = { ...detection, id: track.id, trackId: track.id };
+    const previous = track.history[track.history.length - 1];
+
+    if (previous) {
+      const movement = Math.hypot(tracked.x - previous.x, tracked.y - previous.y);
+      const seconds = (tracked.timestamp - previous.timestamp) / 1000;
+      tracked.isMoving = movement > this.options.movementThreshold;
+      if (seconds > 0) {
+        // Lateral shift scaled by distance approximates meters for a ~53°
+        // field of view (2·tan(26.5°) ≈ 1)
+        const lateral = (tracked.x - previous.x) * tracked.distance;
+        const approach = tracked.distance - previous.distance;
+        tracked.velocity = Math.hypot(lateral, approach) / seconds;
+      }
+    }
+
+    track.history.push(tracked);
+    if (track.history.length > this.options.historySize) {
+      track.history.shift();
+    }
+
+    const timeToCollision = this.estimateTimeToCollision(track);
+    if (timeToCollision !== undefined) {
+      tracked.timeToCollision = timeToCollision;
+      tracked.onCollisionCourse = this.isOnCollisionCourse(track, timeToCollision);
+    }
+
+    return tracked;
+  }
+
+  /**
+   * Time-to-contact from looming: an object closing at constant speed has
+   * TTC = h / (dh/dt), where h is its image height. The growth rate is a
+   * least-squares slope over the track history to damp per-frame box jitter.
+   */
+  private estimateTimeToCollision(track: Track): number | undefined {
+    const history = track.history;
+    if (history.length < 2) return undefined;
+
+    const t0 = history[0].timestamp;
+    const n = history.length;
+    const meanT = history.reduce((sum, d) => sum + (d.timestamp - t0) / 1000, 0) / n;
+    const meanH = history.reduce((sum, d) => sum + d.height, 0) / n;
+    let covariance = 0;
+    let variance = 0;
+    history.forEach(d => {
+      const t = (d.timestamp - t0) / 1000 - meanT;
+      covariance += t * (d.height - meanH);
+      variance += t * t;
+    });
+    if (variance === 0) return undefined;
+
+    const growthRate = covariance / variance;
+    if (growthRate <= 0) return undefined; // not getting closer
+
+    const timeToCollision = history[n - 1].height / growthRate;
+    return timeToCollision <= this.options.maxTimeToCollision ? timeToCollision : undefined;
+  }
+
+  // Projects the box center forward to the moment of contact and checks
+  // whether any of the box then overlaps the path straight ahead
+  private isOnCollisionCourse(track: Track, timeToCollision: number): boolean {
+    const centerVelocity = track.velocity.x + track.velocity.width / 2;
+    const centerX = track.box.x + track.box.width / 2 + centerVelocity * timeToCollision;
+    const halfWidth = track.box.width / 2;
+    return Math.abs(centerX - 0.5) <= this.options.collisionCorridor + halfWidth;
+  }
+
+  private pruneStale(now: number) {
+    for (const [id, track] of this.tracks.entries()) {
+      if (now - track.lastSeen > this.options.maxAgeMs) {
+        this.tracks.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,33 @@
+export interface Random {
+  next(): number; // uniform in [0, 1)
+  range(min: number, max: number): number;
+  chance(probability: number): boolean;
+  normal(mean?: number, deviation?: number): number;
+  pick<T>(items: readonly T[]): T;
+}
+
+/**
+ * Deterministic pseudo-random numbers (mulberry32): the same seed always
+ * gives the same sequence, on every platform. Not for anything secret.
+ */
+export function seededRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    range: (min, max) => min + next() * (max - min),
+    chance: probability => next() < probability,
+    // Box-Muller; 1 - next() keeps the logarithm away from zero
+    normal: (mean = 0, deviation = 1) =>
+      mean + deviation * Math.sqrt(-2 * Math.log(1 - next())) * Math.cos(2 * Math.PI * next()),
+    pick: items => items[Math.floor(next() * items.length)],
+  };
+}
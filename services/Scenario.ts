@@ -0,0 +1,214 @@
+import type { APIDetection, APIDetectionResponse } from './APIDetectionService';
+import { Random, seededRandom } from './Random';
+
+// Positions are relative to the user when the object appears: meters
+// ahead, and meters to the right (negative is left). Velocities likewise, per second.
+export interface ScenarioVector {
+  ahead: number;
+  right: number;
+}
+
+export interface ScenarioObject {
+  label: string;
+  start: ScenarioVector;
+  velocity?: ScenarioVector;
+  appearAt?: number; // seconds into the scenario, default 0
+  disappearAt?: number; // seconds, default the end of the scenario
+  height?: number; // meters, default the label's typical size
+  width?: number; // meters, default half the height
+  confidence?: number; // mean detector confidence, default 0.85
+}
+
+export interface ScenarioNoise {
+  jitter: number; // standard deviation of each box edge, as a fraction of the frame
+  missRate: number; // chance a visible object goes undetected in a frame
+  confidence: number; // standard deviation of the reported confidence
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  description?: string;
+  duration: number; // seconds; playback starts over after this
+  walkingSpeed?: number; // m/s the user walks straight ahead, default 0
+  noise?: Partial<ScenarioNoise>;
+  objects: ScenarioObject[];
+}
+
+// The camera distances are estimated with; projecting through the same
+// model is what makes simulated boxes come back at the scripted distances
+export interface CameraModel {
+  focalLengthRatio: number; // focal length in pixels / longer image side
+  height: number; // meters above the ground
+  pitch: number | null; // radians below the horizon, null for level
+}
+
+export const SCENARIO_FRAME = { width: 480, height: 640 }; // portrait, like the app
+
+const DEFAULT_NOISE: ScenarioNoise = { jitter: 0.004, missRate: 0.05, confidence: 0.04 };
+const DEFAULT_CONFIDENCE = 0.85;
+const MIN_DEPTH = 0.3; // meters; anything nearer is out of the camera's view
+const MIN_BOX_PIXELS = 4;
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value);
+}
+
+function checkVector(value: unknown, where: string): ScenarioVector {
+  const vector = value as Partial<ScenarioVector> | null;
+  if (!vector || !isNumber(vector.ahead) || !isNumber(vector.right)) {
+    throw new Error(`${where} needs numeric "ahead" and "right"`);
+  }
+  return { ahead: vector.ahead, right: vector.right };
+}
+
+/**
+ * Validates a scenario parsed from JSON. Throws with a message naming the
+ * offending object, so a hand-written timeline is easy to fix.
+ */
+export function parseScenario(value: unknown): Scenario {
+  const raw = value as Partial<Scenario> | null;
+  if (!raw || typeof raw !== 'object') throw new Error('Scenario must be a JSON object');
+  if (typeof raw.id !== 'string' || !raw.id) throw new Error('Scenario needs an "id"');
+  if (!isNumber(raw.duration) || raw.duration <= 0) throw new Error(`${raw.id}: "duration" must be positive seconds`);
+  if (!Array.isArray(raw.objects)) throw new Error(`${raw.id}: "objects" must be an array`);
+  if (raw.walkingSpeed !== undefined && !isNumber(raw.walkingSpeed)) {
+    throw new Error(`${raw.id}: "walkingSpeed" must be a number`);
+  }
+
+  const objects = raw.objects.map((object, index): ScenarioObject => {
+    const where = `${raw.id} object ${index + 1}`;
+    if (!object || typeof object.label !== 'string' || !object.label) throw new Error(`${where} needs a "label"`);
+    (['appearAt', 'disappearAt', 'height', 'width', 'confidence'] as const).forEach(key => {
+      if (object[key] !== undefined && !(isNumber(object[key]) && object[key]! >= 0)) {
+        throw new Error(`${where} (${object.label}): "${key}" must be a non-negative number`);
+      }
+    });
+    return {
+      ...object,
+      label: object.label.trim().toLowerCase(),
+      start: checkVector(object.start, `${where} (${object.label}) "start"`),
+      velocity: object.velocity && checkVector(object.velocity, `${where} (${object.label}) "velocity"`),
+    };
+  });
+
+  return {
+    id: raw.id,
+    name: typeof raw.name === 'string' ? raw.name : raw.id,
+    description: raw.description,
+    duration: raw.duration,
+    walkingSpeed: raw.walkingSpeed,
+    noise: raw.noise,
+    objects,
+  };
+}
+
+/**
+ * Pixel box [x1, y1, x2, y2] of an upright object standing on the floor,
+ * through a pinhole camera tilted down by the pitch. Null when it's behind
+ * the camera or out of frame.
+ */
+export function projectObject(
+  position: ScenarioVector,
+  size: { height: number; width: number },
+  camera: CameraModel
+): [number, number, number, number] | null {
+  const { width: imageWidth, height: imageHeight } = SCENARIO_FRAME;
+  const focalLength = camera.focalLengthRatio * Math.max(imageWidth, imageHeight);
+  const pitch = camera.pitch ?? 0;
+  const cos = Math.cos(pitch);
+  const sin = Math.sin(pitch);
+
+  const corners: [number, number][] = [];
+  for (const right of [position.right - size.width / 2, position.right + size.width / 2]) {
+    for (const elevation of [0, size.height]) {
+      const below = camera.height - elevation; // meters below the camera
+      const depth = position.ahead * cos + below * sin;
+      if (depth < MIN_DEPTH) return null;
+      const down = below * cos - position.ahead * sin;
+      corners.push([
+        imageWidth / 2 + (focalLength * right) / depth,
+        imageHeight / 2 + (focalLength * down) / depth,
+      ]);
+    }
+  }
+
+  const xs = corners.map(([x]) => x);
+  const ys = corners.map(([, y]) => y);
+  const x1 = Math.max(0, Math.min(...xs));
+  const x2 = Math.min(imageWidth, Math.max(...xs));
+  const y1 = Math.max(0, Math.min(...ys));
+  const y2 = Math.min(imageHeight, Math.max(...ys));
+  if (x2 - x1 < MIN_BOX_PIXELS || y2 - y1 < MIN_BOX_PIXELS) return null;
+  return [x1, y1, x2, y2];
+}
+
+// Where the object is `time` seconds into the scenario, or null when it isn't there
+export function positionAt(scenario: Scenario, object: ScenarioObject, time: number): ScenarioVector | null {
+  const appearAt = object.appearAt ?? 0;
+  const disappearAt = object.disappearAt ?? scenario.duration;
+  if (time < appearAt || time >= disappearAt) return null;
+
+  const elapsed = time - appearAt;
+  const velocity = object.velocity ?? { ahead: 0, right: 0 };
+  return {
+    ahead: object.start.ahead + (velocity.ahead - (scenario.walkingSpeed ?? 0)) * elapsed,
+    right: object.start.right + velocity.right * elapsed,
+  };
+}
+
+/**
+ * Plays a scenario as a stream of detector responses. Box noise, missed
+ * detections and confidences come from a seeded generator, so the same
+ * scenario, seed and frame times always give the same frames.
+ */
+export class ScenarioPlayer {
+  private random: Random;
+  private noise: ScenarioNoise;
+
+  constructor(private scenario: Scenario, seed: number) {
+    this.random = seededRandom(seed);
+    this.noise = { ...DEFAULT_NOISE, ...scenario.noise };
+  }
+
+  frame(time: number, camera: CameraModel, objectHeight: (label: string) => number): APIDetectionResponse {
+    const { width: imageWidth, height: imageHeight } = SCENARIO_FRAME;
+    const looped = time % this.scenario.duration;
+    const detections: APIDetection[] = [];
+
+    this.scenario.objects.forEach(object => {
+      const position = positionAt(this.scenario, object, looped);
+      if (!position) return;
+
+      const height = object.height ?? objectHeight(object.label);
+      const box = projectObject(position, { height, width: object.width ?? height / 2 }, camera);
+      // Draw the noise even for misses so one object's luck doesn't shift the others'
+      const jitter = [imageWidth, imageHeight, imageWidth, imageHeight].map(
+        size => this.random.normal(0, this.noise.jitter * size)
+      );
+      const missed = this.random.chance(this.noise.missRate);
+      const confidence = this.random.normal(object.confidence ?? DEFAULT_CONFIDENCE, this.noise.confidence);
+      if (!box || missed) return;
+
+      const [x1, y1, x2, y2] = box.map((edge, index) => edge + jitter[index]);
+      if (x2 - x1 < MIN_BOX_PIXELS || y2 - y1 < MIN_BOX_PIXELS) return;
+      detections.push({
+        label: object.label,
+        confidence: Math.max(0.05, Math.min(0.99, confidence)),
+        bbox: [
+          Math.max(0, x1),
+          Math.max(0, y1),
+          Math.min(imageWidth, x2),
+          Math.min(imageHeight, y2),
+        ],
+      });
+    });
+
+    return {
+      detections,
+      image_width: imageWidth,
+      image_height: imageHeight,
+      processing_time: 0,
+    };
+  }
+}
@@ -0,0 +1,170 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import type {
+  APIDetectionService,
+  PipelineObserver,
+  PipelineSettings,
+  RecordedFrame,
+} from './APIDetectionService';
+
+export type SessionEvent =
+  | { type: 'settings'; at: number; settings: PipelineSettings }
+  | { type: 'steps'; at: number; steps: number }
+  | { type: 'frame'; at: number; frame: RecordedFrame };
+
+export interface SessionFile {
+  version: 1;
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  platform: string;
+  appSettings: Record<string, unknown>; // the app's settings when recording started, for reading along
+  events: SessionEvent[];
+}
+
+export interface SessionSummary {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  frames: number;
+  alerts: number;
+}
+
+// An hour at one frame every two seconds
+const MAX_FRAMES = 1800;
+const SESSIONS_DIRECTORY = FileSystem.documentDirectory ? `${FileSystem.documentDirectory}sessions/` : null;
+
+export const isRecordingSupported = Platform.OS !== 'web' && SESSIONS_DIRECTORY !== null;
+
+/**
+ * Records everything the detection pipeline sees in a session — the raw
+ * backend output per frame, steps walked, and the settings in effect — with
+ * the alerts it produced, so a reported miss can be replayed exactly.
+ */
+export class SessionRecorder implements PipelineObserver {
+  private session: SessionFile | null = null;
+  private frames = 0;
+  private lastSettings = '';
+
+  constructor(private service: APIDetectionService) {}
+
+  get isRecording(): boolean {
+    return this.session !== null;
+  }
+
+  start(appSettings: Record<string, unknown>) {
+    const startedAt = Date.now();
+    this.session = {
+      version: 1,
+      id: `session_${startedAt}`,
+      startedAt,
+      endedAt: startedAt,
+      platform: Platform.OS,
+      appSettings,
+      events: [],
+    };
+    this.frames = 0;
+    this.lastSettings = '';
+    // Replay starts from a fresh pipeline, so the recording must too
+    this.service.clearTrackingData();
+    this.recordSettingsIfChanged(startedAt);
+    this.service.setObserver(this);
+    console.log(`⏺️ Recording ${this.session.id}`);
+  }
+
+  /** Stops recording and saves the session. Resolves to its summary, or null if nothing was recorded. */
+  async stop(): Promise<SessionSummary | null> {
+    const session = this.session;
+    this.session = null;
+    this.service.setObserver(null);
+    if (!session || this.frames === 0) return null;
+
+    session.endedAt = Date.now();
+    await saveSession(session);
+    console.log(`⏹️ Saved ${session.id} with ${this.frames} frames`);
+    return summarize(session);
+  }
+
+  onFrame(frame: RecordedFrame) {
+    if (!this.session) return;
+    if (this.frames >= MAX_FRAMES) {
+      console.warn('⚠️ Session recording is full, stopping');
+      this.stop().catch(error => console.warn('⚠️ Could not save session:', error));
+      return;
+    }
+    this.recordSettingsIfChanged(frame.at);
+    // Copied now: later frames must not be able to change what this one recorded
+    this.session.events.push({ type: 'frame', at: frame.at, frame: JSON.parse(JSON.stringify(frame)) });
+    this.frames += 1;
+  }
+
+  onSteps(steps: number, at: number) {
+    this.session?.events.push({ type: 'steps', at, steps });
+  }
+
+  // Settings can change mid-session; the replay has to change them at the same point
+  private recordSettingsIfChanged(at: number) {
+    const settings = this.service.getPipelineSettings();
+    const serialized = JSON.stringify(settings);
+    if (serialized === this.lastSettings) return;
+    this.lastSettings = serialized;
+    this.session?.events.push({ type: 'settings', at, settings: JSON.parse(serialized) });
+  }
+}
+
+export function summarize(session: SessionFile): SessionSummary {
+  const frames = session.events.filter(event => event.type === 'frame');
+  return {
+    id: session.id,
+    startedAt: session.startedAt,
+    endedAt: session.endedAt,
+    frames: frames.length,
+    alerts: frames.reduce((sum, event) => sum + (event.type === 'frame' ? event.frame.alerts.length : 0), 0),
+  };
+}
+
+async function saveSession(session: SessionFile) {
+  if (!SESSIONS_DIRECTORY) return;
+  await FileSystem.makeDirectoryAsync(SESSIONS_DIRECTORY, { intermediates: true });
+  await FileSystem.writeAsStringAsync(sessionUri(session.id), JSON.stringify(session));
+}
+
+export function sessionUri(id: string): string {
+  return `${SESSIONS_DIRECTORY}${id}.json`;
+}
+
+export async function loadSession(id: string): Promise<SessionFile> {
+  const session = JSON.parse(await FileSystem.readAsStringAsync(sessionUri(id))) as SessionFile;
+  if (session.version !== 1) {
+    throw new Error(`Unsupported session version ${session.version}`);
+  }
+  return session;
+}
+
+// Newest first
+export async function listSessions(): Promise<SessionSummary[]> {
+  if (!SESSIONS_DIRECTORY) return [];
+  const info = await FileSystem.getInfoAsync(SESSIONS_DIRECTORY);
+  if (!info.exists) return [];
+
+  const files = await FileSystem.readDirectoryAsync(SESSIONS_DIRECTORY);
+  const summaries = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file =>
+        loadSession(file.replace(/\.json$/, ''))
+          .then(summarize)
+          .catch(error => {
+            console.warn(`⚠️ Skipping unreadable session ${file}:`, error);
+            return null;
+          })
+      )
+  );
+  return summaries
+    .filter((summary): summary is SessionSummary => summary !== null)
+    .sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function deleteSession(id: string) {
+  await FileSystem.deleteAsync(sessionUri(id), { idempotent: true });
+}
@@ -0,0 +1,82 @@
+import { APIDetectionService, ProcessedAlert } from './APIDetectionService';
+import { VirtualClock } from './Clock';
+import type { SessionFile } from './SessionRecorder';
+
+export interface ReplayedFrame {
+  at: number;
+  source: string | null;
+  recorded: ProcessedAlert[];
+  replayed: ProcessedAlert[];
+  matches: boolean;
+}
+
+export interface ReplayResult {
+  frames: ReplayedFrame[];
+  mismatches: number;
+}
+
+// What the user would have noticed: what was said, how urgently, and whether it buzzed
+function alertSignature(alert: ProcessedAlert): string {
+  return JSON.stringify([
+    alert.alertType,
+    alert.message,
+    alert.shouldAnnounce,
+    alert.shouldVibrate,
+    alert.detection.label,
+    alert.detection.steps,
+  ]);
+}
+
+export function sameAlerts(a: ProcessedAlert[], b: ProcessedAlert[]): boolean {
+  return a.length === b.length && a.every((alert, index) => alertSignature(alert) === alertSignature(b[index]));
+}
+
+/**
+ * Feeds a recorded session back through a fresh detection pipeline on a
+ * virtual clock: settings changes, steps and frames are applied at the
+ * times they were recorded, and each frame's alerts are compared with the
+ * ones the app produced live. No backend or server is involved.
+ */
+export function replaySession(session: SessionFile): ReplayResult {
+  const clock = new VirtualClock(session.startedAt);
+  let service: APIDetectionService | null = null;
+  const frames: ReplayedFrame[] = [];
+
+  for (const event of session.events) {
+    clock.set(event.at);
+
+    if (event.type === 'settings') {
+      service ??= new APIDetectionService(event.settings.stepLength, event.settings.config, {
+        clock,
+        platform: session.platform, // vibration depends on it
+        offline: true,
+      });
+      service.applyPipelineSettings(event.settings);
+      continue;
+    }
+
+    if (!service) {
+      throw new Error(`Session ${session.id} has no settings before its first ${event.type} event`);
+    }
+
+    if (event.type === 'steps') {
+      service.recordSteps(event.steps);
+      continue;
+    }
+
+    const { frame } = event;
+    service.updateDevicePitch(frame.devicePitch.pitch, frame.devicePitch.updatedAt);
+    const replayed = service.processRecordedFrame(frame.input);
+    frames.push({
+      at: frame.at,
+      source: frame.source,
+      recorded: frame.alerts,
+      replayed,
+      matches: sameAlerts(frame.alerts, replayed),
+    });
+  }
+
+  const mismatches = frames.filter(frame => !frame.matches).length;
+  console.log(`🔁 Replayed ${session.id}: ${frames.length} frames, ${mismatches} differ from the recording`);
+  return { frames, mismatches };
+}
@@ -0,0 +1,73 @@
+import { EarconPlayer, panFromX, ToneSpec } from './Earcons';
+
+export interface SonarTarget {
+  distance: number; // meters
+  x: number; // 0-1 normalized, for panning
+}
+
+const RANGE_M = 6; // anything further is treated as a clear path
+const NEAR_M = 0.5; // closest distance that still changes the tone
+// Closeness is quantized so native playback can reuse rendered pings
+const BANDS = 8;
+const MIN_FREQUENCY = 440; // Hz, at the edge of the range
+const MAX_FREQUENCY = 1320;
+const MAX_INTERVAL_MS = 1200;
+const MIN_INTERVAL_MS = 150;
+// Detections arrive every couple of seconds; keep pinging in between,
+// but fall silent if they stop arriving
+const STALE_MS = 3000;
+
+/** 0 at the edge of the range, BANDS - 1 right in front of the user. */
+export function sonarBand(distance: number): number | null {
+  if (distance > RANGE_M) return null;
+  const closeness = 1 - (Math.max(distance, NEAR_M) - NEAR_M) / (RANGE_M - NEAR_M);
+  return Math.round(closeness * (BANDS - 1));
+}
+
+function pingFor(band: number): ToneSpec {
+  const frequency = MIN_FREQUENCY + ((MAX_FREQUENCY - MIN_FREQUENCY) * band) / (BANDS - 1);
+  return { waveform: 'sine', frequency: Math.round(frequency), pulses: 1, pulseMs: 60, gapMs: 0, gain: 0.45 };
+}
+
+function intervalFor(band: number): number {
+  return MAX_INTERVAL_MS - ((MAX_INTERVAL_MS - MIN_INTERVAL_MS) * band) / (BANDS - 1);
+}
+
+/**
+ * Parking-sensor style feedback: a repeating ping that gets faster and
+ * higher as the nearest obstacle gets closer, panned toward it, and silent
+ * when the path is clear.
+ */
+export class Sonar {
+  private target: SonarTarget | null = null;
+  private updatedAt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private player: EarconPlayer) {}
+
+  update(target: SonarTarget | null) {
+    this.target = target;
+    this.updatedAt = Date.now();
+    if (target && !this.timer) this.ping();
+  }
+
+  stop() {
+    this.target = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private ping() {
+    this.timer = null;
+    const band = this.target ? sonarBand(this.target.distance) : null;
+    if (!this.target || band === null || Date.now() - this.updatedAt > STALE_MS) {
+      // Wait for the next update to start again
+      return;
+    }
+
+    this.player.playTone(`sonar${band}`, pingFor(band), panFromX(this.target.x));
+    this.timer = setTimeout(() => this.ping(), intervalFor(band));
+  }
+}
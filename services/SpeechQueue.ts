@@ -0,0 +1,180 @@
+import * as Speech from 'expo-speech';
+
+// Highest first. Urgent alerts cut off whatever is being said; user-triggered
+// feedback comes next so a button press is confirmed before routine alerts.
+export const SPEECH_PRIORITIES = ['urgent', 'high', 'normal', 'low'] as const;
+export type SpeechPriority = (typeof SPEECH_PRIORITIES)[number];
+
+export interface SpeakOptions {
+  priority?: SpeechPriority;
+  interrupt?: boolean; // stop the current utterance even if it outranks this one
+  ttlMs?: number; // drop the message if it hasn't started by then
+  language?: string; // defaults to the configured speech language
+}
+
+export interface VoiceSettings {
+  rate: number;
+  pitch: number;
+  voice: string | null; // Speech voice identifier, null for the language's default
+}
+
+interface Utterance {
+  id: number;
+  text: string;
+  priority: SpeechPriority;
+  language: string;
+  enqueuedAt: number;
+  expiresAt: number;
+}
+
+// Alerts describe the last frame and are stale soon after the next one;
+// feedback the user asked for can wait a little longer
+const DEFAULT_TTL_MS: Record<SpeechPriority, number> = {
+  urgent: 3000,
+  high: 10000,
+  normal: 4000,
+  low: 4000,
+};
+
+// Some platforms never report the end of an utterance; don't stall forever
+const WATCHDOG_BASE_MS = 5000;
+const WATCHDOG_MS_PER_CHAR = 150;
+
+const rank = (priority: SpeechPriority) => SPEECH_PRIORITIES.indexOf(priority);
+
+/**
+ * Serializes everything the app says through one queue: higher priorities
+ * go first, urgent messages preempt, messages expire if they wait too long,
+ * and a message that is already being said or waiting is not queued twice.
+ */
+export class SpeechQueue {
+  private queue: Utterance[] = [];
+  private speaking: Utterance | null = null;
+  private watchdog: ReturnType<typeof setTimeout> | null = null;
+  private nextId = 1;
+  private language = 'en-US';
+  private voiceSettings: VoiceSettings = { rate: 0.85, pitch: 1.0, voice: null };
+  private voiceLanguages: Map<string, string> = new Map(); // identifier -> language
+
+  configure(config: Partial<VoiceSettings> & { language?: string }) {
+    const { language, ...voiceSettings } = config;
+    if (language) this.language = language;
+    this.voiceSettings = { ...this.voiceSettings, ...voiceSettings };
+  }
+
+  async getVoices(): Promise<Speech.Voice[]> {
+    try {
+      const voices = await Speech.getAvailableVoicesAsync();
+      voices.forEach(voice => this.voiceLanguages.set(voice.identifier, voice.language));
+      return voices;
+    } catch (error) {
+      console.warn('⚠️ Could not list speech voices:', error);
+      return [];
+    }
+  }
+
+  speak(text: string, options: SpeakOptions = {}) {
+    const priority = options.priority ?? 'normal';
+    const now = Date.now();
+    const utterance: Utterance = {
+      id: this.nextId++,
+      text,
+      priority,
+      language: options.language ?? this.language,
+      enqueuedAt: now,
+      expiresAt: now + (options.ttlMs ?? DEFAULT_TTL_MS[priority]),
+    };
+
+    if (this.speaking?.text === text && !options.interrupt) return;
+
+    // Collapse into the waiting copy, keeping the more urgent of the two
+    const duplicate = this.queue.find(queued => queued.text === text);
+    if (duplicate) {
+      this.queue = this.queue.filter(queued => queued !== duplicate);
+      if (rank(duplicate.priority) < rank(priority)) utterance.priority = duplicate.priority;
+      utterance.enqueuedAt = duplicate.enqueuedAt;
+      utterance.expiresAt = Math.max(duplicate.expiresAt, utterance.expiresAt);
+    }
+
+    const preempt = !!this.speaking && (options.interrupt || utterance.priority === 'urgent');
+
+    this.enqueue(utterance, preempt);
+    if (preempt) {
+      this.finishCurrent();
+      Speech.stop();
+    }
+    if (!this.speaking) this.next();
+  }
+
+  // Drops everything, including what is being said
+  stop() {
+    this.queue = [];
+    this.finishCurrent();
+    Speech.stop();
+  }
+
+  get isSpeaking(): boolean {
+    return this.speaking !== null;
+  }
+
+  private enqueue(utterance: Utterance, first: boolean) {
+    // Stable by priority: behind everything of equal or higher priority,
+    // unless it preempts, in which case it goes to the very front
+    const index = first
+      ? 0
+      : this.queue.findIndex(queued => rank(queued.priority) > rank(utterance.priority));
+    if (index === -1) this.queue.push(utterance);
+    else this.queue.splice(index, 0, utterance);
+  }
+
+  private next() {
+    const now = Date.now();
+    let utterance = this.queue.shift();
+    while (utterance && utterance.expiresAt < now) {
+      console.log(`🔇 Dropped stale speech (${now - utterance.enqueuedAt}ms old): ${utterance.text}`);
+      utterance = this.queue.shift();
+    }
+    if (!utterance) return;
+
+    this.speaking = utterance;
+    const done = () => {
+      if (this.speaking?.id !== utterance!.id) return; // already preempted
+      this.finishCurrent();
+      this.next();
+    };
+
+    const { rate, pitch } = this.voiceSettings;
+    Speech.speak(utterance.text, {
+      language: utterance.language,
+      voice: this.voiceFor(utterance.language),
+      rate,
+      pitch,
+      onDone: done,
+      onStopped: done,
+      onError: error => {
+        console.warn('⚠️ Speech failed:', error);
+        done();
+      },
+    });
+
+    this.watchdog = setTimeout(done, WATCHDOG_BASE_MS + (utterance.text.length * WATCHDOG_MS_PER_CHAR) / rate);
+  }
+
+  private finishCurrent() {
+    this.speaking = null;
+    if (this.watchdog) {
+      clearTimeout(this.watchdog);
+      this.watchdog = null;
+    }
+  }
+
+  // A chosen voice only speaks its own language; others use their default
+  private voiceFor(language: string): string | undefined {
+    const { voice } = this.voiceSettings;
+    if (!voice) return undefined;
+    const voiceLanguage = this.voiceLanguages.get(voice);
+    if (!voiceLanguage) return voice; // not listed yet, trust the setting
+    const base = (tag: string) => tag.toLowerCase().split(/[-_]/)[0];
+    return base(voiceLanguage) === base(language) ? voice : undefined;
+  }
+}
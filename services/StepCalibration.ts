@@ -0,0 +1,156 @@
+import { Accelerometer, Pedometer } from 'expo-sensors';
+
+export const MIN_STEP_LENGTH = 40; // centimeters
+export const MAX_STEP_LENGTH = 100;
+export const DEFAULT_WALK_DISTANCE = 10; // meters
+export const MIN_WALK_DISTANCE = 3;
+export const MAX_WALK_DISTANCE = 100;
+
+const MIN_STEPS = 6;
+// The pedometer and the accelerometer count independently; a bigger gap
+// means one of them missed or invented steps
+const MAX_SENSOR_DISAGREEMENT = 0.25;
+// Coefficient of variation of the time between steps; above this the user
+// stopped, turned or changed pace and the mean stride means little
+const MAX_CADENCE_VARIATION = 0.35;
+
+// Accelerometer peak detection, in g. A step is a rise above PEAK after
+// the smoothed magnitude has dropped back below RESET.
+const ACCELEROMETER_INTERVAL_MS = 20;
+const SMOOTHING = 0.3;
+const PEAK_G = 1.12;
+const RESET_G = 1.03;
+const MIN_STEP_INTERVAL_MS = 300;
+
+export interface WalkRecording {
+  pedometerSteps: number | null; // null when the pedometer is unavailable
+  accelerometerSteps: number | null;
+  stepTimes: number[]; // accelerometer step timestamps, ms
+}
+
+export type CalibrationFailure = 'noSteps' | 'tooFewSteps' | 'sensorsDisagree' | 'unsteady' | 'outOfRange';
+
+export type CalibrationResult =
+  | { ok: true; steps: number; stepLength: number }
+  | { ok: false; reason: CalibrationFailure; steps: number; stepLength?: number };
+
+/**
+ * Counts steps while the user walks a measured distance. The OS pedometer
+ * gives the count when there is one; accelerometer peaks give per-step
+ * timing for the consistency check and a count where there is no pedometer.
+ */
+export class StepCounter {
+  private subscriptions: { remove: () => void }[] = [];
+  private pedometerSteps: number | null = null;
+  private accelerometerSteps: number | null = null;
+  private stepTimes: number[] = [];
+
+  /** Starts counting. Resolves false when neither sensor is available. */
+  async start(onSteps: (steps: number) => void): Promise<boolean> {
+    this.stop();
+    this.pedometerSteps = null;
+    this.accelerometerSteps = null;
+    this.stepTimes = [];
+
+    const report = () => onSteps(this.pedometerSteps ?? this.accelerometerSteps ?? 0);
+
+    if (await this.pedometerAvailable()) {
+      this.pedometerSteps = 0;
+      this.subscriptions.push(
+        Pedometer.watchStepCount(({ steps }) => {
+          this.pedometerSteps = steps;
+          report();
+        })
+      );
+    }
+
+    if (await Accelerometer.isAvailableAsync().catch(() => false)) {
+      this.accelerometerSteps = 0;
+      let smoothed = 1;
+      let armed = true;
+      let lastStep = 0;
+      Accelerometer.setUpdateInterval(ACCELEROMETER_INTERVAL_MS);
+      this.subscriptions.push(
+        Accelerometer.addListener(({ x, y, z }) => {
+          smoothed += SMOOTHING * (Math.hypot(x, y, z) - smoothed);
+          const now = Date.now();
+          if (armed && smoothed > PEAK_G && now - lastStep >= MIN_STEP_INTERVAL_MS) {
+            armed = false;
+            lastStep = now;
+            this.stepTimes.push(now);
+            this.accelerometerSteps = this.stepTimes.length;
+            report();
+          } else if (smoothed < RESET_G) {
+            armed = true;
+          }
+        })
+      );
+    }
+
+    console.log(
+      `👣 Step counting with ${[
+        this.pedometerSteps !== null && 'pedometer',
+        this.accelerometerSteps !== null && 'accelerometer',
+      ].filter(Boolean).join(' and ') || 'no sensors'}`
+    );
+    return this.subscriptions.length > 0;
+  }
+
+  stop(): WalkRecording {
+    this.subscriptions.forEach(subscription => subscription.remove());
+    this.subscriptions = [];
+    return {
+      pedometerSteps: this.pedometerSteps,
+      accelerometerSteps: this.accelerometerSteps,
+      stepTimes: this.stepTimes,
+    };
+  }
+
+  private async pedometerAvailable(): Promise<boolean> {
+    try {
+      if (!(await Pedometer.isAvailableAsync())) return false;
+      const { granted } = await Pedometer.requestPermissionsAsync();
+      return granted;
+    } catch (error) {
+      console.log('Pedometer unavailable:', error);
+      return false;
+    }
+  }
+}
+
+function cadenceVariation(stepTimes: number[]): number | null {
+  // The first step is taken from standing, so its interval is left out
+  const intervals = stepTimes.slice(1).map((time, index) => time - stepTimes[index]).slice(1);
+  if (intervals.length < 4) return null;
+  const mean = intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length;
+  const variance = intervals.reduce((sum, interval) => sum + (interval - mean) ** 2, 0) / intervals.length;
+  return Math.sqrt(variance) / mean;
+}
+
+/** Mean step length in centimeters for `distance` meters, if the walk was consistent. */
+export function analyzeWalk(distance: number, walk: WalkRecording): CalibrationResult {
+  const steps = walk.pedometerSteps ?? walk.accelerometerSteps ?? 0;
+  if (steps === 0) return { ok: false, reason: 'noSteps', steps };
+  if (steps < MIN_STEPS) return { ok: false, reason: 'tooFewSteps', steps };
+
+  const { pedometerSteps, accelerometerSteps } = walk;
+  if (
+    pedometerSteps !== null &&
+    accelerometerSteps !== null &&
+    Math.abs(pedometerSteps - accelerometerSteps) / Math.max(pedometerSteps, accelerometerSteps) >
+      MAX_SENSOR_DISAGREEMENT
+  ) {
+    return { ok: false, reason: 'sensorsDisagree', steps };
+  }
+
+  const variation = cadenceVariation(walk.stepTimes);
+  if (variation !== null && variation > MAX_CADENCE_VARIATION) {
+    return { ok: false, reason: 'unsteady', steps };
+  }
+
+  const stepLength = Math.round((distance * 100) / steps);
+  if (stepLength < MIN_STEP_LENGTH || stepLength > MAX_STEP_LENGTH) {
+    return { ok: false, reason: 'outOfRange', steps, stepLength };
+  }
+  return { ok: true, steps, stepLength };
+}
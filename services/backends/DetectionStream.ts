@@ -0,0 +1,271 @@
+import type { APIDetectionResponse } from '../APIDetectionService';
+
+// Frame payload shared with the HTTP /detect endpoint; `image` is base64
+// text, or the JPEG bytes themselves for a binary frame
+export interface StreamFramePayload {
+  image: string | ArrayBuffer;
+  confidence_threshold: number;
+  center_focus_only: boolean;
+}
+
+// Messages exchanged over /ws/detect:
+//   client -> server  { type: 'frame', seq, ...StreamFramePayload }  (text, base64 image)
+//                     binary: 4-byte big-endian header length, the same
+//                     JSON header without `image`, then the JPEG bytes
+//   server -> client  { type: 'ack', seq }
+//                     { type: 'result', seq, ...APIDetectionResponse }
+//                     { type: 'error', seq, message }
+type ServerMessage =
+  | { type: 'ack'; seq: number }
+  | ({ type: 'result'; seq: number } & APIDetectionResponse)
+  | { type: 'error'; seq: number; message: string };
+
+export class StaleFrameError extends Error {
+  constructor(seq: number) {
+    super(`Frame ${seq} was superseded by a newer frame`);
+    this.name = 'StaleFrameError';
+  }
+}
+
+interface QueuedFrame {
+  seq: number;
+  payload: StreamFramePayload;
+  resolve: (response: APIDetectionResponse) => void;
+  reject: (error: Error) => void;
+  timeoutId?: ReturnType<typeof setTimeout>;
+  ackTimeoutId?: ReturnType<typeof setTimeout>;
+  acknowledged: boolean;
+}
+
+function encodeBinaryFrame(seq: number, payload: StreamFramePayload, image: ArrayBuffer): ArrayBuffer {
+  const { image: _image, ...options } = payload;
+  const header = new TextEncoder().encode(JSON.stringify({ type: 'frame', seq, ...options }));
+  const message = new Uint8Array(4 + header.byteLength + image.byteLength);
+  new DataView(message.buffer).setUint32(0, header.byteLength);
+  message.set(header, 4);
+  message.set(new Uint8Array(image), 4 + header.byteLength);
+  return message.buffer;
+}
+
+export function toStreamUrl(apiUrl: string): string {
+  return `${apiUrl.replace(/^http/, 'ws').replace(/\/$/, '')}/ws/detect`;
+}
+
+/**
+ * Persistent /ws/detect connection. At most one frame is in flight; a frame
+ * submitted meanwhile waits as `pending` and is replaced (and rejected with
+ * StaleFrameError) by any newer frame, so the server only ever sees the most
+ * recent view of the path.
+ */
+export class DetectionStream {
+  private readonly MIN_RECONNECT_DELAY = 1000; // 1 second
+  private readonly MAX_RECONNECT_DELAY = 30000; // 30 seconds
+  private readonly ACK_TIMEOUT_MS = 1500; // an unacknowledged frame means a stalled socket
+  private readonly MAX_FAILED_CONNECTS = 3; // upgrades refused in a row before giving up on the stream
+  private socket: WebSocket | null = null;
+  private isOpen = false;
+  private closedByClient = false;
+  private nextSeq = 1;
+  private inFlight: QueuedFrame | null = null;
+  private pending: QueuedFrame | null = null;
+  private reconnectDelay = this.MIN_RECONNECT_DELAY;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private failedConnects = 0;
+
+  constructor(private url: string, private timeoutMs: number) {}
+
+  get connected(): boolean {
+    return this.isOpen;
+  }
+
+  connect() {
+    if (this.socket) return;
+
+    this.closedByClient = false;
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.isOpen = true;
+      this.reconnectDelay = this.MIN_RECONNECT_DELAY;
+      this.failedConnects = 0;
+      console.log('🔌 Detection stream connected');
+    };
+
+    socket.onmessage = event => {
+      this.handleMessage(event.data);
+    };
+
+    socket.onerror = () => {
+      // onclose follows and takes care of reconnecting
+    };
+
+    socket.onclose = () => {
+      if (!this.isOpen) {
+        this.failedConnects++;
+      }
+      this.isOpen = false;
+      this.socket = null;
+      this.failAll(new Error('Detection stream closed'));
+      if (this.closedByClient) return;
+
+      if (this.failedConnects >= this.MAX_FAILED_CONNECTS) {
+        // The server refuses the upgrade; frames keep going over HTTP
+        console.warn(`⚠️ Detection stream refused ${this.failedConnects} times, staying on HTTP`);
+        return;
+      }
+      this.scheduleReconnect();
+    };
+  }
+
+  close() {
+    this.closedByClient = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+    this.isOpen = false;
+    this.failAll(new Error('Detection stream closed'));
+  }
+
+  updateTimeout(timeoutMs: number) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  send(payload: StreamFramePayload): Promise<APIDetectionResponse> {
+    if (!this.isOpen) {
+      return Promise.reject(new Error('Detection stream is not connected'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const frame: QueuedFrame = {
+        seq: this.nextSeq++,
+        payload,
+        resolve,
+        reject,
+        acknowledged: false,
+      };
+
+      if (!this.inFlight) {
+        this.transmit(frame);
+        return;
+      }
+
+      // Backpressure: only the newest waiting frame is worth sending
+      if (this.pending) {
+        this.pending.reject(new StaleFrameError(this.pending.seq));
+      }
+      this.pending = frame;
+    });
+  }
+
+  private transmit(frame: QueuedFrame) {
+    this.inFlight = frame;
+    frame.timeoutId = setTimeout(() => {
+      if (this.inFlight === frame) {
+        this.clearTimers(frame);
+        this.inFlight = null;
+        frame.reject(new Error(`Frame ${frame.seq} timed out`));
+        this.transmitPending();
+      }
+    }, this.timeoutMs);
+    frame.ackTimeoutId = setTimeout(() => {
+      if (this.inFlight === frame && !frame.acknowledged) {
+        console.warn('⚠️ Detection stream stalled, reconnecting');
+        // onclose rejects the frame and schedules the reconnect
+        this.socket?.close();
+      }
+    }, Math.min(this.ACK_TIMEOUT_MS, this.timeoutMs));
+
+    try {
+      const { image } = frame.payload;
+      this.socket!.send(
+        typeof image === 'string'
+          ? JSON.stringify({ type: 'frame', seq: frame.seq, ...frame.payload })
+          : encodeBinaryFrame(frame.seq, frame.payload, image)
+      );
+    } catch (error) {
+      this.clearTimers(frame);
+      this.inFlight = null;
+      frame.reject(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private transmitPending() {
+    const next = this.pending;
+    this.pending = null;
+    if (next && this.isOpen) {
+      this.transmit(next);
+    } else if (next) {
+      next.reject(new Error('Detection stream is not connected'));
+    }
+  }
+
+  private handleMessage(data: unknown) {
+    let message: ServerMessage;
+    try {
+      message = JSON.parse(String(data));
+    } catch (error) {
+      console.warn('⚠️ Ignoring malformed stream message:', error);
+      return;
+    }
+
+    const frame = this.inFlight;
+    if (!frame || message.seq !== frame.seq) {
+      // Late answer for a frame that already timed out
+      return;
+    }
+
+    switch (message.type) {
+      case 'ack':
+        frame.acknowledged = true;
+        return;
+      case 'result': {
+        const { type, seq, ...response } = message;
+        this.finish(frame);
+        frame.resolve(response);
+        return;
+      }
+      case 'error':
+        this.finish(frame);
+        frame.reject(new Error(`Stream frame ${frame.seq} failed: ${message.message}`));
+        return;
+    }
+  }
+
+  private finish(frame: QueuedFrame) {
+    this.clearTimers(frame);
+    this.inFlight = null;
+    this.transmitPending();
+  }
+
+  private clearTimers(frame: QueuedFrame) {
+    clearTimeout(frame.timeoutId);
+    clearTimeout(frame.ackTimeoutId);
+  }
+
+  private failAll(error: Error) {
+    if (this.inFlight) {
+      this.clearTimers(this.inFlight);
+      this.inFlight.reject(error);
+      this.inFlight = null;
+    }
+    if (this.pending) {
+      this.pending.reject(error);
+      this.pending = null;
+    }
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectTimer) return;
+
+    const delay = this.reconnectDelay;
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, this.MAX_RECONNECT_DELAY);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+}
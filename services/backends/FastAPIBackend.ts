@@ -0,0 +1,282 @@
+import type { APIDetectionResponse, Detection } from '../APIDetectionService';
+import {
+  BackendCapabilities,
+  BackendConfig,
+  BackendHealth,
+  DetectionBackend,
+  DetectionContext,
+  DetectionFrame,
+} from '../DetectionBackend';
+import type { Environment } from '../Environment';
+import { parseDetectionResponse } from './detectionResponse';
+import { DetectionStream, StaleFrameError, StreamFramePayload, toStreamUrl } from './DetectionStream';
+import type { PreparedFrame } from './prepareFrame';
+import {
+  DEFAULT_SERVER_CAPABILITIES,
+  ENCODING_PREFERENCE,
+  FrameEncoding,
+  ServerCapabilities,
+  parseServerCapabilities,
+} from './serverCapabilities';
+
+export class FastAPIBackend implements DetectionBackend {
+  readonly name = 'fastapi';
+  readonly capabilities: BackendCapabilities = {
+    requiresFrame: true,
+    requiresNetwork: true,
+    simulated: false,
+  };
+
+  private isApiAvailable = false;
+  private lastApiCheck = 0;
+  private readonly API_CHECK_INTERVAL = 30000; // 30 seconds
+  private stream: DetectionStream | null = null;
+  private serverCapabilities: ServerCapabilities | null = null;
+  private lastRequestTime = 0;
+  private refusedEncodings: Set<FrameEncoding> = new Set();
+
+  constructor(private config: BackendConfig, private environment: Environment) {}
+
+  configure(config: BackendConfig) {
+    if (config.apiUrl !== this.config.apiUrl) {
+      // A different server needs a fresh health check
+      this.lastApiCheck = 0;
+      this.isApiAvailable = false;
+      this.serverCapabilities = null;
+      this.refusedEncodings.clear();
+      this.closeStream();
+    }
+    if (!config.streamingEnabled) {
+      this.closeStream();
+    }
+    this.stream?.updateTimeout(config.timeoutMs);
+    this.config = config;
+  }
+
+  getHealth(): BackendHealth {
+    return { available: this.isApiAvailable, lastCheck: this.lastApiCheck };
+  }
+
+  async checkHealth(force = false): Promise<BackendHealth> {
+    const now = this.environment.clock.now();
+
+    // Only check API availability every 30 seconds to avoid spam
+    if (!force && now - this.lastApiCheck < this.API_CHECK_INTERVAL && this.isApiAvailable) {
+      return this.getHealth();
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 3000);
+    try {
+      const response = await this.environment.transport(`${this.config.apiUrl}/health`, {
+        method: 'GET',
+        signal: controller.signal,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      this.isApiAvailable = response.ok;
+      this.lastApiCheck = now;
+
+      if (this.isApiAvailable) {
+        console.log('✅ Detection API is available');
+        this.serverCapabilities = await this.readCapabilities(response);
+        this.openStream();
+      } else {
+        console.warn('⚠️ Detection API returned error status:', response.status);
+      }
+
+      return this.getHealth();
+    } catch (error) {
+      console.warn('⚠️ Detection API is not available:', error);
+      this.isApiAvailable = false;
+      this.lastApiCheck = now;
+      return { ...this.getHealth(), message: String(error) };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  async detect(frame: DetectionFrame, context: DetectionContext): Promise<Detection[]> {
+    if (!frame.imageUri) {
+      throw new Error('FastAPI backend needs a camera frame');
+    }
+
+    // Only the JSON encoding needs base64; binary encodings, over HTTP or
+    // the stream, read the resized JPEG file directly
+    const encoding = this.chooseEncoding();
+    const needsBase64 = encoding === 'json';
+
+    // Resize to the model's preferred input size
+    const { inputSize } = this.getServerCapabilities();
+    const manipulatedImage = await this.environment.preprocessFrame(frame.imageUri, inputSize, {
+      base64: needsBase64,
+      sourceSize: frame.size,
+    });
+
+    await this.waitForRateLimit();
+
+    const apiResponse = await this.sendFrame(manipulatedImage, encoding);
+    return apiResponse ? context.toDetections(apiResponse) : [];
+  }
+
+  getServerCapabilities(): ServerCapabilities {
+    return this.serverCapabilities ?? DEFAULT_SERVER_CAPABILITIES;
+  }
+
+  private chooseEncoding(): FrameEncoding {
+    const { encodings } = this.getServerCapabilities();
+    return ENCODING_PREFERENCE.find(encoding =>
+      encodings.includes(encoding) && !this.refusedEncodings.has(encoding)
+    ) ?? 'json';
+  }
+
+  private async readCapabilities(response: Response): Promise<ServerCapabilities> {
+    try {
+      const capabilities = parseServerCapabilities(await response.json());
+      if (capabilities.modelName) {
+        console.log(`🧠 Detection model: ${capabilities.modelName} ${capabilities.modelVersion ?? ''}`);
+      }
+      return capabilities;
+    } catch {
+      // Older servers answer /health without a JSON body
+      return DEFAULT_SERVER_CAPABILITIES;
+    }
+  }
+
+  // Keeps requests under the server's advertised max_fps
+  private async waitForRateLimit() {
+    const { maxFps } = this.getServerCapabilities();
+    if (maxFps) {
+      const wait = this.lastRequestTime + 1000 / maxFps - this.environment.clock.now();
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+    }
+    this.lastRequestTime = this.environment.clock.now();
+  }
+
+  // Returns null when the frame was dropped in favour of a newer one
+  private async sendFrame(
+    frame: PreparedFrame,
+    encoding: FrameEncoding
+  ): Promise<APIDetectionResponse | null> {
+    if (this.stream?.connected) {
+      try {
+        const image = encoding === 'json' ? frame.base64! : await this.readFrameBytes(frame);
+        return parseDetectionResponse(await this.stream.send(this.toPayload(image)));
+      } catch (error) {
+        if (error instanceof StaleFrameError) {
+          return null;
+        }
+        console.warn('⚠️ Stream frame failed, retrying over HTTP:', error);
+      }
+    }
+
+    return this.sendImageToAPI(frame, encoding);
+  }
+
+  private async readFrameBytes(frame: PreparedFrame): Promise<ArrayBuffer> {
+    return (await this.environment.transport(frame.uri)).arrayBuffer();
+  }
+
+  private toPayload(image: string | ArrayBuffer): StreamFramePayload {
+    return {
+      image,
+      confidence_threshold: this.config.confidenceThreshold,
+      center_focus_only: this.config.centerFocusOnly
+    };
+  }
+
+  private async buildRequest(
+    frame: PreparedFrame,
+    encoding: FrameEncoding
+  ): Promise<{ url: string; headers: Record<string, string>; body: BodyInit }> {
+    const url = `${this.config.apiUrl}/detect`;
+
+    switch (encoding) {
+      case 'octet-stream': {
+        const image = await (await this.environment.transport(frame.uri)).blob();
+        const query = `confidence_threshold=${this.config.confidenceThreshold}` +
+          `&center_focus_only=${this.config.centerFocusOnly}`;
+        return {
+          url: `${url}?${query}`,
+          headers: { 'Content-Type': 'application/octet-stream' },
+          body: image,
+        };
+      }
+      case 'multipart': {
+        const form = new FormData();
+        if (this.environment.platform === 'web') {
+          form.append('image', await (await this.environment.transport(frame.uri)).blob(), 'frame.jpg');
+        } else {
+          // React Native streams the file from disk when given a uri descriptor
+          form.append('image', { uri: frame.uri, name: 'frame.jpg', type: 'image/jpeg' } as unknown as Blob);
+        }
+        form.append('confidence_threshold', String(this.config.confidenceThreshold));
+        form.append('center_focus_only', String(this.config.centerFocusOnly));
+        // fetch sets the multipart Content-Type with its boundary
+        return { url, headers: {}, body: form };
+      }
+      default:
+        return {
+          url,
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(this.toPayload(frame.base64!)),
+        };
+    }
+  }
+
+  // Only servers that advertise /ws/detect get a stream; the rest stay on HTTP
+  private openStream() {
+    if (!this.config.streamingEnabled || !this.getServerCapabilities().streaming || this.stream) return;
+
+    this.stream = new DetectionStream(toStreamUrl(this.config.apiUrl), this.config.timeoutMs);
+    this.stream.connect();
+  }
+
+  private closeStream() {
+    this.stream?.close();
+    this.stream = null;
+  }
+
+  private async sendImageToAPI(
+    frame: PreparedFrame,
+    encoding: FrameEncoding
+  ): Promise<APIDetectionResponse> {
+    const controller = new AbortController();
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const request = await this.buildRequest(frame, encoding);
+
+      // Send to FastAPI backend; the timeout also covers reading the body
+      timeoutId = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+      const response = await this.environment.transport(request.url, {
+        method: 'POST',
+        signal: controller.signal,
+        headers: request.headers,
+        body: request.body,
+      });
+
+      if (response.status === 415 && encoding !== 'json') {
+        // Server advertised an encoding it then refused; don't offer it again
+        this.refusedEncodings.add(encoding);
+      }
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      return parseDetectionResponse(await response.json());
+    } catch (error) {
+      console.error('🚨 API request failed:', error);
+      // A failed request usually means the server went away
+      this.isApiAvailable = false;
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
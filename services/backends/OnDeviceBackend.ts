@@ -0,0 +1,156 @@
+import * as tf from '@tensorflow/tfjs-core';
+import '@tensorflow/tfjs-backend-cpu';
+import * as cocoSsd from '@tensorflow-models/coco-ssd';
+import * as jpeg from 'jpeg-js';
+import type { APIDetection, APIDetectionResponse, Detection } from '../APIDetectionService';
+import {
+  BackendCapabilities,
+  BackendConfig,
+  BackendHealth,
+  DetectionBackend,
+  DetectionContext,
+  DetectionFrame,
+} from '../DetectionBackend';
+import type { Environment } from '../Environment';
+import { BUNDLE_SCHEME, hasBundledModel } from './bundledModels';
+import { base64ToBytes } from './prepareFrame';
+
+// COCO class names that differ from the labels the pipeline knows
+const LABEL_ALIASES: Record<string, string> = {
+  'dining table': 'table',
+  'potted plant': 'plant',
+  'stop sign': 'sign',
+};
+
+export class OnDeviceBackend implements DetectionBackend {
+  readonly name = 'on-device';
+  readonly capabilities: BackendCapabilities = {
+    requiresFrame: true,
+    requiresNetwork: false,
+    simulated: false,
+  };
+
+  private model: cocoSsd.ObjectDetection | null = null;
+  private modelLoad: Promise<cocoSsd.ObjectDetection> | null = null;
+  private lastLoadAttempt = 0;
+  private lastError: string | undefined;
+  private readonly LOAD_RETRY_INTERVAL = 60000; // 1 minute
+  private readonly MAX_DETECTIONS = 20;
+
+  constructor(private config: BackendConfig, private environment: Environment) {}
+
+  configure(config: BackendConfig) {
+    if (config.onDeviceModelUrl !== this.config.onDeviceModelUrl) {
+      this.model?.dispose();
+      this.model = null;
+      this.modelLoad = null;
+      this.lastLoadAttempt = 0;
+    }
+    this.config = config;
+  }
+
+  getHealth(): BackendHealth {
+    return {
+      available: this.model !== null,
+      lastCheck: this.lastLoadAttempt,
+      message: this.lastError,
+    };
+  }
+
+  async checkHealth(force = false): Promise<BackendHealth> {
+    if (this.model) {
+      return this.getHealth();
+    }
+
+    const now = this.environment.clock.now();
+    if (!force && !this.modelLoad && now - this.lastLoadAttempt < this.LOAD_RETRY_INTERVAL) {
+      return this.getHealth();
+    }
+
+    try {
+      await this.loadModel();
+    } catch (error) {
+      console.warn('⚠️ On-device model could not be loaded:', error);
+    }
+    return this.getHealth();
+  }
+
+  async detect(frame: DetectionFrame, context: DetectionContext): Promise<Detection[]> {
+    if (!frame.imageUri) {
+      throw new Error('On-device backend needs a camera frame');
+    }
+
+    const model = await this.loadModel();
+    const startTime = this.environment.clock.now();
+    const prepared = await this.environment.preprocessFrame(frame.imageUri, undefined, {
+      base64: true,
+      sourceSize: frame.size,
+    });
+    const decoded = jpeg.decode(base64ToBytes(prepared.base64!), {
+      useTArray: true,
+      formatAsRGBA: false,
+    });
+
+    const image = tf.tensor3d(decoded.data, [decoded.height, decoded.width, 3], 'int32');
+    let objects: cocoSsd.DetectedObject[];
+    try {
+      objects = await model.detect(image, this.MAX_DETECTIONS, this.config.confidenceThreshold);
+    } finally {
+      image.dispose();
+    }
+
+    const response: APIDetectionResponse = {
+      detections: objects.map(object => this.toAPIDetection(object)),
+      image_width: decoded.width,
+      image_height: decoded.height,
+      processing_time: (this.environment.clock.now() - startTime) / 1000,
+    };
+
+    return context.toDetections(response);
+  }
+
+  private toAPIDetection(object: cocoSsd.DetectedObject): APIDetection {
+    // coco-ssd boxes are [x, y, width, height]; the API uses [x1, y1, x2, y2]
+    const [x, y, width, height] = object.bbox;
+    return {
+      label: LABEL_ALIASES[object.class] ?? object.class,
+      confidence: object.score,
+      bbox: [x, y, x + width, y + height],
+    };
+  }
+
+  private loadModel(): Promise<cocoSsd.ObjectDetection> {
+    if (this.model) {
+      return Promise.resolve(this.model);
+    }
+
+    if (!this.modelLoad) {
+      const modelUrl = this.config.onDeviceModelUrl;
+      this.lastLoadAttempt = this.environment.clock.now();
+      this.modelLoad = (async () => {
+        if (modelUrl.startsWith(BUNDLE_SCHEME) && !hasBundledModel(modelUrl)) {
+          throw new Error(`No bundled model registered as ${modelUrl}`);
+        }
+
+        // CPU only: no GL context is needed and it behaves the same on every platform
+        await tf.setBackend('cpu');
+        await tf.ready();
+        return cocoSsd.load({ base: 'lite_mobilenet_v2', modelUrl });
+      })();
+
+      this.modelLoad.then(
+        model => {
+          this.model = model;
+          this.lastError = undefined;
+          console.log('✅ On-device detection model loaded');
+        },
+        error => {
+          this.lastError = String(error);
+          this.modelLoad = null;
+        }
+      );
+    }
+
+    return this.modelLoad;
+  }
+}
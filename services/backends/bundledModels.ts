@@ -0,0 +1,68 @@
+import * as tf from '@tensorflow/tfjs-core';
+import { Asset } from 'expo-asset';
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+import { base64ToBytes } from './prepareFrame';
+
+export const BUNDLE_SCHEME = 'bundle://';
+
+// A model shipped inside the app binary: the parsed model.json plus the
+// asset module ids (`require('...shard1of2.bin')`) of its weight shards, in
+// manifest order.
+export interface BundledModel {
+  modelJson: tf.io.ModelJSON;
+  weightAssets: number[];
+}
+
+const bundledModels: Map<string, BundledModel> = new Map();
+
+export function registerBundledModel(name: string, model: BundledModel) {
+  bundledModels.set(name, model);
+}
+
+export function hasBundledModel(url: string): boolean {
+  return url.startsWith(BUNDLE_SCHEME) && bundledModels.has(url.slice(BUNDLE_SCHEME.length));
+}
+
+async function readAssetBytes(assetModule: number): Promise<ArrayBuffer> {
+  const asset = Asset.fromModule(assetModule);
+  await asset.downloadAsync();
+  const localUri = asset.localUri ?? asset.uri;
+
+  if (Platform.OS === 'web') {
+    const response = await fetch(localUri);
+    return response.arrayBuffer();
+  }
+
+  const base64 = await FileSystem.readAsStringAsync(localUri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  const bytes = base64ToBytes(base64);
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+function bundleLoadHandler(name: string): tf.io.IOHandler {
+  return {
+    load: async () => {
+      const model = bundledModels.get(name);
+      if (!model) {
+        throw new Error(`No bundled model registered as ${BUNDLE_SCHEME}${name}`);
+      }
+
+      return tf.io.getModelArtifactsForJSON(model.modelJson, async manifest => {
+        const buffers = await Promise.all(model.weightAssets.map(readAssetBytes));
+        const specs = manifest.flatMap(group => group.weights);
+        return [specs, tf.io.concatenateArrayBuffers(buffers)];
+      });
+    },
+  };
+}
+
+// Lets `loadGraphModel('bundle://<name>')` read weights from app assets
+// instead of the network. tfjs routers return null for URLs they don't own,
+// although the IORouter type doesn't admit it.
+tf.io.registerLoadRouter(url =>
+  typeof url === 'string' && url.startsWith(BUNDLE_SCHEME)
+    ? bundleLoadHandler(url.slice(BUNDLE_SCHEME.length))
+    : (null as unknown as tf.io.IOHandler)
+);
@@ -0,0 +1,32 @@
+import type { APIDetection, APIDetectionResponse } from '../APIDetectionService';
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+// A body that doesn't look like a /detect response fails here rather than
+// as NaN distances further down the pipeline
+export function parseDetectionResponse(body: unknown): APIDetectionResponse {
+  const doc = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  if (!Array.isArray(doc.detections)) {
+    throw new Error('Malformed detection response: no "detections" array');
+  }
+  if (!isFiniteNumber(doc.image_width) || !isFiniteNumber(doc.image_height) || doc.image_width <= 0 || doc.image_height <= 0) {
+    throw new Error('Malformed detection response: "image_width" and "image_height" must be positive numbers');
+  }
+
+  doc.detections.forEach((value, index) => {
+    const detection = (value && typeof value === 'object' ? value : {}) as Partial<APIDetection>;
+    if (typeof detection.label !== 'string' || !isFiniteNumber(detection.confidence)) {
+      throw new Error(`Malformed detection response: detection ${index} needs a label and a confidence`);
+    }
+    if (!Array.isArray(detection.bbox) || detection.bbox.length !== 4 || !detection.bbox.every(isFiniteNumber)) {
+      throw new Error(`Malformed detection response: detection ${index} needs a bbox of 4 numbers`);
+    }
+  });
+
+  return {
+    detections: doc.detections as APIDetection[],
+    image_width: doc.image_width,
+    image_height: doc.image_height,
+    processing_time: isFiniteNumber(doc.processing_time) ? doc.processing_time : 0,
+  };
+}
@@ -0,0 +1,70 @@
+import * as ImageManipulator from 'expo-image-manipulator';
+
+export interface PreparedFrame {
+  uri: string;
+  base64?: string; // only present when requested
+  width: number;
+  height: number;
+}
+
+export const DETECTION_FRAME_SIZE = { width: 640, height: 480 }; // Standard detection size
+
+// Largest size that fits `size` (in either orientation) without changing the
+// source aspect ratio, so object heights keep their real proportions
+export function fitFrameSize(
+  source: { width: number; height: number },
+  size: { width: number; height: number }
+): { width: number; height: number } {
+  const scale = Math.min(
+    1,
+    Math.max(size.width, size.height) / Math.max(source.width, source.height),
+    Math.min(size.width, size.height) / Math.min(source.width, source.height)
+  );
+  return {
+    width: Math.round(source.width * scale),
+    height: Math.round(source.height * scale),
+  };
+}
+
+// Resizes a camera frame to the detector input size and encodes it as JPEG.
+// Base64 costs JS-thread time on every frame, so callers that upload the file
+// itself can skip it.
+export async function prepareFrame(
+  imageUri: string,
+  size: { width: number; height: number } = DETECTION_FRAME_SIZE,
+  options: { base64: boolean; sourceSize?: { width: number; height: number } } = { base64: true }
+): Promise<PreparedFrame> {
+  // Without the source size, fixing only the width still keeps the aspect ratio
+  const resize = options.sourceSize
+    ? fitFrameSize(options.sourceSize, size)
+    : { width: size.width };
+  const manipulatedImage = await ImageManipulator.manipulateAsync(
+    imageUri,
+    [{ resize }],
+    {
+      compress: 0.8,
+      format: ImageManipulator.SaveFormat.JPEG,
+      base64: options.base64
+    }
+  );
+
+  if (options.base64 && !manipulatedImage.base64) {
+    throw new Error('Failed to convert image to base64');
+  }
+
+  return {
+    uri: manipulatedImage.uri,
+    base64: manipulatedImage.base64,
+    width: manipulatedImage.width,
+    height: manipulatedImage.height,
+  };
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,96 @@
+export type FrameEncoding = 'octet-stream' | 'multipart' | 'json';
+
+export type ObjectCategory = 'critical' | 'warning' | 'info';
+
+// Most compact first; base64-in-JSON is what every server understands
+export const ENCODING_PREFERENCE: FrameEncoding[] = ['octet-stream', 'multipart', 'json'];
+
+/**
+ * What a detection server reports about itself on GET /health:
+ *
+ *   {
+ *     "model": { "name": "yolov8n", "version": "8.1.0" },
+ *     "labels": ["person", "chair", ...],
+ *     "input_size": [640, 480],
+ *     "supported_encodings": ["octet-stream", "json"],
+ *     "streaming": true,
+ *     "max_fps": 5,
+ *     "label_categories": { "stroller": "critical" }
+ *   }
+ *
+ * Every field is optional; servers that answer with a bare 200 get the
+ * defaults below. `streaming` says the server accepts frames on /ws/detect:
+ * binary messages when it lists a binary encoding, base64 JSON otherwise
+ * (see DetectionStream.ts).
+ */
+export interface ServerCapabilities {
+  modelName: string | null;
+  modelVersion: string | null;
+  labels: string[];
+  inputSize: { width: number; height: number };
+  encodings: FrameEncoding[];
+  streaming: boolean;
+  maxFps: number | null;
+  labelCategories: Record<string, ObjectCategory>;
+}
+
+export const DEFAULT_SERVER_CAPABILITIES: ServerCapabilities = {
+  modelName: null,
+  modelVersion: null,
+  labels: [],
+  inputSize: { width: 640, height: 480 },
+  encodings: ['json'],
+  streaming: false,
+  maxFps: null,
+  labelCategories: {},
+};
+
+const CATEGORIES: ObjectCategory[] = ['critical', 'warning', 'info'];
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+}
+
+function parseInputSize(value: unknown): ServerCapabilities['inputSize'] | null {
+  if (Array.isArray(value) && isPositiveNumber(value[0]) && isPositiveNumber(value[1])) {
+    return { width: value[0], height: value[1] };
+  }
+  if (value && typeof value === 'object') {
+    const { width, height } = value as Record<string, unknown>;
+    if (isPositiveNumber(width) && isPositiveNumber(height)) {
+      return { width, height };
+    }
+  }
+  return null;
+}
+
+export function parseServerCapabilities(body: unknown): ServerCapabilities {
+  if (!body || typeof body !== 'object') {
+    return DEFAULT_SERVER_CAPABILITIES;
+  }
+
+  const doc = body as Record<string, unknown>;
+  const model = (doc.model && typeof doc.model === 'object' ? doc.model : {}) as Record<string, unknown>;
+  const advertised = Array.isArray(doc.supported_encodings) ? doc.supported_encodings : [];
+  const encodings = ENCODING_PREFERENCE.filter(encoding => advertised.includes(encoding));
+
+  const labelCategories: Record<string, ObjectCategory> = {};
+  if (doc.label_categories && typeof doc.label_categories === 'object') {
+    Object.entries(doc.label_categories as Record<string, unknown>).forEach(([label, category]) => {
+      if (CATEGORIES.includes(category as ObjectCategory)) {
+        labelCategories[label] = category as ObjectCategory;
+      }
+    });
+  }
+
+  return {
+    modelName: typeof model.name === 'string' ? model.name : null,
+    modelVersion: typeof model.version === 'string' ? model.version : null,
+    labels: Array.isArray(doc.labels) ? doc.labels.filter((label): label is string => typeof label === 'string') : [],
+    inputSize: parseInputSize(doc.input_size) ?? DEFAULT_SERVER_CAPABILITIES.inputSize,
+    encodings: encodings.length > 0 ? encodings : DEFAULT_SERVER_CAPABILITIES.encodings,
+    streaming: doc.streaming === true,
+    maxFps: isPositiveNumber(doc.max_fps) ? doc.max_fps : null,
+    labelCategories,
+  };
+}
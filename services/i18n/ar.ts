@@ -0,0 +1,814 @@
+import type { Catalog } from './translator';
+
+// Counted nouns: "two" is the dual, 3-10 take the plural, 11-99 the
+// accusative singular, and 100+ the genitive singular ("other")
+export const ar: Catalog = {
+  punctuation: {
+    comma: '، ',
+  },
+
+  labels: {
+    person: { one: 'شخص', two: 'شخصان', few: 'أشخاص', many: 'شخصًا', other: 'شخص' },
+    car: { one: 'سيارة', two: 'سيارتان', few: 'سيارات', other: 'سيارة' },
+    bicycle: { one: 'دراجة', two: 'دراجتان', few: 'دراجات', other: 'دراجة' },
+    motorcycle: { one: 'دراجة نارية', two: 'دراجتان ناريتان', few: 'دراجات نارية', other: 'دراجة نارية' },
+    truck: { one: 'شاحنة', two: 'شاحنتان', few: 'شاحنات', other: 'شاحنة' },
+    bus: { one: 'حافلة', two: 'حافلتان', few: 'حافلات', other: 'حافلة' },
+    chair: { one: 'كرسي', two: 'كرسيان', few: 'كراسٍ', many: 'كرسيًا', other: 'كرسي' },
+    table: { one: 'طاولة', two: 'طاولتان', few: 'طاولات', other: 'طاولة' },
+    door: { one: 'باب', two: 'بابان', few: 'أبواب', many: 'بابًا', other: 'باب' },
+    pole: { one: 'عمود', two: 'عمودان', few: 'أعمدة', many: 'عمودًا', other: 'عمود' },
+    stairs: { one: 'درج', two: 'درجان', few: 'أدراج', many: 'درجًا', other: 'درج' },
+    step: { one: 'درجة', two: 'درجتان', few: 'درجات', other: 'درجة' },
+    bench: { one: 'مقعد', two: 'مقعدان', few: 'مقاعد', many: 'مقعدًا', other: 'مقعد' },
+    wall: { one: 'جدار', two: 'جداران', few: 'جدران', many: 'جدارًا', other: 'جدار' },
+    tree: { one: 'شجرة', two: 'شجرتان', few: 'أشجار', other: 'شجرة' },
+    'trash can': { one: 'سلة مهملات', two: 'سلتا مهملات', few: 'سلال مهملات', other: 'سلة مهملات' },
+    sign: { one: 'لافتة', two: 'لافتتان', few: 'لافتات', other: 'لافتة' },
+    bottle: { one: 'زجاجة', two: 'زجاجتان', few: 'زجاجات', other: 'زجاجة' },
+    cup: { one: 'كوب', two: 'كوبان', few: 'أكواب', many: 'كوبًا', other: 'كوب' },
+  },
+
+  common: {
+    cancel: 'إلغاء',
+    reset: 'إعادة تعيين',
+    done: 'تم',
+    stepsShort: { one: 'خطوة واحدة', two: 'خطوتان', few: '{count} خطوات', other: '{count} خطوة' },
+    moving: 'يتحرك',
+    hapticOn: 'تم تفعيل الاهتزاز',
+    hapticOff: 'تم إيقاف الاهتزاز',
+  },
+
+  alerts: {
+    stop: 'توقف!',
+    caution: 'انتبه!',
+    approaching: {
+      one: '{label} يقترب، التلامس خلال ثانية واحدة',
+      two: '{label} يقترب، التلامس خلال ثانيتين',
+      few: '{label} يقترب، التلامس خلال {count} ثوانٍ',
+      other: '{label} يقترب، التلامس خلال {count} ثانية',
+    },
+    ahead: {
+      one: '{label} أمامك على بعد خطوة واحدة',
+      two: '{label} أمامك على بعد خطوتين',
+      few: '{label} أمامك على بعد {count} خطوات',
+      other: '{label} أمامك على بعد {count} خطوة',
+    },
+    nowSteps: {
+      one: '{label}، الآن على بعد خطوة واحدة',
+      two: '{label}، الآن على بعد خطوتين',
+      few: '{label}، الآن على بعد {count} خطوات',
+      other: '{label}، الآن على بعد {count} خطوة',
+    },
+    passingBy: 'يمر بجانبك',
+    movingFast: 'يتحرك بسرعة',
+    moving: 'يتحرك',
+    pair: '{first} و{second}',
+    criticalGroup: '{critical} و{others}',
+    criticalObjects: {
+      one: 'جسم خطير واحد',
+      two: 'جسمان خطيران',
+      few: '{count} أجسام خطيرة',
+      many: '{count} جسمًا خطيرًا',
+      other: '{count} جسم خطير',
+    },
+    otherObjects: {
+      zero: 'لا شيء آخر',
+      one: 'جسم آخر',
+      two: 'جسمان آخران',
+      few: '{count} أجسام أخرى',
+      many: '{count} جسمًا آخر',
+      other: '{count} جسم آخر',
+    },
+    objects: {
+      one: 'جسم واحد',
+      two: 'جسمان',
+      few: '{count} أجسام',
+      many: '{count} جسمًا',
+      other: '{count} جسم',
+    },
+  },
+
+  directions: {
+    left: 'على يسارك',
+    right: 'على يمينك',
+    clock: 'عند الساعة {count}',
+    straightAhead: 'أمامك مباشرة',
+    degreesLeft: {
+      one: 'درجة واحدة إلى اليسار',
+      two: 'درجتان إلى اليسار',
+      few: '{count} درجات إلى اليسار',
+      other: '{count} درجة إلى اليسار',
+    },
+    degreesRight: {
+      one: 'درجة واحدة إلى اليمين',
+      two: 'درجتان إلى اليمين',
+      few: '{count} درجات إلى اليمين',
+      other: '{count} درجة إلى اليمين',
+    },
+    short: {
+      ahead: 'أمامك',
+      left: 'يسار',
+      right: 'يمين',
+      clock: 'الساعة {count}',
+      degreesLeft: '{count}° يسار',
+      degreesRight: '{count}° يمين',
+    },
+    formats: {
+      leftRight: 'يسار / يمين',
+      clock: 'عقارب الساعة',
+      degrees: 'درجات',
+    },
+  },
+
+  scene: {
+    center: 'الوسط',
+    left: 'اليسار',
+    right: 'اليمين',
+    clock: 'الساعة {count}',
+    region: '{region}: {description}.',
+    clear: 'خالٍ',
+    group: { one: '{label}', two: '{label}', other: '{count} {label}' },
+    at: {
+      one: '{subject} على بعد خطوة واحدة',
+      two: '{subject} على بعد خطوتين',
+      few: '{subject} على بعد {count} خطوات',
+      other: '{subject} على بعد {count} خطوة',
+    },
+  },
+
+  tabs: {
+    camera: 'الكاميرا',
+    cameraHint: 'شاشة التنقل بالكاميرا',
+    settings: 'الإعدادات',
+    settingsHint: 'شاشة الإعدادات والمعايرة',
+    tutorial: 'الدليل',
+    tutorialHint: 'شاشة الدليل والمساعدة',
+  },
+
+  camera: {
+    activated: 'تم تشغيل StepSight. جارٍ البحث عن العوائق في طريقك.',
+    describeInactive: 'ابدأ المسح لوصف ما حولك',
+    cameraOn: 'تم تشغيل الكاميرا',
+    cameraOff: 'تم إيقاف الكاميرا',
+    audioOn: 'تم تفعيل الصوت',
+    audioOff: 'تم إيقاف الصوت',
+    flipped: 'تم قلب الكاميرا',
+    testingConnection: 'جارٍ اختبار الاتصال بالخادم',
+    connectionOk: 'نجح الاتصال بالخادم',
+    connectionFailedNoFallback: 'فشل الاتصال بالخادم، ولا بديل في وضع الذكاء الاصطناعي فقط',
+    connectionFailedSimulation: 'فشل الاتصال بالخادم، يتم استخدام وضع المحاكاة',
+    recording: 'تسجيل',
+    recordingHint: 'يتم تسجيل هذه الجلسة',
+    status: {
+      inactive: 'متوقف',
+      onDevice: 'ذكاء اصطناعي على الجهاز',
+      apiReady: 'الخادم جاهز',
+      apiOffline: 'الخادم غير متصل',
+      simulation: 'محاكاة',
+      checking: 'جارٍ التحقق',
+    },
+    apiStatus: {
+      unknown: 'غير معروف',
+      available: 'متاح',
+      unavailable: 'غير متاح',
+    },
+    loadingPermissions: 'جارٍ تحميل أذونات الكاميرا...',
+    permissionTitle: 'يلزم الوصول إلى الكاميرا',
+    permissionMessage: 'يحتاج StepSight إلى الوصول إلى الكاميرا لاكتشاف العوائق ومساعدتك في التنقل.',
+    grantPermission: 'منح الإذن',
+    grantPermissionHint: 'منح إذن الكاميرا',
+    stepLength: 'الخطوة: {count} سم',
+    platformWeb: 'الويب',
+    platformMobile: 'الجوال',
+    detectionZone: 'منطقة الاكتشاف',
+    confident: 'الثقة {percent}%',
+    stats: 'الخادم: {status} | الطلبات: {calls} | الاكتشافات: {detections} | الأخطاء: {errors}',
+    start: 'ابدأ',
+    stop: 'توقف',
+    startHint: 'بدء المسح',
+    stopHint: 'إيقاف المسح',
+    enableAudio: 'تفعيل الصوت',
+    disableAudio: 'إيقاف الصوت',
+    enableHaptic: 'تفعيل الاهتزاز',
+    disableHaptic: 'إيقاف الاهتزاز',
+    describe: 'وصف المشهد',
+    describeHint: 'ينطق كل العوائق على يسارك وفي الوسط وعلى يمينك',
+    flip: 'قلب الكاميرا',
+    testConnection: 'اختبار الاتصال بالخادم',
+  },
+
+  overlay: {
+    center: 'الوسط',
+    urgent: 'تم اكتشاف عائق',
+    urgentSubtext: 'توقف فورًا',
+  },
+
+  settings: {
+    title: 'الإعدادات',
+    subtitle: 'اضبط StepSight حسب احتياجاتك',
+
+    stepLength: {
+      title: 'معايرة طول الخطوة',
+      current: 'طول الخطوة الحالي',
+      value: '{count} سم',
+      placeholder: 'أدخل طول الخطوة (سم)',
+      inputHint: 'حقل طول الخطوة',
+      saveHint: 'حفظ طول الخطوة',
+      hint: 'طول الخطوة الدقيق يحسّن تقدير المسافة. استخدم المعايرة للحصول على أفضل النتائج.',
+      walkDistance: 'مسافة مشي المعايرة (بالأمتار)',
+      walkDistanceHint: 'المسافة التي ستمشيها للمعايرة بالأمتار',
+      start: 'بدء مشي المعايرة',
+      startHint: 'بدء عدّ الخطوات للمعايرة',
+      complete: 'إنهاء المشي',
+      completeHint: 'إيقاف عدّ الخطوات وحساب طول خطوتك',
+      cancel: 'إلغاء',
+      cancelHint: 'إلغاء معايرة الخطوة',
+      stepsSoFar: {
+        zero: 'لم تُحسب أي خطوة',
+        one: 'حُسبت خطوة واحدة',
+        two: 'حُسبت خطوتان',
+        few: 'حُسبت {count} خطوات',
+        many: 'حُسبت {count} خطوة',
+        other: 'حُسبت {count} خطوة',
+      },
+      updated: 'تم تحديث طول الخطوة إلى {count} سنتيمتر',
+      invalid: 'يرجى إدخال طول خطوة بين 40 و100 سنتيمتر',
+      invalidDistance: 'يرجى إدخال مسافة مشي بين 3 و100 متر',
+      noSensor: 'لا يحتوي هذا الجهاز على مستشعر للخطوات. أدخل طول خطوتك يدويًا.',
+      calibrationStarted: 'بدأت المعايرة. امشِ {distance} متر في خط مستقيم بسرعتك المعتادة، ثم اضغط إنهاء المشي.',
+      calibrationComplete: 'اكتملت المعايرة. {steps} خطوة على مسافة {distance} متر. طول خطوتك {count} سنتيمتر.',
+      calibrationCancelled: 'أُلغيت المعايرة',
+      failures: {
+        noSteps: 'لم تُحسب أي خطوة. احمل الهاتف معك أثناء المشي ثم حاول مرة أخرى.',
+        tooFewSteps: {
+          zero: 'لم تُحسب أي خطوة. امشِ مسافة أطول ثم حاول مرة أخرى.',
+          one: 'حُسبت خطوة واحدة فقط. امشِ مسافة أطول ثم حاول مرة أخرى.',
+          two: 'حُسبت خطوتان فقط. امشِ مسافة أطول ثم حاول مرة أخرى.',
+          few: 'حُسبت {count} خطوات فقط. امشِ مسافة أطول ثم حاول مرة أخرى.',
+          many: 'حُسبت {count} خطوة فقط. امشِ مسافة أطول ثم حاول مرة أخرى.',
+          other: 'حُسبت {count} خطوة فقط. امشِ مسافة أطول ثم حاول مرة أخرى.',
+        },
+        sensorsDisagree: 'لم تتطابق أعداد الخطوات. أمسك الهاتف بثبات ثم حاول مرة أخرى.',
+        unsteady: 'تغيّرت سرعتك كثيرًا. امشِ دون توقف وبسرعة ثابتة ثم حاول مرة أخرى.',
+        outOfRange: 'الناتج {length} سنتيمتر لكل خطوة، وهو خارج النطاق من 40 إلى 100. تحقق من المسافة ثم حاول مرة أخرى.',
+      },
+    },
+
+    camera: {
+      title: 'معايرة الكاميرا',
+      description:
+        'تُقدَّر المسافات من الحجم الظاهر للأجسام ومن موضع ملامستها للأرض. معايرة الكاميرا بجسم معروف الحجم وتحديد ارتفاع حملك للهاتف يجعلان عدد الخطوات المعلن دقيقًا لهذا الهاتف.',
+      calibrated: 'تمت المعايرة',
+      notCalibrated: 'غير معايرة (يتم استخدام كاميرا هاتف نموذجية)',
+      details: 'الكاميرا: {camera} | مجال الرؤية: {fieldOfView}',
+      reference: 'المرجع: {object} على بعد {distance} م، {date}',
+      calibrate: 'معايرة الكاميرا',
+      recalibrate: 'إعادة معايرة الكاميرا',
+      calibrateHint: 'معايرة الكاميرا',
+      clear: 'مسح المعايرة',
+      clearHint: 'مسح معايرة الكاميرا',
+      calibratedAnnouncement: {
+        few: 'تمت معايرة الكاميرا. مجال الرؤية {count} درجات.',
+        other: 'تمت معايرة الكاميرا. مجال الرؤية {count} درجة.',
+      },
+      cleared: 'تم مسح معايرة الكاميرا. يتم استخدام التقدير الافتراضي.',
+      height: 'ارتفاع الكاميرا',
+      heightDescription: 'ارتفاع الهاتف عن الأرض أثناء المشي',
+      heightValue: '{count} سم',
+      decreaseHeight: 'خفض ارتفاع الكاميرا',
+      increaseHeight: 'رفع ارتفاع الكاميرا',
+      heightSet: 'تم ضبط ارتفاع الكاميرا على {count} سنتيمتر',
+    },
+
+    ai: {
+      title: 'الاكتشاف بالذكاء الاصطناعي',
+      description: 'اضبط اكتشاف الأجسام بالذكاء الاصطناعي والتصفية للحصول على أفضل أداء.',
+      mode: 'وضع الاكتشاف',
+      modeDescription: 'اختر بين الذكاء الاصطناعي أو المحاكاة أو الاكتشاف الهجين',
+      modes: {
+        hybrid: 'هجين',
+        ai: 'ذكاء اصطناعي',
+        simulation: 'محاكاة',
+      },
+      modeNames: {
+        hybrid: 'هجين بين الذكاء الاصطناعي والمحاكاة',
+        ai: 'الذكاء الاصطناعي فقط',
+        simulation: 'المحاكاة فقط',
+      },
+      modeSet: 'تم ضبط وضع الاكتشاف على {mode}',
+      confidence: 'حد الثقة',
+      confidenceDescription: 'أدنى ثقة مطلوبة لاكتشاف جسم',
+      decreaseConfidence: 'خفض حد الثقة',
+      increaseConfidence: 'رفع حد الثقة',
+      confidenceSet: 'تم ضبط حد الثقة على {count} بالمئة',
+      centerFocus: 'التركيز على الوسط فقط',
+      centerFocusDescription: 'اكتشاف الأجسام في وسط مجال الرؤية فقط',
+      centerFocusHint: 'تبديل التركيز على الوسط فقط',
+      scenario: 'سيناريو المحاكاة',
+      scenarioDescription: 'عوائق عشوائية غير مُعدة مسبقًا في كل إطار، لاختبار التحمل وليس لمحاكاة مشي واقعي',
+      randomScenario: 'عوائق عشوائية (بدون سيناريو)',
+      scenarioHint: 'محاكاة {name}',
+      scenarioSet: 'سيناريو المحاكاة: {name}',
+      seed: 'بذرة المحاكاة',
+      seedDescription: 'البذرة نفسها تعيد الاكتشافات المحاكاة نفسها تمامًا',
+      seedHint: 'أدخل بذرة المحاكاة، عددًا صحيحًا',
+      saveSeedHint: 'حفظ بذرة المحاكاة',
+      seedSet: 'بذرة المحاكاة: {seed}',
+      invalidSeed: 'يجب أن تكون البذرة عددًا صحيحًا، صفرًا أو أكثر',
+    },
+
+    filtering: {
+      title: 'التصفية الذكية',
+      description: 'تمنع التصفية المتقدمة كثرة التنبيهات وتركّز على العوائق المهمة.',
+      proximity: 'التصفية حسب القرب',
+      proximityDescription: 'تعطي الأولوية للأجسام الأقرب',
+      temporal: 'التصفية الزمنية',
+      temporalDescription: 'تمنع تكرار التنبيهات',
+      rulesSummary: {
+        one: 'قواعد التنبيه: {preset} (قاعدة واحدة)',
+        two: 'قواعد التنبيه: {preset} (قاعدتان)',
+        few: 'قواعد التنبيه: {preset} ({count} قواعد)',
+        other: 'قواعد التنبيه: {preset} ({count} قاعدة)',
+      },
+      rules: 'قواعد التنبيه',
+      rulesHint: 'تعديل قواعد التنبيه واختبارها',
+    },
+
+    objectTypes: {
+      title: 'أنواع الأجسام',
+      description:
+        'حدّد الأجسام المهمة لك: غيّر أولويتها، أو أوقف النطق أو الاهتزاز لبعضها، أو تجاهلها تمامًا.',
+      counts: 'خطير: {critical} | تحذير: {warning} | معلومة: {info} | متجاهَل: {ignored}',
+      edit: 'تعديل أنواع الأجسام',
+      editHint: 'تعديل أنواع الأجسام',
+    },
+
+    audio: {
+      title: 'التنبيهات الصوتية',
+      enable: 'تفعيل الإعلانات الصوتية',
+      enableDescription: 'نطق معلومات العوائق بصوت عالٍ',
+      enableHint: 'تبديل الإعلانات الصوتية',
+      enabled: 'تم تفعيل التنبيهات الصوتية',
+      feedbackMode: 'نمط التنبيه',
+      feedbackModeDescription: 'تنبيهات منطوقة، أو نغمة سونار تتسارع كلما اقترب أقرب عائق، أو كلاهما',
+      feedbackModes: {
+        speech: 'كلام',
+        sonar: 'سونار',
+        speechAndSonar: 'كلام وسونار',
+      },
+      feedbackModeSet: 'نمط التنبيه: {mode}',
+      cooldown: 'فترة الانتظار بين التنبيهات',
+      cooldownDescription: 'الوقت بين تنبيهين لنفس نوع الجسم',
+      cooldownValue: '{count} ث',
+      decreaseCooldown: 'تقليل فترة الانتظار',
+      increaseCooldown: 'زيادة فترة الانتظار',
+      cooldownSet: 'تم ضبط فترة الانتظار على {count} ثانية',
+      directionFormat: 'صيغة الاتجاه',
+      directionFormatDescription: 'طريقة نطق اتجاهات الأجسام وعرضها',
+      directionFormatHint: '{name}، مثلًا {example}',
+      directionFormatSet: 'تم ضبط الاتجاهات على {name}، مثلًا: {example}',
+      spatial: 'الصوت المكاني',
+      spatialDescription: 'نغمة من اتجاه كل عائق، والأفضل مع سماعات الرأس',
+      spatialHint: 'تبديل الصوت المكاني',
+      spatialModes: {
+        beforeSpeech: 'نغمة ثم كلام',
+        insteadOfSpeech: 'نغمة فقط',
+      },
+      spatialModeHint: 'الصوت المكاني: {mode}',
+      spatialPreview: 'نغمة من اليسار ثم من اليمين',
+      rate: 'سرعة النطق',
+      rateDescription: 'مدى سرعة نطق التنبيهات',
+      rateValue: '{count}٪',
+      decreaseRate: 'نطق أبطأ',
+      increaseRate: 'نطق أسرع',
+      rateSet: 'سرعة النطق {count} بالمئة',
+      pitch: 'طبقة الصوت',
+      pitchDescription: 'مدى حدة الصوت أو عمقه',
+      pitchValue: '{count}٪',
+      decreasePitch: 'طبقة أخفض',
+      increasePitch: 'طبقة أعلى',
+      pitchSet: 'طبقة الصوت {count} بالمئة',
+      voice: 'الصوت',
+      voiceDescription: 'الأصوات المثبتة للغة الحالية',
+      defaultVoice: 'الافتراضي',
+      defaultVoiceHint: 'استخدام الصوت الافتراضي لهذه اللغة',
+      voiceHint: 'استخدام صوت {name}',
+      voiceSet: 'هكذا يبدو صوت {name}',
+      noVoices: 'لا توجد أصوات أخرى مثبتة لهذه اللغة',
+    },
+
+    language: {
+      title: 'اللغة',
+      label: 'لغة التطبيق',
+      description: 'تُستخدم في الإعلانات وأسماء الأجسام والقوائم',
+      system: 'النظام',
+      systemHint: 'اتباع لغة الجهاز',
+      set: 'تم تغيير اللغة إلى {name}',
+      restartTitle: 'يلزم إعادة التشغيل',
+      restartMessage: 'أغلق StepSight وأعد فتحه لتغيير اتجاه الواجهة.',
+    },
+
+    haptic: {
+      title: 'الاهتزاز',
+      enable: 'تفعيل تنبيهات الاهتزاز',
+      description: 'الاهتزاز عندما تكون العوائق قريبة جدًا (خطوة أو خطوتان)',
+      hint: 'تبديل الاهتزاز',
+      design: 'تصميم أنماط الاهتزاز',
+      designHint: 'تعديل نمط الاهتزاز لكل نوع تنبيه واتجاه',
+    },
+
+    detection: {
+      title: 'إعدادات الاكتشاف',
+      sensitivity: 'حساسية الاكتشاف',
+      sensitivityDescription: 'القيم الأعلى تكتشف أجسامًا أكثر لكنها قد تزيد الإنذارات الخاطئة',
+      decreaseSensitivity: 'خفض الحساسية',
+      increaseSensitivity: 'رفع الحساسية',
+      sensitivitySet: 'تم ضبط حساسية الاكتشاف على {count} بالمئة',
+    },
+
+    platform: {
+      title: 'معلومات المنصة',
+      runningOn: 'يعمل على {platform}',
+      web: 'متصفح ويب',
+      mobile: 'جهاز جوال',
+      details: 'المنصة: {os} | الإصدار: {version} | دعم الذكاء الاصطناعي: {support}',
+      supportLimited: 'محدود',
+      supportFull: 'كامل',
+      model: 'نموذج الاكتشاف: {model}',
+      notConnected: 'غير متصل بخادم اكتشاف',
+      noModel: 'متصل (لم يذكر الخادم نموذجه)',
+      server: 'التصنيفات: {labels} | الإدخال: {width}x{height} | أقصى معدل إطارات: {fps}',
+      unknown: 'غير معروف',
+      unlimited: 'غير محدود',
+      lastDetector: 'آخر كاشف: {source}',
+      noneYet: 'لا يوجد بعد',
+      onDeviceModel: 'النموذج على الجهاز: {status}',
+      onDeviceLoaded: 'تم التحميل',
+      onDeviceNotLoaded: 'لم يُحمَّل بعد',
+      onDeviceFailed: 'تعذّر التحميل ({error})',
+      onDeviceUnavailable: 'غير متاح',
+    },
+
+    advanced: {
+      show: 'إظهار الإعدادات المتقدمة',
+      hide: 'إخفاء الإعدادات المتقدمة',
+      title: 'متقدم',
+      export: 'تصدير',
+      exportHint: 'تصدير الإعدادات',
+      exportedTitle: 'تم تصدير الإعدادات',
+      exportedMessage: 'تم نسخ الإعدادات إلى الحافظة',
+      exported: 'تم تصدير الإعدادات بنجاح',
+      exportFailedTitle: 'فشل التصدير',
+      exportFailedMessage: 'تعذر تصدير الإعدادات',
+      import: 'استيراد',
+      importHint: 'استيراد الإعدادات',
+      importTitle: 'استيراد الإعدادات',
+      importMessage: 'سيتم تنفيذ الاستيراد هنا',
+    },
+
+    recording: {
+      record: 'تسجيل الجلسات',
+      description:
+        'يحفظ ما رآه الكاشف والتنبيهات التي صدرت أثناء تشغيل الكاميرا، حتى يمكن إعادة تشغيل تحذير فائت والتحقق منه. تبقى التسجيلات على هذا الجهاز.',
+      unsupported: 'تسجيل الجلسات غير متاح على الويب.',
+      recordHint: 'تسجيل جلسات الكشف',
+      on: 'تم تشغيل تسجيل الجلسات',
+      off: 'تم إيقاف تسجيل الجلسات',
+      sessions: 'الجلسات المسجلة',
+      none: 'لا توجد جلسات مسجلة بعد.',
+      frames: {
+        zero: 'لا إطارات',
+        one: 'إطار واحد',
+        two: 'إطاران',
+        few: '{count} إطارات',
+        many: '{count} إطارًا',
+        other: '{count} إطار',
+      },
+      alerts: {
+        zero: 'لا تنبيهات',
+        one: 'تنبيه واحد',
+        two: 'تنبيهان',
+        few: '{count} تنبيهات',
+        many: '{count} تنبيهًا',
+        other: '{count} تنبيه',
+      },
+      replay: 'إعادة التشغيل',
+      replayHint: 'إعادة تشغيل الجلسة {session}',
+      replayFailed: 'تعذرت إعادة تشغيل هذه الجلسة',
+      delete: 'حذف',
+      deleteHint: 'حذف الجلسة {session}',
+      deleteTitle: 'حذف الجلسة؟',
+      deleted: 'تم حذف الجلسة',
+    },
+
+    reset: {
+      button: 'استعادة الإعدادات الافتراضية',
+      hint: 'استعادة كل الإعدادات الافتراضية',
+      title: 'إعادة تعيين الإعدادات',
+      message: 'هل تريد بالتأكيد استعادة كل الإعدادات الافتراضية؟',
+      done: 'تمت استعادة الإعدادات الافتراضية',
+    },
+  },
+
+  calibration: {
+    title: 'معايرة الكاميرا',
+    references: {
+      a4: 'ورقة A4 (عمودية)',
+      letter: 'ورقة Letter (عمودية)',
+      door: 'باب قياسي',
+    },
+    setupDescription:
+      'اختر جسمًا معروف الحجم، ثم قف على مسافة مقيسة منه. أمسك الهاتف بشكل عمودي وبمستوى منتصف الجسم.',
+    referenceOption: '{object} ({height} سم)',
+    referenceHint: 'استخدام {object}، بارتفاع {height} متر',
+    distance: 'المسافة من الجسم (بالمتر)',
+    distanceHint: 'المسافة من الجسم بالمتر',
+    invalidDistanceTitle: 'مسافة غير صالحة',
+    invalidDistanceMessage: 'أدخل مسافة بين 0.3 و10 أمتار.',
+    continue: 'متابعة',
+    continueHint: 'المتابعة إلى الكاميرا',
+    standAt: 'قف على بعد {distance} متر من {object}، واجعله في المنتصف بين خطوط الإرشاد ثم التقط صورة.',
+    takePhoto: 'التقاط صورة',
+    takePhotoHint: 'التقاط صورة المعايرة',
+    photoTaken: 'تم التقاط الصورة. حرّك الخطين إلى الحافتين العليا والسفلى للجسم.',
+    cameraErrorTitle: 'خطأ في الكاميرا',
+    cameraErrorMessage: 'تعذر التقاط صورة. يرجى المحاولة مرة أخرى.',
+    grantPermission: 'منح إذن الكاميرا',
+    grantPermissionHint: 'منح إذن الكاميرا',
+    edges: {
+      top: 'الحافة العليا',
+      bottom: 'الحافة السفلى',
+    },
+    moveUp: 'تحريك خط {edge} للأعلى',
+    moveDown: 'تحريك خط {edge} للأسفل',
+    fine: 'ضبط دقيق',
+    coarse: 'ضبط تقريبي',
+    fineHint: 'تبديل الضبط الدقيق',
+    save: 'حفظ المعايرة',
+    saveHint: 'حفظ المعايرة',
+    wrongTitle: 'يبدو أن المعايرة خاطئة',
+    wrongMessage: 'النتيجة خارج نطاق كاميرات الهواتف. تحقق من المسافة ومن تطابق الخطين مع حافتي الجسم.',
+    cancelHint: 'إلغاء المعايرة',
+  },
+
+  taxonomy: {
+    title: 'أنواع الأجسام',
+    description:
+      'اختر طريقة التعامل مع كل نوع من الأجسام. لا يُعلن عن الأجسام المتجاهَلة أبدًا؛ والأحجام هي ارتفاعات نموذجية تُستخدم لتقدير المسافة.',
+    categories: {
+      critical: 'خطير',
+      warning: 'تحذير',
+      info: 'معلومة',
+    },
+    categoryHint: '{label}، الفئة {category}، اضغط للتغيير',
+    categoryChanged: '{label} الآن {category}',
+    flags: {
+      announce: 'نطق',
+      vibrate: 'اهتزاز',
+      ignore: 'تجاهل',
+    },
+    flagHint: '{flag} {label}',
+    flagOn: 'تم تفعيل {flag} لـ {label}',
+    flagOff: 'تم إيقاف {flag} لـ {label}',
+    size: '{size} م',
+    defaultSize: 'افتراضي',
+    decreaseSize: 'تصغير حجم {label}',
+    increaseSize: 'تكبير حجم {label}',
+    remove: 'إزالة',
+    removeHint: 'إزالة {label}',
+    removed: 'تمت إزالة {label}',
+    removedDefault: '{label} تسمية مدمجة، لذا سيتم تجاهلها بدلًا من إزالتها',
+    addPlaceholder: 'أضف تصنيفًا، مثل stroller',
+    addInputHint: 'تصنيف جسم جديد',
+    add: 'إضافة',
+    addHint: 'إضافة تصنيف',
+    added: 'تمت إضافة {label}',
+    alreadyListedTitle: 'موجود بالفعل',
+    alreadyListedMessage: '"{label}" موجود في القائمة بالفعل.',
+    shareTitle: 'أنواع الأجسام في StepSight',
+    export: 'تصدير',
+    exportHint: 'تصدير أنواع الأجسام',
+    exportFailedTitle: 'فشل التصدير',
+    exportFailedMessage: 'تعذرت مشاركة قائمة الأجسام',
+    import: 'استيراد',
+    importHint: 'استيراد أنواع الأجسام',
+    importPlaceholder: 'الصق ملف JSON لأنواع الأجسام المصدّرة',
+    importInputHint: 'JSON أنواع الأجسام',
+    applyImport: 'تطبيق الاستيراد',
+    imported: 'تم استيراد أنواع الأجسام',
+    importFailedTitle: 'فشل الاستيراد',
+    resetHint: 'إعادة تعيين أنواع الأجسام',
+    resetTitle: 'إعادة تعيين أنواع الأجسام',
+    resetMessage: 'هل تريد استعادة قائمة الأجسام الافتراضية؟',
+    resetDone: 'تمت استعادة أنواع الأجسام الافتراضية',
+    closeHint: 'إغلاق أنواع الأجسام',
+  },
+
+  haptics: {
+    title: 'أنماط الاهتزاز',
+    description:
+      'لكل نوع تنبيه نمط خاص للعوائق على اليسار وفي الوسط وعلى اليمين. اضغط على خطوة لتغييرها.',
+    types: {
+      urgent: 'عاجل',
+      warning: 'تحذير',
+      info: 'معلومة',
+    },
+    directions: {
+      left: 'يسار',
+      center: 'وسط',
+      right: 'يمين',
+    },
+    impacts: {
+      light: 'خفيف',
+      medium: 'متوسط',
+      heavy: 'قوي',
+      soft: 'ناعم',
+      rigid: 'حاد',
+    },
+    pause: '{ms} مللي ثانية',
+    selected: 'تنبيه {type}، {direction}',
+    stepHint: 'الخطوة {index}: {step}. اضغط للتغيير',
+    stepChanged: 'الخطوة {index}: {step}',
+    removeHint: 'إزالة الخطوة {index}',
+    removed: 'تمت إزالة الخطوة {index}',
+    addImpact: '+ اهتزاز',
+    addImpactHint: 'إضافة خطوة اهتزاز',
+    addPause: '+ توقف',
+    addPauseHint: 'إضافة خطوة توقف',
+    added: 'تمت إضافة {step}',
+    full: {
+      zero: 'يمكن أن يحتوي النمط على {count} خطوات كحد أقصى',
+      one: 'يمكن أن يحتوي النمط على خطوة واحدة كحد أقصى',
+      two: 'يمكن أن يحتوي النمط على خطوتين كحد أقصى',
+      few: 'يمكن أن يحتوي النمط على {count} خطوات كحد أقصى',
+      many: 'يمكن أن يحتوي النمط على {count} خطوة كحد أقصى',
+      other: 'يمكن أن يحتوي النمط على {count} خطوة كحد أقصى',
+    },
+    empty: 'لا توجد خطوات: لن تهتز هذه التنبيهات',
+    preview: 'تجربة',
+    previewHint: 'الإحساس بهذا النمط',
+    resetPattern: 'استعادة النمط',
+    resetPatternHint: 'استعادة النمط الافتراضي لنوع التنبيه والاتجاه هذين',
+    patternReset: 'تمت استعادة النمط الافتراضي',
+    closeHint: 'إغلاق أنماط الاهتزاز',
+  },
+
+  replay: {
+    title: 'إعادة تشغيل الجلسة',
+    allMatch: {
+      zero: 'لا توجد إطارات لإعادة تشغيلها.',
+      one: 'أُعيد تشغيل إطار واحد. التنبيهات مطابقة للتسجيل.',
+      two: 'أُعيد تشغيل إطارين. كل الإطارات مطابقة للتسجيل.',
+      few: 'أُعيد تشغيل {count} إطارات. كل الإطارات مطابقة للتسجيل.',
+      many: 'أُعيد تشغيل {count} إطارًا. كل الإطارات مطابقة للتسجيل.',
+      other: 'أُعيد تشغيل {count} إطار. كل الإطارات مطابقة للتسجيل.',
+    },
+    summary: {
+      one: 'أُعيد تشغيل {frames} إطار. أعطى إطار واحد تنبيهات مختلفة عن التسجيل.',
+      two: 'أُعيد تشغيل {frames} إطار. أعطى إطاران تنبيهات مختلفة عن التسجيل.',
+      few: 'أُعيد تشغيل {frames} إطار. أعطت {count} إطارات تنبيهات مختلفة عن التسجيل.',
+      many: 'أُعيد تشغيل {frames} إطار. أعطى {count} إطارًا تنبيهات مختلفة عن التسجيل.',
+      other: 'أُعيد تشغيل {frames} إطار. أعطى {count} إطار تنبيهات مختلفة عن التسجيل.',
+    },
+    onlyDifferences: 'الاختلافات فقط',
+    onlyDifferencesHint: 'عرض الإطارات التي تختلف تنبيهاتها عن التسجيل فقط',
+    frameAt: '+{seconds} ث، {source}',
+    differs: 'مختلف',
+    recorded: 'المسجل',
+    replayed: 'المعاد تشغيله',
+    noAlert: 'لا تنبيه',
+    empty: 'لا توجد إطارات لعرضها.',
+    closeHint: 'إغلاق إعادة تشغيل الجلسة',
+  },
+
+  rules: {
+    title: 'قواعد التنبيه',
+    preset: 'الإعداد المسبق',
+    custom: 'مخصص',
+    presets: {
+      standard: { name: 'قياسي', description: 'تنبيهات متوازنة للمشي اليومي' },
+      cautious: { name: 'حذر', description: 'ينبّه إلى الأجسام مبكرًا ومن مسافة أبعد' },
+      quiet: { name: 'هادئ', description: 'العوائق القريبة وما يتجه نحوك فقط' },
+    },
+    presetSelected: 'تم اختيار قواعد التنبيه: {name}',
+    customApplied: 'تم تطبيق قواعد التنبيه المخصصة',
+    invalidTitle: 'قواعد غير صالحة',
+    test: 'اختبار اكتشاف',
+    labelPlaceholder: 'التصنيف',
+    labelHint: 'تصنيف تجريبي',
+    steps: 'الخطوات',
+    confidence: 'الثقة',
+    contactIn: 'التلامس خلال',
+    never: 'أبدًا',
+    seconds: '{count} ث',
+    decrease: 'تقليل {name}',
+    increase: 'زيادة {name}',
+    positions: {
+      left: 'يسار',
+      center: 'وسط',
+      right: 'يمين',
+    },
+    moving: 'يتحرك',
+    inPath: 'في طريقي',
+    alerts: 'ينبّه',
+    filteredOut: 'تمت تصفيته',
+    alertTypes: {
+      urgent: 'عاجل',
+      warning: 'تحذير',
+      info: 'معلومة',
+    },
+    result: '{outcome} | النوع: {type} | الأولوية: {priority}',
+    fired: 'القواعد المطابقة: {rules}',
+    noRules: 'لا توجد قواعد',
+    list: 'القواعد ({count})',
+    editJson: 'تعديل بصيغة JSON',
+    hideJson: 'إخفاء JSON',
+    editJsonHint: 'تعديل القواعد بصيغة JSON',
+    jsonHint: 'JSON قواعد التنبيه',
+    applyJson: 'تطبيق JSON',
+    closeHint: 'إغلاق قواعد التنبيه',
+  },
+
+  tutorial: {
+    title: 'دليل StepSight',
+    subtitle: 'تعلّم كيفية استخدام StepSight بفعالية',
+    progress: '{current} من {total}',
+    stepAnnouncement: 'الخطوة {step}: {title}',
+    readAloud: 'اقرأ هذه الخطوة بصوت عالٍ',
+    readAloudHint: 'قراءة الخطوة الحالية بصوت عالٍ',
+    previous: 'السابق',
+    previousHint: 'الخطوة السابقة',
+    next: 'التالي',
+    nextHint: 'الخطوة التالية',
+    complete: 'اكتمل',
+    completeHint: 'اكتمل الدليل',
+    enableAudio: 'تفعيل صوت الدليل',
+    disableAudio: 'إيقاف صوت الدليل',
+    audioOn: 'تم تفعيل صوت الدليل',
+    audioOff: 'تم إيقاف صوت الدليل',
+    tipsTitle: 'نصائح سريعة',
+    tips: [
+      'استخدم سماعات الرأس لسماع أوضح',
+      'أبقِ هاتفك ثابتًا أثناء المسح',
+      'عايِر طول خطوتك للحصول على أفضل النتائج',
+      'تدرّب في أماكن مألوفة أولًا',
+    ],
+    steps: {
+      welcome: {
+        title: 'مرحبًا بك في StepSight',
+        description:
+          'يساعد StepSight المكفوفين وضعاف البصر على التنقل من خلال اكتشاف العوائق والإعلان عن بعدها بعدد الخطوات.',
+        details: [
+          'وجّه كاميرا الهاتف إلى الأمام أثناء المشي',
+          'استمع إلى الإعلانات الصوتية عن العوائق',
+          'اشعر بالاهتزاز عندما تكون الأجسام قريبة جدًا',
+          'خصّص الإعدادات حسب احتياجاتك',
+        ],
+      },
+      camera: {
+        title: 'التنقل بالكاميرا',
+        description: 'تستخدم الشاشة الرئيسية الكاميرا للبحث عن العوائق في الوقت الفعلي.',
+        details: [
+          'اضغط ابدأ لبدء اكتشاف العوائق',
+          'أمسك الهاتف بمستوى الصدر موجّهًا إلى الأمام',
+          'ستمسح الكاميرا طريقك تلقائيًا',
+          'تُظهر المؤشرات الخضراء العوائق المكتشفة',
+          'يتم الإعلان عن المسافة بعدد الخطوات',
+        ],
+      },
+      audio: {
+        title: 'الإعلانات الصوتية',
+        description: 'ينطق StepSight معلومات العوائق لمساعدتك على التنقل بأمان.',
+        details: [
+          'يُعلن عن العوائق بصيغة "جسم أمامك على بعد X خطوات"',
+          'يُعلن عن الأجسام الأقرب بشكل أكثر تكرارًا',
+          'اضغط زر الوصف لسماع كل العوائق على يسارك وفي الوسط وعلى يمينك',
+          'يمكنك إيقاف الصوت من الإعدادات عند الحاجة',
+          'استخدم سماعات رأس أو مكبرات صوت خارجية لصوت أفضل',
+        ],
+      },
+      haptic: {
+        title: 'الاهتزاز',
+        description: 'يهتز هاتفك عندما تكون العوائق قريبة بشكل خطير.',
+        details: [
+          'يحدث الاهتزاز عندما تكون الأجسام على بعد خطوة أو خطوتين',
+          'تشير الأنماط المختلفة إلى مدى قرب العائق',
+          'يمكن إيقافه من الإعدادات إن لم تكن بحاجة إليه',
+          'يعمل إلى جانب الإعلانات الصوتية',
+        ],
+      },
+      settings: {
+        title: 'الإعدادات والمعايرة',
+        description: 'خصّص StepSight حسب طريقة مشيك وتفضيلاتك.',
+        details: [
+          'عايِر طول خطوتك لقياس المسافة بدقة',
+          'امشِ 10 خطوات عادية أثناء المعايرة',
+          'اضبط إعدادات الصوت والاهتزاز',
+          'اختر لغة الإعلانات والقوائم',
+          'اضبط حساسية الاكتشاف عند الحاجة',
+        ],
+      },
+    },
+  },
+};
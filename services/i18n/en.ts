@@ -0,0 +1,717 @@
+import type { Catalog } from './translator';
+
+export const en: Catalog = {
+  numbers: ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten'],
+  punctuation: {
+    comma: ', ',
+  },
+
+  // Detector labels with irregular plurals; the rest get a regular "s"/"es"
+  labels: {
+    person: { one: 'person', other: 'people' },
+    stairs: { one: 'stairs', other: 'stairs' },
+  },
+
+  common: {
+    cancel: 'Cancel',
+    reset: 'Reset',
+    done: 'Done',
+    stepsShort: { one: '{count} STEP', other: '{count} STEPS' },
+    moving: 'MOVING',
+    hapticOn: 'Haptic feedback enabled',
+    hapticOff: 'Haptic feedback disabled',
+  },
+
+  alerts: {
+    stop: 'Stop!',
+    caution: 'Caution!',
+    approaching: {
+      one: '{label} approaching, contact in {count} second',
+      other: '{label} approaching, contact in {count} seconds',
+    },
+    ahead: { one: '{label} ahead in {count} step', other: '{label} ahead in {count} steps' },
+    nowSteps: { one: '{label}, now {count} step', other: '{label}, now {count} steps' },
+    passingBy: 'passing by',
+    movingFast: 'moving fast',
+    moving: 'moving',
+    pair: '{first} and {second}',
+    criticalGroup: '{critical} and {others}',
+    criticalObjects: { one: '{count} critical object', other: '{count} critical objects' },
+    otherObjects: { one: '{count} other', other: '{count} others' },
+    objects: { one: '{count} object', other: '{count} objects' },
+  },
+
+  directions: {
+    left: 'to your left',
+    right: 'to your right',
+    clock: "at {count} o'clock",
+    straightAhead: 'straight ahead',
+    degreesLeft: { one: '{count} degree left', other: '{count} degrees left' },
+    degreesRight: { one: '{count} degree right', other: '{count} degrees right' },
+    short: {
+      ahead: 'AHEAD',
+      left: 'LEFT',
+      right: 'RIGHT',
+      clock: "{count} o'clock",
+      degreesLeft: '{count}° L',
+      degreesRight: '{count}° R',
+    },
+    formats: {
+      leftRight: 'Left / Right',
+      clock: 'Clock Face',
+      degrees: 'Degrees',
+    },
+  },
+
+  scene: {
+    center: 'Center',
+    left: 'Left',
+    right: 'Right',
+    clock: "{count} o'clock",
+    region: '{region}: {description}.',
+    clear: 'clear',
+    group: { one: '{label}', other: '{number} {label}' },
+    at: { one: '{subject} in {count} step', other: '{subject} in {count} steps' },
+  },
+
+  tabs: {
+    camera: 'Camera',
+    cameraHint: 'Camera navigation screen',
+    settings: 'Settings',
+    settingsHint: 'Settings and calibration screen',
+    tutorial: 'Tutorial',
+    tutorialHint: 'Tutorial and help screen',
+  },
+
+  camera: {
+    activated: 'StepSight AI activated. Scanning for obstacles in your path.',
+    describeInactive: 'Start scanning to describe your surroundings',
+    cameraOn: 'Camera activated',
+    cameraOff: 'Camera deactivated',
+    audioOn: 'Audio enabled',
+    audioOff: 'Audio disabled',
+    flipped: 'Camera flipped',
+    testingConnection: 'Testing API connection',
+    connectionOk: 'API connection successful',
+    connectionFailedNoFallback: 'API connection failed, AI only mode has no fallback',
+    connectionFailedSimulation: 'API connection failed, using simulation mode',
+    recording: 'REC',
+    recordingHint: 'This session is being recorded',
+    status: {
+      inactive: 'INACTIVE',
+      onDevice: 'ON-DEVICE AI',
+      apiReady: 'API READY',
+      apiOffline: 'API OFFLINE',
+      simulation: 'SIMULATION',
+      checking: 'CHECKING',
+    },
+    apiStatus: {
+      unknown: 'UNKNOWN',
+      available: 'AVAILABLE',
+      unavailable: 'UNAVAILABLE',
+    },
+    loadingPermissions: 'Loading camera permissions...',
+    permissionTitle: 'Camera Access Required',
+    permissionMessage: 'StepSight needs camera access to detect obstacles and help with navigation.',
+    grantPermission: 'Grant Permission',
+    grantPermissionHint: 'Grant camera permission',
+    stepLength: 'Step: {count}cm',
+    platformWeb: 'Web',
+    platformMobile: 'Mobile',
+    detectionZone: 'Detection Zone',
+    confident: '{percent}% confident',
+    stats: 'API: {status} | Calls: {calls} | Detections: {detections} | Errors: {errors}',
+    start: 'START',
+    stop: 'STOP',
+    startHint: 'Start scanning',
+    stopHint: 'Stop scanning',
+    enableAudio: 'Enable audio',
+    disableAudio: 'Disable audio',
+    enableHaptic: 'Enable haptic feedback',
+    disableHaptic: 'Disable haptic feedback',
+    describe: 'Describe scene',
+    describeHint: 'Speaks every obstacle on your left, center and right',
+    flip: 'Flip camera',
+    testConnection: 'Test API connection',
+  },
+
+  overlay: {
+    center: 'CENTER',
+    urgent: 'OBSTACLE DETECTED',
+    urgentSubtext: 'STOP IMMEDIATELY',
+  },
+
+  settings: {
+    title: 'Settings',
+    subtitle: 'Optimize StepSight for your needs',
+
+    stepLength: {
+      title: 'Step Length Calibration',
+      current: 'Current Step Length',
+      value: '{count} cm',
+      placeholder: 'Enter step length (cm)',
+      inputHint: 'Step length input',
+      saveHint: 'Save step length',
+      hint: 'Accurate step length improves distance estimation. Use calibration for best results.',
+      walkDistance: 'Calibration walk distance (meters)',
+      walkDistanceHint: 'Distance you will walk for calibration, in meters',
+      start: 'Start Calibration Walk',
+      startHint: 'Start counting steps for calibration',
+      complete: 'Finish Walk',
+      completeHint: 'Stop counting steps and calculate your step length',
+      cancel: 'Cancel',
+      cancelHint: 'Cancel step calibration',
+      stepsSoFar: { one: '{count} step counted', other: '{count} steps counted' },
+      updated: 'Step length updated to {count} centimeters',
+      invalid: 'Please enter a step length between 40 and 100 centimeters',
+      invalidDistance: 'Please enter a walk distance between 3 and 100 meters',
+      noSensor: 'This device has no step sensor. Enter your step length manually.',
+      calibrationStarted:
+        'Calibration started. Walk {distance} meters in a straight line at your normal pace, then tap Finish Walk.',
+      calibrationComplete:
+        'Calibration complete. {steps} steps over {distance} meters. Your step length is {count} centimeters.',
+      calibrationCancelled: 'Calibration cancelled',
+      failures: {
+        noSteps: 'No steps were counted. Keep the phone with you while you walk, then try again.',
+        tooFewSteps: {
+          one: 'Only {count} step was counted. Walk a longer distance and try again.',
+          other: 'Only {count} steps were counted. Walk a longer distance and try again.',
+        },
+        sensorsDisagree: 'The step counts did not agree. Hold the phone steady and try again.',
+        unsteady: 'Your pace changed too much. Walk without stopping at a steady pace and try again.',
+        outOfRange:
+          'That works out to {length} centimeters per step, which is outside 40 to 100. Check the distance and try again.',
+      },
+    },
+
+    camera: {
+      title: 'Camera Calibration',
+      description:
+        'Distances are estimated from how large objects appear and where they meet the ground. Calibrating your camera against an object of known size and setting how high you hold it makes announced step counts accurate for this phone.',
+      calibrated: 'Calibrated',
+      notCalibrated: 'Not calibrated (using a typical phone camera)',
+      details: 'Camera: {camera} | Field of view: {fieldOfView}',
+      reference: 'Reference: {object} at {distance} m, {date}',
+      calibrate: 'Calibrate Camera',
+      recalibrate: 'Recalibrate Camera',
+      calibrateHint: 'Calibrate camera',
+      clear: 'Clear Calibration',
+      clearHint: 'Clear camera calibration',
+      calibratedAnnouncement: {
+        one: 'Camera calibrated. Field of view {count} degree.',
+        other: 'Camera calibrated. Field of view {count} degrees.',
+      },
+      cleared: 'Camera calibration cleared. Using the default estimate.',
+      height: 'Camera Height',
+      heightDescription: 'How high you hold the phone above the ground while walking',
+      heightValue: '{count} cm',
+      decreaseHeight: 'Decrease camera height',
+      increaseHeight: 'Increase camera height',
+      heightSet: 'Camera height set to {count} centimeters',
+    },
+
+    ai: {
+      title: 'AI Detection',
+      description: 'Configure AI-powered object detection and filtering for optimal performance.',
+      mode: 'Detection Mode',
+      modeDescription: 'Choose between AI, simulation, or hybrid detection',
+      modes: {
+        hybrid: 'Hybrid',
+        ai: 'AI',
+        simulation: 'Simulation',
+      },
+      modeNames: {
+        hybrid: 'hybrid AI and simulation',
+        ai: 'AI only',
+        simulation: 'simulation only',
+      },
+      modeSet: 'Detection mode set to {mode}',
+      confidence: 'Confidence Threshold',
+      confidenceDescription: 'Minimum confidence required for object detection',
+      decreaseConfidence: 'Decrease confidence threshold',
+      increaseConfidence: 'Increase confidence threshold',
+      confidenceSet: 'Confidence threshold set to {count} percent',
+      centerFocus: 'Center Focus Only',
+      centerFocusDescription: 'Only detect objects in the center field of view',
+      centerFocusHint: 'Toggle center focus only',
+      scenario: 'Simulation Scenario',
+      scenarioDescription: 'Unscripted random obstacles each frame, for stress testing rather than realistic walks',
+      randomScenario: 'Random obstacles (unscripted)',
+      scenarioHint: 'Simulate {name}',
+      scenarioSet: 'Simulation scenario set to {name}',
+      seed: 'Simulation Seed',
+      seedDescription: 'The same seed replays exactly the same simulated detections',
+      seedHint: 'Enter the simulation seed, a whole number',
+      saveSeedHint: 'Save simulation seed',
+      seedSet: 'Simulation seed set to {seed}',
+      invalidSeed: 'The seed must be a whole number, zero or more',
+    },
+
+    filtering: {
+      title: 'Smart Filtering',
+      description: 'Advanced filtering prevents alert spam and focuses on relevant obstacles.',
+      proximity: 'Proximity Filtering',
+      proximityDescription: 'Prioritizes closer objects',
+      temporal: 'Temporal Filtering',
+      temporalDescription: 'Prevents repeated alerts',
+      rulesSummary: {
+        one: 'Alert rules: {preset} ({count} rule)',
+        other: 'Alert rules: {preset} ({count} rules)',
+      },
+      rules: 'Alert Rules',
+      rulesHint: 'Edit and test alert rules',
+    },
+
+    objectTypes: {
+      title: 'Object Types',
+      description:
+        'Decide which objects matter to you: change their priority, mute or silence vibration for some, or ignore them completely.',
+      counts: 'Critical: {critical} | Warning: {warning} | Info: {info} | Ignored: {ignored}',
+      edit: 'Edit Object Types',
+      editHint: 'Edit object types',
+    },
+
+    audio: {
+      title: 'Audio Feedback',
+      enable: 'Enable Audio Announcements',
+      enableDescription: 'Speak obstacle information aloud',
+      enableHint: 'Toggle audio announcements',
+      enabled: 'Audio feedback enabled',
+      feedbackMode: 'Feedback Style',
+      feedbackModeDescription: 'Spoken alerts, a sonar tone that speeds up as the nearest obstacle gets closer, or both',
+      feedbackModes: {
+        speech: 'Speech',
+        sonar: 'Sonar',
+        speechAndSonar: 'Speech and sonar',
+      },
+      feedbackModeSet: 'Feedback style: {mode}',
+      cooldown: 'Alert Cooldown Period',
+      cooldownDescription: 'Time between alerts for same object type',
+      cooldownValue: '{count}s',
+      decreaseCooldown: 'Decrease cooldown',
+      increaseCooldown: 'Increase cooldown',
+      cooldownSet: 'Alert cooldown set to {count} seconds',
+      directionFormat: 'Direction Format',
+      directionFormatDescription: 'How object directions are spoken and labeled',
+      directionFormatHint: '{name}, for example {example}',
+      directionFormatSet: 'Directions set to {name}, for example: {example}',
+      spatial: 'Spatial Audio',
+      spatialDescription: 'A tone from the direction of each obstacle, best with headphones',
+      spatialHint: 'Toggle spatial audio',
+      spatialModes: {
+        beforeSpeech: 'Tone, then speech',
+        insteadOfSpeech: 'Tone only',
+      },
+      spatialModeHint: 'Spatial audio: {mode}',
+      spatialPreview: 'Tone from the left, then the right',
+      rate: 'Speech Rate',
+      rateDescription: 'How fast announcements are spoken',
+      rateValue: '{count}%',
+      decreaseRate: 'Slower speech',
+      increaseRate: 'Faster speech',
+      rateSet: 'Speech rate {count} percent',
+      pitch: 'Voice Pitch',
+      pitchDescription: 'How high or low the voice sounds',
+      pitchValue: '{count}%',
+      decreasePitch: 'Lower pitch',
+      increasePitch: 'Higher pitch',
+      pitchSet: 'Voice pitch {count} percent',
+      voice: 'Voice',
+      voiceDescription: 'Voices installed for the current language',
+      defaultVoice: 'Default',
+      defaultVoiceHint: 'Use the default voice for this language',
+      voiceHint: 'Use the {name} voice',
+      voiceSet: 'This is how the {name} voice sounds',
+      noVoices: 'No other voices are installed for this language',
+    },
+
+    language: {
+      title: 'Language',
+      label: 'App Language',
+      description: 'Used for announcements, object names and menus',
+      system: 'System',
+      systemHint: 'Follow the device language',
+      set: 'Language set to {name}',
+      restartTitle: 'Restart Required',
+      restartMessage: 'Close and reopen StepSight to switch the layout direction.',
+    },
+
+    haptic: {
+      title: 'Haptic Feedback',
+      enable: 'Enable Vibration Alerts',
+      description: 'Vibrate when obstacles are very close (1-2 steps)',
+      hint: 'Toggle haptic feedback',
+      design: 'Design Vibration Patterns',
+      designHint: 'Edit the vibration pattern for each alert type and direction',
+    },
+
+    detection: {
+      title: 'Detection Settings',
+      sensitivity: 'Detection Sensitivity',
+      sensitivityDescription: 'Higher values detect more objects but may increase false positives',
+      decreaseSensitivity: 'Decrease sensitivity',
+      increaseSensitivity: 'Increase sensitivity',
+      sensitivitySet: 'Detection sensitivity set to {count} percent',
+    },
+
+    platform: {
+      title: 'Platform Information',
+      runningOn: 'Running on {platform}',
+      web: 'Web Browser',
+      mobile: 'Mobile Device',
+      details: 'Platform: {os} | Version: {version} | AI Support: {support}',
+      supportLimited: 'Limited',
+      supportFull: 'Full',
+      model: 'Detection Model: {model}',
+      notConnected: 'Not connected to a detection server',
+      noModel: 'Connected (server did not report its model)',
+      server: 'Labels: {labels} | Input: {width}x{height} | Max FPS: {fps}',
+      unknown: 'unknown',
+      unlimited: 'unlimited',
+      lastDetector: 'Last Detector: {source}',
+      noneYet: 'none yet',
+      onDeviceModel: 'On-Device Model: {status}',
+      onDeviceLoaded: 'loaded',
+      onDeviceNotLoaded: 'not loaded yet',
+      onDeviceFailed: 'failed to load ({error})',
+      onDeviceUnavailable: 'not available',
+    },
+
+    advanced: {
+      show: 'Show Advanced Settings',
+      hide: 'Hide Advanced Settings',
+      title: 'Advanced',
+      export: 'Export',
+      exportHint: 'Export settings',
+      exportedTitle: 'Settings Exported',
+      exportedMessage: 'Settings have been exported to clipboard',
+      exported: 'Settings exported successfully',
+      exportFailedTitle: 'Export Failed',
+      exportFailedMessage: 'Could not export settings',
+      import: 'Import',
+      importHint: 'Import settings',
+      importTitle: 'Import Settings',
+      importMessage: 'Import functionality would be implemented here',
+    },
+
+    recording: {
+      record: 'Record Sessions',
+      description:
+        'Saves what the detector saw and which alerts were given while the camera is on, so a missed warning can be replayed and investigated. Recordings stay on this device.',
+      unsupported: 'Session recording is not available on the web.',
+      recordHint: 'Record detection sessions',
+      on: 'Session recording on',
+      off: 'Session recording off',
+      sessions: 'Recorded Sessions',
+      none: 'No sessions recorded yet.',
+      frames: { one: '{count} frame', other: '{count} frames' },
+      alerts: { one: '{count} alert', other: '{count} alerts' },
+      replay: 'Replay',
+      replayHint: 'Replay session {session}',
+      replayFailed: 'Could not replay this session',
+      delete: 'Delete',
+      deleteHint: 'Delete session {session}',
+      deleteTitle: 'Delete Session?',
+      deleted: 'Session deleted',
+    },
+
+    reset: {
+      button: 'Reset to Defaults',
+      hint: 'Reset all settings to defaults',
+      title: 'Reset Settings',
+      message: 'Are you sure you want to reset all settings to defaults?',
+      done: 'Settings reset to defaults',
+    },
+  },
+
+  calibration: {
+    title: 'Camera Calibration',
+    references: {
+      a4: 'A4 sheet (portrait)',
+      letter: 'US Letter sheet (portrait)',
+      door: 'Standard door',
+    },
+    setupDescription:
+      "Choose an object of known size, then stand a measured distance away from it. The phone should be held upright, level with the object's center.",
+    referenceOption: '{object} ({height} cm)',
+    referenceHint: 'Use {object}, {height} meters tall',
+    distance: 'Distance from the object (meters)',
+    distanceHint: 'Distance from the object in meters',
+    invalidDistanceTitle: 'Invalid Distance',
+    invalidDistanceMessage: 'Enter a distance between 0.3 and 10 meters.',
+    continue: 'Continue',
+    continueHint: 'Continue to camera',
+    standAt: 'Stand {distance} meters from the {object}, center it between the guide lines and take a photo.',
+    takePhoto: 'Take Photo',
+    takePhotoHint: 'Take calibration photo',
+    photoTaken: 'Photo taken. Move the lines to the top and bottom edges of the object.',
+    cameraErrorTitle: 'Camera Error',
+    cameraErrorMessage: 'Could not take a photo. Please try again.',
+    grantPermission: 'Grant Camera Permission',
+    grantPermissionHint: 'Grant camera permission',
+    edges: {
+      top: 'Top edge',
+      bottom: 'Bottom edge',
+    },
+    moveUp: 'Move {edge} up',
+    moveDown: 'Move {edge} down',
+    fine: 'Fine adjustment',
+    coarse: 'Coarse adjustment',
+    fineHint: 'Toggle fine adjustment',
+    save: 'Save Calibration',
+    saveHint: 'Save calibration',
+    wrongTitle: 'Calibration Looks Wrong',
+    wrongMessage:
+      "The result is outside the range of phone cameras. Check the distance and that the lines match the object's edges.",
+    cancelHint: 'Cancel calibration',
+  },
+
+  taxonomy: {
+    title: 'Object Types',
+    description:
+      'Choose how each kind of object is treated. Ignored objects are never reported; sizes are typical heights used to estimate distance.',
+    categories: {
+      critical: 'critical',
+      warning: 'warning',
+      info: 'info',
+    },
+    categoryHint: '{label} category {category}, tap to change',
+    categoryChanged: '{label} is now {category}',
+    flags: {
+      announce: 'Speak',
+      vibrate: 'Vibrate',
+      ignore: 'Ignore',
+    },
+    flagHint: '{flag} {label}',
+    flagOn: '{flag} on for {label}',
+    flagOff: '{flag} off for {label}',
+    size: '{size} m',
+    defaultSize: 'default',
+    decreaseSize: 'Decrease {label} size',
+    increaseSize: 'Increase {label} size',
+    remove: 'Remove',
+    removeHint: 'Remove {label}',
+    removed: 'Removed {label}',
+    removedDefault: '{label} is built in, so it is now ignored instead of removed',
+    addPlaceholder: 'Add a label, e.g. stroller',
+    addInputHint: 'New object label',
+    add: 'Add',
+    addHint: 'Add label',
+    added: 'Added {label}',
+    alreadyListedTitle: 'Already Listed',
+    alreadyListedMessage: '"{label}" is already in the list.',
+    shareTitle: 'StepSight object types',
+    export: 'Export',
+    exportHint: 'Export object types',
+    exportFailedTitle: 'Export Failed',
+    exportFailedMessage: 'Could not share the object list',
+    import: 'Import',
+    importHint: 'Import object types',
+    importPlaceholder: 'Paste exported object types JSON',
+    importInputHint: 'Object types JSON',
+    applyImport: 'Apply Import',
+    imported: 'Object types imported',
+    importFailedTitle: 'Import Failed',
+    resetHint: 'Reset object types',
+    resetTitle: 'Reset Object Types',
+    resetMessage: 'Restore the default object list?',
+    resetDone: 'Object types reset to defaults',
+    closeHint: 'Close object types',
+  },
+
+  haptics: {
+    title: 'Vibration Patterns',
+    description:
+      'Each alert type has its own pattern for obstacles on the left, in the center and on the right. Tap a step to change it.',
+    types: {
+      urgent: 'Urgent',
+      warning: 'Warning',
+      info: 'Info',
+    },
+    directions: {
+      left: 'Left',
+      center: 'Center',
+      right: 'Right',
+    },
+    impacts: {
+      light: 'Light',
+      medium: 'Medium',
+      heavy: 'Heavy',
+      soft: 'Soft',
+      rigid: 'Sharp',
+    },
+    pause: '{ms} ms',
+    selected: '{type} alert, {direction}',
+    stepHint: 'Step {index}: {step}. Tap to change',
+    stepChanged: 'Step {index}: {step}',
+    removeHint: 'Remove step {index}',
+    removed: 'Step {index} removed',
+    addImpact: '+ Vibration',
+    addImpactHint: 'Add a vibration step',
+    addPause: '+ Pause',
+    addPauseHint: 'Add a pause step',
+    added: 'Added {step}',
+    full: {
+      one: 'A pattern can have at most {count} step',
+      other: 'A pattern can have at most {count} steps',
+    },
+    empty: 'No steps: these alerts will not vibrate',
+    preview: 'Preview',
+    previewHint: 'Feel this pattern',
+    resetPattern: 'Reset Pattern',
+    resetPatternHint: 'Restore the default pattern for this alert type and direction',
+    patternReset: 'Pattern restored to default',
+    closeHint: 'Close vibration patterns',
+  },
+
+  replay: {
+    title: 'Session Replay',
+    allMatch: {
+      one: 'Replayed {count} frame. The alerts match the recording.',
+      other: 'Replayed {count} frames. Every frame matches the recording.',
+    },
+    summary: {
+      one: 'Replayed {frames} frames. {count} frame gave different alerts than the recording.',
+      other: 'Replayed {frames} frames. {count} frames gave different alerts than the recording.',
+    },
+    onlyDifferences: 'Only differences',
+    onlyDifferencesHint: 'Show only frames whose alerts differ from the recording',
+    frameAt: '+{seconds} s, {source}',
+    differs: 'differs',
+    recorded: 'Recorded',
+    replayed: 'Replayed',
+    noAlert: 'No alert',
+    empty: 'No frames to show.',
+    closeHint: 'Close session replay',
+  },
+
+  rules: {
+    title: 'Alert Rules',
+    preset: 'Preset',
+    custom: 'Custom',
+    presets: {
+      standard: { name: 'Standard', description: 'Balanced alerts for everyday walking' },
+      cautious: { name: 'Cautious', description: 'Reports objects earlier and from further away' },
+      quiet: { name: 'Quiet', description: 'Only close obstacles and anything heading your way' },
+    },
+    presetSelected: '{name} alert rules selected',
+    customApplied: 'Custom alert rules applied',
+    invalidTitle: 'Invalid Rules',
+    test: 'Test a Detection',
+    labelPlaceholder: 'Label',
+    labelHint: 'Sample label',
+    steps: 'Steps',
+    confidence: 'Confidence',
+    contactIn: 'Contact in',
+    never: 'never',
+    seconds: '{count}s',
+    decrease: 'Decrease {name}',
+    increase: 'Increase {name}',
+    positions: {
+      left: 'Left',
+      center: 'Center',
+      right: 'Right',
+    },
+    moving: 'Moving',
+    inPath: 'In my path',
+    alerts: 'Alerts',
+    filteredOut: 'Filtered out',
+    alertTypes: {
+      urgent: 'urgent',
+      warning: 'warning',
+      info: 'info',
+    },
+    result: '{outcome} | Type: {type} | Priority: {priority}',
+    fired: 'Fired: {rules}',
+    noRules: 'no rules',
+    list: 'Rules ({count})',
+    editJson: 'Edit as JSON',
+    hideJson: 'Hide JSON',
+    editJsonHint: 'Edit rules as JSON',
+    jsonHint: 'Alert rules JSON',
+    applyJson: 'Apply JSON',
+    closeHint: 'Close alert rules',
+  },
+
+  tutorial: {
+    title: 'StepSight Tutorial',
+    subtitle: 'Learn how to use StepSight effectively',
+    progress: '{current} of {total}',
+    stepAnnouncement: 'Step {step}: {title}',
+    readAloud: 'Read This Step Aloud',
+    readAloudHint: 'Read current step aloud',
+    previous: 'Previous',
+    previousHint: 'Previous step',
+    next: 'Next',
+    nextHint: 'Next step',
+    complete: 'Complete',
+    completeHint: 'Tutorial complete',
+    enableAudio: 'Enable tutorial audio',
+    disableAudio: 'Disable tutorial audio',
+    audioOn: 'Tutorial audio enabled',
+    audioOff: 'Tutorial audio disabled',
+    tipsTitle: 'Quick Tips',
+    tips: [
+      'Use headphones for better audio clarity',
+      'Keep your phone steady while scanning',
+      'Calibrate step length for best results',
+      'Practice in familiar spaces first',
+    ],
+    steps: {
+      welcome: {
+        title: 'Welcome to StepSight',
+        description:
+          'StepSight helps visually impaired users navigate by detecting obstacles and announcing their distance in walking steps.',
+        details: [
+          'Point your phone camera forward while walking',
+          'Listen for audio announcements about obstacles',
+          'Feel vibrations when objects are very close',
+          'Customize settings for your personal needs',
+        ],
+      },
+      camera: {
+        title: 'Camera Navigation',
+        description: 'The main screen uses your camera to scan for obstacles in real-time.',
+        details: [
+          'Tap START to begin obstacle detection',
+          'Hold your phone at chest level, pointing forward',
+          'The camera will automatically scan your path',
+          'Green indicators show detected obstacles',
+          'Distance is announced in walking steps',
+        ],
+      },
+      audio: {
+        title: 'Audio Announcements',
+        description: 'StepSight speaks obstacle information to help you navigate safely.',
+        details: [
+          'Obstacles are announced as "Object ahead in X steps"',
+          'Closer objects are announced more frequently',
+          'Tap the describe button to hear every obstacle on your left, center and right',
+          'You can disable audio in settings if needed',
+          'Use headphones or external speakers for better audio',
+        ],
+      },
+      haptic: {
+        title: 'Haptic Feedback',
+        description: 'Your phone vibrates when obstacles are dangerously close.',
+        details: [
+          'Vibration occurs when objects are 1-2 steps away',
+          'Different patterns indicate obstacle proximity',
+          'Can be disabled in settings if not needed',
+          'Works alongside audio announcements',
+        ],
+      },
+      settings: {
+        title: 'Settings & Calibration',
+        description: 'Customize StepSight for your walking style and preferences.',
+        details: [
+          'Calibrate your step length for accurate distance',
+          'Walk 10 normal steps during calibration',
+          'Adjust audio and haptic feedback settings',
+          'Choose the language for announcements and menus',
+          'Fine-tune detection sensitivity if needed',
+        ],
+      },
+    },
+  },
+};
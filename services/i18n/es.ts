@@ -0,0 +1,733 @@
+import type { Catalog } from './translator';
+
+export const es: Catalog = {
+  numbers: ['cero', 'uno', 'dos', 'tres', 'cuatro', 'cinco', 'seis', 'siete', 'ocho', 'nueve', 'diez'],
+  punctuation: {
+    comma: ', ',
+  },
+
+  labels: {
+    person: { one: 'persona', other: 'personas' },
+    car: { one: 'coche', other: 'coches' },
+    bicycle: { one: 'bicicleta', other: 'bicicletas' },
+    motorcycle: { one: 'moto', other: 'motos' },
+    truck: { one: 'camión', other: 'camiones' },
+    bus: { one: 'autobús', other: 'autobuses' },
+    chair: { one: 'silla', other: 'sillas' },
+    table: { one: 'mesa', other: 'mesas' },
+    door: { one: 'puerta', other: 'puertas' },
+    pole: { one: 'poste', other: 'postes' },
+    stairs: { one: 'escaleras', other: 'escaleras' },
+    step: { one: 'escalón', other: 'escalones' },
+    bench: { one: 'banco', other: 'bancos' },
+    wall: { one: 'pared', other: 'paredes' },
+    tree: { one: 'árbol', other: 'árboles' },
+    'trash can': { one: 'papelera', other: 'papeleras' },
+    sign: { one: 'señal', other: 'señales' },
+    bottle: { one: 'botella', other: 'botellas' },
+    cup: { one: 'taza', other: 'tazas' },
+  },
+
+  common: {
+    cancel: 'Cancelar',
+    reset: 'Restablecer',
+    done: 'Listo',
+    stepsShort: { one: '{count} PASO', other: '{count} PASOS' },
+    moving: 'EN MOVIMIENTO',
+    hapticOn: 'Vibración activada',
+    hapticOff: 'Vibración desactivada',
+  },
+
+  alerts: {
+    stop: '¡Alto!',
+    caution: '¡Cuidado!',
+    approaching: {
+      one: '{label} se acerca, contacto en {count} segundo',
+      other: '{label} se acerca, contacto en {count} segundos',
+    },
+    ahead: { one: '{label} delante a {count} paso', other: '{label} delante a {count} pasos' },
+    nowSteps: { one: '{label}, ahora a {count} paso', other: '{label}, ahora a {count} pasos' },
+    passingBy: 'pasa de largo',
+    movingFast: 'se mueve rápido',
+    moving: 'en movimiento',
+    pair: '{first} y {second}',
+    criticalGroup: '{critical} y {others}',
+    criticalObjects: { one: '{count} objeto peligroso', other: '{count} objetos peligrosos' },
+    otherObjects: { one: '{count} más', other: '{count} más' },
+    objects: { one: '{count} objeto', other: '{count} objetos' },
+  },
+
+  directions: {
+    left: 'a tu izquierda',
+    right: 'a tu derecha',
+    clock: { one: 'a la {count} en punto', other: 'a las {count} en punto' },
+    straightAhead: 'de frente',
+    degreesLeft: { one: '{count} grado a la izquierda', other: '{count} grados a la izquierda' },
+    degreesRight: { one: '{count} grado a la derecha', other: '{count} grados a la derecha' },
+    short: {
+      ahead: 'DELANTE',
+      left: 'IZQUIERDA',
+      right: 'DERECHA',
+      clock: '{count} en punto',
+      degreesLeft: '{count}° I',
+      degreesRight: '{count}° D',
+    },
+    formats: {
+      leftRight: 'Izquierda / Derecha',
+      clock: 'Reloj',
+      degrees: 'Grados',
+    },
+  },
+
+  scene: {
+    center: 'Centro',
+    left: 'Izquierda',
+    right: 'Derecha',
+    clock: { one: 'La {count} en punto', other: 'Las {count} en punto' },
+    region: '{region}: {description}.',
+    clear: 'despejado',
+    group: { one: '{label}', other: '{number} {label}' },
+    at: { one: '{subject} a {count} paso', other: '{subject} a {count} pasos' },
+  },
+
+  tabs: {
+    camera: 'Cámara',
+    cameraHint: 'Pantalla de navegación con cámara',
+    settings: 'Ajustes',
+    settingsHint: 'Pantalla de ajustes y calibración',
+    tutorial: 'Tutorial',
+    tutorialHint: 'Pantalla de tutorial y ayuda',
+  },
+
+  camera: {
+    activated: 'StepSight IA activado. Buscando obstáculos en tu camino.',
+    describeInactive: 'Empieza a escanear para describir tu entorno',
+    cameraOn: 'Cámara activada',
+    cameraOff: 'Cámara desactivada',
+    audioOn: 'Audio activado',
+    audioOff: 'Audio desactivado',
+    flipped: 'Cámara girada',
+    testingConnection: 'Probando la conexión con la API',
+    connectionOk: 'Conexión con la API correcta',
+    connectionFailedNoFallback: 'Falló la conexión con la API; el modo solo IA no tiene alternativa',
+    connectionFailedSimulation: 'Falló la conexión con la API; usando el modo simulación',
+    recording: 'REC',
+    recordingHint: 'Esta sesión se está grabando',
+    status: {
+      inactive: 'INACTIVO',
+      onDevice: 'IA EN EL DISPOSITIVO',
+      apiReady: 'API LISTA',
+      apiOffline: 'API SIN CONEXIÓN',
+      simulation: 'SIMULACIÓN',
+      checking: 'COMPROBANDO',
+    },
+    apiStatus: {
+      unknown: 'DESCONOCIDA',
+      available: 'DISPONIBLE',
+      unavailable: 'NO DISPONIBLE',
+    },
+    loadingPermissions: 'Cargando permisos de la cámara...',
+    permissionTitle: 'Se necesita acceso a la cámara',
+    permissionMessage: 'StepSight necesita acceso a la cámara para detectar obstáculos y ayudarte a orientarte.',
+    grantPermission: 'Conceder permiso',
+    grantPermissionHint: 'Conceder permiso de cámara',
+    stepLength: 'Paso: {count} cm',
+    platformWeb: 'Web',
+    platformMobile: 'Móvil',
+    detectionZone: 'Zona de detección',
+    confident: '{percent}% de confianza',
+    stats: 'API: {status} | Llamadas: {calls} | Detecciones: {detections} | Errores: {errors}',
+    start: 'INICIAR',
+    stop: 'DETENER',
+    startHint: 'Empezar a escanear',
+    stopHint: 'Dejar de escanear',
+    enableAudio: 'Activar audio',
+    disableAudio: 'Desactivar audio',
+    enableHaptic: 'Activar vibración',
+    disableHaptic: 'Desactivar vibración',
+    describe: 'Describir escena',
+    describeHint: 'Dice todos los obstáculos a tu izquierda, al centro y a tu derecha',
+    flip: 'Girar cámara',
+    testConnection: 'Probar conexión con la API',
+  },
+
+  overlay: {
+    center: 'CENTRO',
+    urgent: 'OBSTÁCULO DETECTADO',
+    urgentSubtext: 'DETENTE YA',
+  },
+
+  settings: {
+    title: 'Ajustes',
+    subtitle: 'Adapta StepSight a tus necesidades',
+
+    stepLength: {
+      title: 'Calibración de la longitud del paso',
+      current: 'Longitud de paso actual',
+      value: '{count} cm',
+      placeholder: 'Longitud del paso (cm)',
+      inputHint: 'Campo de longitud del paso',
+      saveHint: 'Guardar longitud del paso',
+      hint: 'Una longitud de paso precisa mejora el cálculo de distancias. Calibra para obtener los mejores resultados.',
+      walkDistance: 'Distancia del recorrido de calibración (metros)',
+      walkDistanceHint: 'Distancia que caminarás para calibrar, en metros',
+      start: 'Iniciar recorrido de calibración',
+      startHint: 'Empezar a contar pasos para calibrar',
+      complete: 'Terminar recorrido',
+      completeHint: 'Dejar de contar pasos y calcular tu longitud de paso',
+      cancel: 'Cancelar',
+      cancelHint: 'Cancelar la calibración del paso',
+      stepsSoFar: { one: '{count} paso contado', other: '{count} pasos contados' },
+      updated: 'Longitud del paso actualizada a {count} centímetros',
+      invalid: 'Introduce una longitud de paso entre 40 y 100 centímetros',
+      invalidDistance: 'Introduce una distancia de recorrido entre 3 y 100 metros',
+      noSensor: 'Este dispositivo no tiene sensor de pasos. Introduce tu longitud de paso manualmente.',
+      calibrationStarted:
+        'Calibración iniciada. Camina {distance} metros en línea recta a tu ritmo normal y pulsa Terminar recorrido.',
+      calibrationComplete:
+        'Calibración terminada. {steps} pasos en {distance} metros. Tu longitud de paso es de {count} centímetros.',
+      calibrationCancelled: 'Calibración cancelada',
+      failures: {
+        noSteps: 'No se contó ningún paso. Lleva el teléfono contigo mientras caminas e inténtalo de nuevo.',
+        tooFewSteps: {
+          one: 'Solo se contó {count} paso. Camina una distancia mayor e inténtalo de nuevo.',
+          other: 'Solo se contaron {count} pasos. Camina una distancia mayor e inténtalo de nuevo.',
+        },
+        sensorsDisagree: 'Los recuentos de pasos no coinciden. Sujeta el teléfono con firmeza e inténtalo de nuevo.',
+        unsteady: 'Tu ritmo cambió demasiado. Camina sin detenerte a un ritmo constante e inténtalo de nuevo.',
+        outOfRange:
+          'Eso da {length} centímetros por paso, fuera del rango de 40 a 100. Comprueba la distancia e inténtalo de nuevo.',
+      },
+    },
+
+    camera: {
+      title: 'Calibración de la cámara',
+      description:
+        'Las distancias se calculan a partir del tamaño aparente de los objetos y de dónde tocan el suelo. Calibrar la cámara con un objeto de tamaño conocido e indicar a qué altura sostienes el teléfono hace que los pasos anunciados sean precisos en este teléfono.',
+      calibrated: 'Calibrada',
+      notCalibrated: 'Sin calibrar (se usa una cámara de teléfono típica)',
+      details: 'Cámara: {camera} | Campo de visión: {fieldOfView}',
+      reference: 'Referencia: {object} a {distance} m, {date}',
+      calibrate: 'Calibrar cámara',
+      recalibrate: 'Volver a calibrar',
+      calibrateHint: 'Calibrar cámara',
+      clear: 'Borrar calibración',
+      clearHint: 'Borrar calibración de la cámara',
+      calibratedAnnouncement: {
+        one: 'Cámara calibrada. Campo de visión de {count} grado.',
+        other: 'Cámara calibrada. Campo de visión de {count} grados.',
+      },
+      cleared: 'Calibración de la cámara borrada. Se usa la estimación predeterminada.',
+      height: 'Altura de la cámara',
+      heightDescription: 'A qué altura del suelo sostienes el teléfono al caminar',
+      heightValue: '{count} cm',
+      decreaseHeight: 'Reducir altura de la cámara',
+      increaseHeight: 'Aumentar altura de la cámara',
+      heightSet: 'Altura de la cámara fijada en {count} centímetros',
+    },
+
+    ai: {
+      title: 'Detección con IA',
+      description: 'Configura la detección de objetos con IA y el filtrado para un rendimiento óptimo.',
+      mode: 'Modo de detección',
+      modeDescription: 'Elige entre IA, simulación o detección híbrida',
+      modes: {
+        hybrid: 'Híbrido',
+        ai: 'IA',
+        simulation: 'Simulación',
+      },
+      modeNames: {
+        hybrid: 'híbrido de IA y simulación',
+        ai: 'solo IA',
+        simulation: 'solo simulación',
+      },
+      modeSet: 'Modo de detección: {mode}',
+      confidence: 'Umbral de confianza',
+      confidenceDescription: 'Confianza mínima necesaria para detectar un objeto',
+      decreaseConfidence: 'Reducir umbral de confianza',
+      increaseConfidence: 'Aumentar umbral de confianza',
+      confidenceSet: 'Umbral de confianza fijado en {count} por ciento',
+      centerFocus: 'Solo el centro',
+      centerFocusDescription: 'Detectar solo objetos en el centro del campo de visión',
+      centerFocusHint: 'Activar o desactivar solo el centro',
+      scenario: 'Escenario de simulación',
+      scenarioDescription: 'Obstáculos aleatorios sin guion en cada fotograma, para pruebas de estrés y no para recorridos realistas',
+      randomScenario: 'Obstáculos aleatorios (sin guion)',
+      scenarioHint: 'Simular {name}',
+      scenarioSet: 'Escenario de simulación: {name}',
+      seed: 'Semilla de simulación',
+      seedDescription: 'La misma semilla repite exactamente las mismas detecciones simuladas',
+      seedHint: 'Introduce la semilla de simulación, un número entero',
+      saveSeedHint: 'Guardar semilla de simulación',
+      seedSet: 'Semilla de simulación: {seed}',
+      invalidSeed: 'La semilla debe ser un número entero, cero o mayor',
+    },
+
+    filtering: {
+      title: 'Filtrado inteligente',
+      description: 'El filtrado avanzado evita el exceso de avisos y se centra en los obstáculos relevantes.',
+      proximity: 'Filtrado por cercanía',
+      proximityDescription: 'Da prioridad a los objetos más cercanos',
+      temporal: 'Filtrado temporal',
+      temporalDescription: 'Evita avisos repetidos',
+      rulesSummary: {
+        one: 'Reglas de aviso: {preset} ({count} regla)',
+        other: 'Reglas de aviso: {preset} ({count} reglas)',
+      },
+      rules: 'Reglas de aviso',
+      rulesHint: 'Editar y probar las reglas de aviso',
+    },
+
+    objectTypes: {
+      title: 'Tipos de objeto',
+      description:
+        'Decide qué objetos te importan: cambia su prioridad, silencia la voz o la vibración de algunos, o ignóralos por completo.',
+      counts: 'Peligrosos: {critical} | Advertencia: {warning} | Información: {info} | Ignorados: {ignored}',
+      edit: 'Editar tipos de objeto',
+      editHint: 'Editar tipos de objeto',
+    },
+
+    audio: {
+      title: 'Avisos de audio',
+      enable: 'Activar avisos por voz',
+      enableDescription: 'Decir en voz alta la información de los obstáculos',
+      enableHint: 'Activar o desactivar avisos por voz',
+      enabled: 'Avisos de audio activados',
+      feedbackMode: 'Tipo de aviso',
+      feedbackModeDescription: 'Avisos hablados, un tono de sonar que se acelera al acercarse el obstáculo más próximo, o ambos',
+      feedbackModes: {
+        speech: 'Voz',
+        sonar: 'Sonar',
+        speechAndSonar: 'Voz y sonar',
+      },
+      feedbackModeSet: 'Tipo de aviso: {mode}',
+      cooldown: 'Pausa entre avisos',
+      cooldownDescription: 'Tiempo entre avisos del mismo tipo de objeto',
+      cooldownValue: '{count} s',
+      decreaseCooldown: 'Reducir pausa',
+      increaseCooldown: 'Aumentar pausa',
+      cooldownSet: 'Pausa entre avisos fijada en {count} segundos',
+      directionFormat: 'Formato de dirección',
+      directionFormatDescription: 'Cómo se dicen y se muestran las direcciones de los objetos',
+      directionFormatHint: '{name}, por ejemplo {example}',
+      directionFormatSet: 'Direcciones en formato {name}, por ejemplo: {example}',
+      spatial: 'Audio espacial',
+      spatialDescription: 'Un tono desde la dirección de cada obstáculo, mejor con auriculares',
+      spatialHint: 'Activar o desactivar audio espacial',
+      spatialModes: {
+        beforeSpeech: 'Tono y luego voz',
+        insteadOfSpeech: 'Solo tono',
+      },
+      spatialModeHint: 'Audio espacial: {mode}',
+      spatialPreview: 'Tono desde la izquierda y luego desde la derecha',
+      rate: 'Velocidad de voz',
+      rateDescription: 'Rapidez con la que se dicen los avisos',
+      rateValue: '{count} %',
+      decreaseRate: 'Voz más lenta',
+      increaseRate: 'Voz más rápida',
+      rateSet: 'Velocidad de voz al {count} por ciento',
+      pitch: 'Tono de voz',
+      pitchDescription: 'Lo aguda o grave que suena la voz',
+      pitchValue: '{count} %',
+      decreasePitch: 'Tono más grave',
+      increasePitch: 'Tono más agudo',
+      pitchSet: 'Tono de voz al {count} por ciento',
+      voice: 'Voz',
+      voiceDescription: 'Voces instaladas para el idioma actual',
+      defaultVoice: 'Predeterminada',
+      defaultVoiceHint: 'Usar la voz predeterminada de este idioma',
+      voiceHint: 'Usar la voz {name}',
+      voiceSet: 'Así suena la voz {name}',
+      noVoices: 'No hay otras voces instaladas para este idioma',
+    },
+
+    language: {
+      title: 'Idioma',
+      label: 'Idioma de la aplicación',
+      description: 'Se usa en los avisos, los nombres de objetos y los menús',
+      system: 'Sistema',
+      systemHint: 'Usar el idioma del dispositivo',
+      set: 'Idioma cambiado a {name}',
+      restartTitle: 'Reinicio necesario',
+      restartMessage: 'Cierra y vuelve a abrir StepSight para cambiar la dirección del diseño.',
+    },
+
+    haptic: {
+      title: 'Vibración',
+      enable: 'Activar avisos por vibración',
+      description: 'Vibrar cuando los obstáculos estén muy cerca (1-2 pasos)',
+      hint: 'Activar o desactivar vibración',
+      design: 'Diseñar patrones de vibración',
+      designHint: 'Editar el patrón de vibración de cada tipo de aviso y dirección',
+    },
+
+    detection: {
+      title: 'Ajustes de detección',
+      sensitivity: 'Sensibilidad de detección',
+      sensitivityDescription: 'Los valores altos detectan más objetos, pero pueden aumentar los falsos positivos',
+      decreaseSensitivity: 'Reducir sensibilidad',
+      increaseSensitivity: 'Aumentar sensibilidad',
+      sensitivitySet: 'Sensibilidad de detección fijada en {count} por ciento',
+    },
+
+    platform: {
+      title: 'Información de la plataforma',
+      runningOn: 'Funcionando en {platform}',
+      web: 'Navegador web',
+      mobile: 'Dispositivo móvil',
+      details: 'Plataforma: {os} | Versión: {version} | Soporte de IA: {support}',
+      supportLimited: 'Limitado',
+      supportFull: 'Completo',
+      model: 'Modelo de detección: {model}',
+      notConnected: 'Sin conexión con un servidor de detección',
+      noModel: 'Conectado (el servidor no indicó su modelo)',
+      server: 'Etiquetas: {labels} | Entrada: {width}x{height} | FPS máx.: {fps}',
+      unknown: 'desconocido',
+      unlimited: 'sin límite',
+      lastDetector: 'Último detector: {source}',
+      noneYet: 'ninguno aún',
+      onDeviceModel: 'Modelo en el dispositivo: {status}',
+      onDeviceLoaded: 'cargado',
+      onDeviceNotLoaded: 'aún no cargado',
+      onDeviceFailed: 'no se pudo cargar ({error})',
+      onDeviceUnavailable: 'no disponible',
+    },
+
+    advanced: {
+      show: 'Mostrar ajustes avanzados',
+      hide: 'Ocultar ajustes avanzados',
+      title: 'Avanzado',
+      export: 'Exportar',
+      exportHint: 'Exportar ajustes',
+      exportedTitle: 'Ajustes exportados',
+      exportedMessage: 'Los ajustes se han copiado al portapapeles',
+      exported: 'Ajustes exportados correctamente',
+      exportFailedTitle: 'Error al exportar',
+      exportFailedMessage: 'No se pudieron exportar los ajustes',
+      import: 'Importar',
+      importHint: 'Importar ajustes',
+      importTitle: 'Importar ajustes',
+      importMessage: 'La importación se implementaría aquí',
+    },
+
+    recording: {
+      record: 'Grabar sesiones',
+      description:
+        'Guarda lo que vio el detector y los avisos que se dieron mientras la cámara está activa, para poder reproducir e investigar un aviso que faltó. Las grabaciones se quedan en este dispositivo.',
+      unsupported: 'La grabación de sesiones no está disponible en la web.',
+      recordHint: 'Grabar sesiones de detección',
+      on: 'Grabación de sesiones activada',
+      off: 'Grabación de sesiones desactivada',
+      sessions: 'Sesiones grabadas',
+      none: 'Aún no hay sesiones grabadas.',
+      frames: { one: '{count} fotograma', other: '{count} fotogramas' },
+      alerts: { one: '{count} aviso', other: '{count} avisos' },
+      replay: 'Reproducir',
+      replayHint: 'Reproducir la sesión {session}',
+      replayFailed: 'No se pudo reproducir esta sesión',
+      delete: 'Eliminar',
+      deleteHint: 'Eliminar la sesión {session}',
+      deleteTitle: '¿Eliminar la sesión?',
+      deleted: 'Sesión eliminada',
+    },
+
+    reset: {
+      button: 'Restablecer valores predeterminados',
+      hint: 'Restablecer todos los ajustes a sus valores predeterminados',
+      title: 'Restablecer ajustes',
+      message: '¿Seguro que quieres restablecer todos los ajustes a sus valores predeterminados?',
+      done: 'Ajustes restablecidos',
+    },
+  },
+
+  calibration: {
+    title: 'Calibración de la cámara',
+    references: {
+      a4: 'Hoja A4 (vertical)',
+      letter: 'Hoja carta (vertical)',
+      door: 'Puerta estándar',
+    },
+    setupDescription:
+      'Elige un objeto de tamaño conocido y colócate a una distancia medida. Sostén el teléfono en vertical, a la altura del centro del objeto.',
+    referenceOption: '{object} ({height} cm)',
+    referenceHint: 'Usar {object}, de {height} metros de alto',
+    distance: 'Distancia al objeto (metros)',
+    distanceHint: 'Distancia al objeto en metros',
+    invalidDistanceTitle: 'Distancia no válida',
+    invalidDistanceMessage: 'Introduce una distancia entre 0,3 y 10 metros.',
+    continue: 'Continuar',
+    continueHint: 'Continuar a la cámara',
+    standAt: 'Colócate a {distance} metros de: {object}. Céntralo entre las guías y haz una foto.',
+    takePhoto: 'Hacer foto',
+    takePhotoHint: 'Hacer foto de calibración',
+    photoTaken: 'Foto hecha. Mueve las líneas a los bordes superior e inferior del objeto.',
+    cameraErrorTitle: 'Error de cámara',
+    cameraErrorMessage: 'No se pudo hacer la foto. Inténtalo de nuevo.',
+    grantPermission: 'Conceder permiso de cámara',
+    grantPermissionHint: 'Conceder permiso de cámara',
+    edges: {
+      top: 'Borde superior',
+      bottom: 'Borde inferior',
+    },
+    moveUp: 'Subir la línea: {edge}',
+    moveDown: 'Bajar la línea: {edge}',
+    fine: 'Ajuste fino',
+    coarse: 'Ajuste grueso',
+    fineHint: 'Cambiar entre ajuste fino y grueso',
+    save: 'Guardar calibración',
+    saveHint: 'Guardar calibración',
+    wrongTitle: 'La calibración parece incorrecta',
+    wrongMessage:
+      'El resultado está fuera del rango de las cámaras de teléfono. Comprueba la distancia y que las líneas coincidan con los bordes del objeto.',
+    cancelHint: 'Cancelar calibración',
+  },
+
+  taxonomy: {
+    title: 'Tipos de objeto',
+    description:
+      'Elige cómo se trata cada tipo de objeto. Los objetos ignorados nunca se anuncian; los tamaños son alturas típicas que se usan para calcular la distancia.',
+    categories: {
+      critical: 'peligroso',
+      warning: 'advertencia',
+      info: 'información',
+    },
+    categoryHint: '{label}, categoría {category}; pulsa para cambiarla',
+    categoryChanged: '{label}: ahora {category}',
+    flags: {
+      announce: 'Voz',
+      vibrate: 'Vibrar',
+      ignore: 'Ignorar',
+    },
+    flagHint: '{flag}: {label}',
+    flagOn: '{flag} activado para {label}',
+    flagOff: '{flag} desactivado para {label}',
+    size: '{size} m',
+    defaultSize: 'predeterminado',
+    decreaseSize: 'Reducir tamaño de {label}',
+    increaseSize: 'Aumentar tamaño de {label}',
+    remove: 'Quitar',
+    removeHint: 'Quitar {label}',
+    removed: '{label} quitado',
+    removedDefault: '{label} es una etiqueta predefinida, así que ahora se ignora en lugar de quitarse',
+    addPlaceholder: 'Añade una etiqueta, p. ej. stroller',
+    addInputHint: 'Nueva etiqueta de objeto',
+    add: 'Añadir',
+    addHint: 'Añadir etiqueta',
+    added: '{label} añadido',
+    alreadyListedTitle: 'Ya está en la lista',
+    alreadyListedMessage: '«{label}» ya está en la lista.',
+    shareTitle: 'Tipos de objeto de StepSight',
+    export: 'Exportar',
+    exportHint: 'Exportar tipos de objeto',
+    exportFailedTitle: 'Error al exportar',
+    exportFailedMessage: 'No se pudo compartir la lista de objetos',
+    import: 'Importar',
+    importHint: 'Importar tipos de objeto',
+    importPlaceholder: 'Pega el JSON de tipos de objeto exportado',
+    importInputHint: 'JSON de tipos de objeto',
+    applyImport: 'Aplicar importación',
+    imported: 'Tipos de objeto importados',
+    importFailedTitle: 'Error al importar',
+    resetHint: 'Restablecer tipos de objeto',
+    resetTitle: 'Restablecer tipos de objeto',
+    resetMessage: '¿Restaurar la lista de objetos predeterminada?',
+    resetDone: 'Tipos de objeto restablecidos',
+    closeHint: 'Cerrar tipos de objeto',
+  },
+
+  haptics: {
+    title: 'Patrones de vibración',
+    description:
+      'Cada tipo de aviso tiene su propio patrón para obstáculos a la izquierda, al centro y a la derecha. Toca un paso para cambiarlo.',
+    types: {
+      urgent: 'Urgente',
+      warning: 'Advertencia',
+      info: 'Información',
+    },
+    directions: {
+      left: 'Izquierda',
+      center: 'Centro',
+      right: 'Derecha',
+    },
+    impacts: {
+      light: 'Suave',
+      medium: 'Media',
+      heavy: 'Fuerte',
+      soft: 'Blanda',
+      rigid: 'Seca',
+    },
+    pause: '{ms} ms',
+    selected: 'Aviso {type}, {direction}',
+    stepHint: 'Paso {index}: {step}. Toca para cambiarlo',
+    stepChanged: 'Paso {index}: {step}',
+    removeHint: 'Quitar el paso {index}',
+    removed: 'Paso {index} quitado',
+    addImpact: '+ Vibración',
+    addImpactHint: 'Añadir un paso de vibración',
+    addPause: '+ Pausa',
+    addPauseHint: 'Añadir un paso de pausa',
+    added: 'Añadido: {step}',
+    full: {
+      one: 'Un patrón puede tener como máximo {count} paso',
+      other: 'Un patrón puede tener como máximo {count} pasos',
+    },
+    empty: 'Sin pasos: estos avisos no vibrarán',
+    preview: 'Probar',
+    previewHint: 'Sentir este patrón',
+    resetPattern: 'Restablecer patrón',
+    resetPatternHint: 'Restaurar el patrón predeterminado de este tipo de aviso y dirección',
+    patternReset: 'Patrón restablecido',
+    closeHint: 'Cerrar patrones de vibración',
+  },
+
+  replay: {
+    title: 'Reproducción de sesión',
+    allMatch: {
+      one: 'Se reprodujo {count} fotograma. Los avisos coinciden con la grabación.',
+      other: 'Se reprodujeron {count} fotogramas. Todos coinciden con la grabación.',
+    },
+    summary: {
+      one: 'Se reprodujeron {frames} fotogramas. {count} fotograma dio avisos distintos a los grabados.',
+      other: 'Se reprodujeron {frames} fotogramas. {count} fotogramas dieron avisos distintos a los grabados.',
+    },
+    onlyDifferences: 'Solo diferencias',
+    onlyDifferencesHint: 'Mostrar solo los fotogramas cuyos avisos difieren de la grabación',
+    frameAt: '+{seconds} s, {source}',
+    differs: 'difiere',
+    recorded: 'Grabado',
+    replayed: 'Reproducido',
+    noAlert: 'Sin aviso',
+    empty: 'No hay fotogramas que mostrar.',
+    closeHint: 'Cerrar la reproducción de sesión',
+  },
+
+  rules: {
+    title: 'Reglas de aviso',
+    preset: 'Predefinido',
+    custom: 'Personalizado',
+    presets: {
+      standard: { name: 'Estándar', description: 'Avisos equilibrados para caminar a diario' },
+      cautious: { name: 'Prudente', description: 'Avisa antes y desde más lejos' },
+      quiet: { name: 'Discreto', description: 'Solo obstáculos cercanos y lo que venga hacia ti' },
+    },
+    presetSelected: 'Reglas de aviso: {name}',
+    customApplied: 'Reglas de aviso personalizadas aplicadas',
+    invalidTitle: 'Reglas no válidas',
+    test: 'Probar una detección',
+    labelPlaceholder: 'Etiqueta',
+    labelHint: 'Etiqueta de ejemplo',
+    steps: 'Pasos',
+    confidence: 'Confianza',
+    contactIn: 'Contacto en',
+    never: 'nunca',
+    seconds: '{count} s',
+    decrease: 'Reducir {name}',
+    increase: 'Aumentar {name}',
+    positions: {
+      left: 'Izquierda',
+      center: 'Centro',
+      right: 'Derecha',
+    },
+    moving: 'En movimiento',
+    inPath: 'En mi camino',
+    alerts: 'Avisa',
+    filteredOut: 'Filtrado',
+    alertTypes: {
+      urgent: 'urgente',
+      warning: 'advertencia',
+      info: 'información',
+    },
+    result: '{outcome} | Tipo: {type} | Prioridad: {priority}',
+    fired: 'Activadas: {rules}',
+    noRules: 'ninguna regla',
+    list: 'Reglas ({count})',
+    editJson: 'Editar como JSON',
+    hideJson: 'Ocultar JSON',
+    editJsonHint: 'Editar las reglas como JSON',
+    jsonHint: 'JSON de reglas de aviso',
+    applyJson: 'Aplicar JSON',
+    closeHint: 'Cerrar reglas de aviso',
+  },
+
+  tutorial: {
+    title: 'Tutorial de StepSight',
+    subtitle: 'Aprende a usar StepSight con eficacia',
+    progress: '{current} de {total}',
+    stepAnnouncement: 'Paso {step}: {title}',
+    readAloud: 'Leer este paso en voz alta',
+    readAloudHint: 'Leer el paso actual en voz alta',
+    previous: 'Anterior',
+    previousHint: 'Paso anterior',
+    next: 'Siguiente',
+    nextHint: 'Paso siguiente',
+    complete: 'Terminado',
+    completeHint: 'Tutorial terminado',
+    enableAudio: 'Activar audio del tutorial',
+    disableAudio: 'Desactivar audio del tutorial',
+    audioOn: 'Audio del tutorial activado',
+    audioOff: 'Audio del tutorial desactivado',
+    tipsTitle: 'Consejos rápidos',
+    tips: [
+      'Usa auriculares para oír mejor los avisos',
+      'Mantén el teléfono estable mientras escaneas',
+      'Calibra la longitud del paso para obtener mejores resultados',
+      'Practica primero en lugares conocidos',
+    ],
+    steps: {
+      welcome: {
+        title: 'Bienvenido a StepSight',
+        description:
+          'StepSight ayuda a las personas con discapacidad visual a desplazarse detectando obstáculos y anunciando su distancia en pasos.',
+        details: [
+          'Apunta la cámara del teléfono hacia delante mientras caminas',
+          'Escucha los avisos de voz sobre los obstáculos',
+          'Siente la vibración cuando los objetos estén muy cerca',
+          'Adapta los ajustes a tus necesidades',
+        ],
+      },
+      camera: {
+        title: 'Navegación con cámara',
+        description: 'La pantalla principal usa la cámara para buscar obstáculos en tiempo real.',
+        details: [
+          'Pulsa INICIAR para empezar a detectar obstáculos',
+          'Sostén el teléfono a la altura del pecho, apuntando hacia delante',
+          'La cámara escaneará tu camino automáticamente',
+          'Los indicadores verdes muestran los obstáculos detectados',
+          'La distancia se anuncia en pasos',
+        ],
+      },
+      audio: {
+        title: 'Avisos de voz',
+        description: 'StepSight dice en voz alta la información de los obstáculos para que te muevas con seguridad.',
+        details: [
+          'Los obstáculos se anuncian como «Objeto delante a X pasos»',
+          'Los objetos más cercanos se anuncian con más frecuencia',
+          'Pulsa el botón de describir para oír todos los obstáculos a tu izquierda, al centro y a tu derecha',
+          'Puedes desactivar el audio en los ajustes si lo necesitas',
+          'Usa auriculares o altavoces externos para oír mejor',
+        ],
+      },
+      haptic: {
+        title: 'Vibración',
+        description: 'El teléfono vibra cuando los obstáculos están peligrosamente cerca.',
+        details: [
+          'Vibra cuando los objetos están a 1-2 pasos',
+          'Los distintos patrones indican la cercanía del obstáculo',
+          'Se puede desactivar en los ajustes si no la necesitas',
+          'Funciona junto con los avisos de voz',
+        ],
+      },
+      settings: {
+        title: 'Ajustes y calibración',
+        description: 'Adapta StepSight a tu forma de caminar y a tus preferencias.',
+        details: [
+          'Calibra la longitud del paso para medir bien las distancias',
+          'Da 10 pasos normales durante la calibración',
+          'Ajusta el audio y la vibración',
+          'Elige el idioma de los avisos y los menús',
+          'Ajusta la sensibilidad de detección si lo necesitas',
+        ],
+      },
+    },
+  },
+};
@@ -0,0 +1,23 @@
+import { I18nManager, Platform } from 'react-native';
+import { getLocales } from 'expo-localization';
+import { setSystemLanguages } from './translator';
+
+export * from './translator';
+
+setSystemLanguages(() => getLocales().map(locale => locale.languageCode));
+
+/**
+ * Mirrors the layout for right-to-left languages. Native apps only pick the
+ * new direction up after a restart, so this returns whether one is needed.
+ */
+export function applyLayoutDirection(isRTL: boolean): boolean {
+  if (Platform.OS === 'web') {
+    const root = (globalThis as { document?: { documentElement: { dir: string } } }).document?.documentElement;
+    if (root) root.dir = isRTL ? 'rtl' : 'ltr';
+    return false;
+  }
+
+  I18nManager.allowRTL(isRTL);
+  I18nManager.forceRTL(isRTL);
+  return I18nManager.isRTL !== isRTL;
+}
@@ -0,0 +1,186 @@
+import { en } from './en';
+import { es } from './es';
+import { ar } from './ar';
+
+export type Language = 'en' | 'es' | 'ar';
+export type LanguageSetting = Language | 'system';
+
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+export type PluralMessage = Partial<Record<PluralCategory, string>> & { other: string };
+export type Message = string | string[] | PluralMessage;
+
+export interface Catalog {
+  [key: string]: Message | Catalog;
+}
+
+export type MessageParams = Record<string, string | number | undefined>;
+
+interface LanguageDefinition {
+  name: string; // in the language itself, as shown in the picker
+  speechLanguage: string;
+  rtl: boolean;
+  catalog: Catalog;
+  plural: (count: number) => PluralCategory;
+  pluralizeLabel?: (label: string) => string; // for labels the catalog doesn't list
+}
+
+// CLDR cardinal rules, integers only: counts here are steps, seconds and objects
+export const LANGUAGES: Record<Language, LanguageDefinition> = {
+  en: {
+    name: 'English',
+    speechLanguage: 'en-US',
+    rtl: false,
+    catalog: en,
+    plural: count => (count === 1 ? 'one' : 'other'),
+    pluralizeLabel: label => (/(s|x|z|ch|sh)$/.test(label) ? `${label}es` : `${label}s`),
+  },
+  es: {
+    name: 'Español',
+    speechLanguage: 'es-ES',
+    rtl: false,
+    catalog: es,
+    plural: count => (count === 1 ? 'one' : 'other'),
+  },
+  ar: {
+    name: 'العربية',
+    speechLanguage: 'ar-SA',
+    rtl: true,
+    catalog: ar,
+    plural: count => {
+      const mod100 = count % 100;
+      if (count === 0) return 'zero';
+      if (count === 1) return 'one';
+      if (count === 2) return 'two';
+      if (mod100 >= 3 && mod100 <= 10) return 'few';
+      if (mod100 >= 11 && mod100 <= 99) return 'many';
+      return 'other';
+    },
+  },
+};
+
+export const LANGUAGE_IDS = Object.keys(LANGUAGES) as Language[];
+
+// Every message exists in English, so lookups always end there
+const FALLBACK_LANGUAGE: Language = 'en';
+
+export interface Translator {
+  language: Language; // first language of the chain, used for speech and layout
+  chain: Language[];
+  speechLanguage: string;
+  isRTL: boolean;
+  t: (key: string, params?: MessageParams) => string;
+  list: (key: string) => string[];
+  label: (label: string, count?: number) => string;
+}
+
+function isLanguage(code: string | null | undefined): code is Language {
+  return !!code && code in LANGUAGES;
+}
+
+// The device's preferred languages, most preferred first. The app reads them
+// from expo-localization (see index.ts); elsewhere the runtime's locale is used.
+let systemLanguages = (): (string | null)[] => [
+  Intl.DateTimeFormat().resolvedOptions().locale.split('-')[0],
+];
+
+export function setSystemLanguages(provider: () => (string | null)[]) {
+  systemLanguages = provider;
+}
+
+/**
+ * Languages to look messages up in, most preferred first. `system` follows
+ * the device's preferred languages in order, skipping unsupported ones.
+ */
+export function languageChain(setting: LanguageSetting): Language[] {
+  let preferred: (string | null)[] = [setting];
+  if (setting === 'system') {
+    try {
+      preferred = systemLanguages();
+    } catch (error) {
+      console.warn('⚠️ Could not read device languages:', error);
+      preferred = [];
+    }
+  }
+  return Array.from(new Set([...preferred.filter(isLanguage), FALLBACK_LANGUAGE]));
+}
+
+function lookup(catalog: Catalog, path: string[]): Message | undefined {
+  let node: Message | Catalog | undefined = catalog;
+  for (const part of path) {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) return undefined;
+    node = (node as Catalog)[part];
+  }
+  if (node === undefined || isMessage(node)) return node;
+  return undefined; // a section, not a message
+}
+
+function isMessage(node: Message | Catalog): node is Message {
+  return typeof node === 'string' || Array.isArray(node) || typeof node.other === 'string';
+}
+
+function interpolate(template: string, params: MessageParams): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
+
+export function createTranslator(setting: LanguageSetting): Translator {
+  const chain = languageChain(setting);
+  const language = chain[0];
+
+  const find = (path: string[]) => {
+    for (const candidate of chain) {
+      const message = lookup(LANGUAGES[candidate].catalog, path);
+      if (message !== undefined) return { language: candidate, message };
+    }
+    return null;
+  };
+
+  // Plural forms follow the language the message was found in, not the requested one
+  const select = (found: { language: Language; message: Message }, count: number | undefined): string => {
+    const { message } = found;
+    if (typeof message === 'string') return message;
+    if (Array.isArray(message)) return message.join(' ');
+    if (count === undefined) return message.other;
+    return message[LANGUAGES[found.language].plural(count)] ?? message.other;
+  };
+
+  const numberWord = (messageLanguage: Language, count: number) => {
+    const words = lookup(LANGUAGES[messageLanguage].catalog, ['numbers']);
+    return Array.isArray(words) && words[count] ? words[count] : String(count);
+  };
+
+  const t = (key: string, params: MessageParams = {}): string => {
+    const found = find(key.split('.'));
+    if (!found) {
+      console.warn(`⚠️ Missing translation: ${key}`);
+      return key;
+    }
+    const count = typeof params.count === 'number' ? params.count : undefined;
+    const number = count !== undefined ? numberWord(found.language, count) : undefined;
+    return interpolate(select(found, count), { number, ...params });
+  };
+
+  const list = (key: string): string[] => {
+    const found = find(key.split('.'));
+    return found && Array.isArray(found.message) ? found.message : [];
+  };
+
+  // Detector labels; ones the catalogs don't know (user-added) are spoken as typed
+  const label = (name: string, count = 1): string => {
+    const found = find(['labels', name]);
+    if (found) return select(found, count);
+    const pluralize = LANGUAGES[language].pluralizeLabel;
+    return count !== 1 && pluralize ? pluralize(name) : name;
+  };
+
+  return {
+    language,
+    chain,
+    speechLanguage: LANGUAGES[language].speechLanguage,
+    isRTL: LANGUAGES[language].rtl,
+    t,
+    list,
+    label,
+  };
+}
@@ -0,0 +1,19 @@
+import { parseScenario, Scenario } from '../Scenario';
+import staticChair from './static-chair.json';
+import crossingPerson from './crossing-person.json';
+import hallwayWalk from './hallway-walk.json';
+import streetCorner from './street-corner.json';
+
+// Scenarios bundled with the app, in the order Settings offers them
+export const SCENARIOS: Scenario[] = [staticChair, crossingPerson, hallwayWalk, streetCorner].map(parseScenario);
+
+// What simulation plays unless Settings picks another one
+export const DEFAULT_SCENARIO = 'hallway-walk';
+
+// Unscripted noise, offered last and never the default: a few random
+// obstacles per frame, still drawn from the seed
+export const RANDOM_SCENARIO = 'random';
+
+export function findScenario(id: string): Scenario | undefined {
+  return SCENARIOS.find(scenario => scenario.id === id);
+}